@@ -5,7 +5,7 @@
  * - Project 1: vercel.json → Runs at 0:30 UTC (processes previous day Period 1)
  * - Project 2: vercel.12-30.json → Runs at 12:30 UTC (processes current day Period 0)
  *
- * Each run processes BOTH alarm and focus lock pools for the scheduled period.
+ * Each run processes every registered pool type (alarm, focus lock) for the scheduled period.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
@@ -74,33 +74,47 @@ export default async function handler(
       console.log('Force flag enabled - skipping time buffer');
     }
 
-    // Process both alarm and focus lock pools
-    const result = await processCronPools(force);
+    // Check for dry-run flag (preview only, nothing sent or stored)
+    const dryRun = req.query.dry_run === 'true';
+    if (dryRun) {
+      console.log('Dry-run flag enabled - no transactions or database writes');
+    }
+
+    // Check for multicall flag (all pool types finalized in one transaction)
+    const multicall = req.query.multicall === 'true';
+    if (multicall) {
+      console.log('Multicall flag enabled - bundling set_merkle_root_for_pool calls');
+    }
+
+    // Process all registered pool types
+    const result = await processCronPools({ force, dryRun, multicall });
 
     console.log('Cron processing completed:', {
       pool: result.pool,
-      alarmSuccess: result.alarm.success,
-      focusSuccess: result.focus.success,
+      results: Object.fromEntries(
+        Object.entries(result.results).map(([name, r]) => [name, r.success])
+      ),
       overallSuccess: result.success,
     });
 
-    // Return detailed result
+    // Return detailed result (one entry per pool type, e.g. alarm, focus)
     return res.status(200).json({
       success: result.success,
       pool: result.pool,
       processed_at: result.processed_at,
-      alarm: {
-        success: result.alarm.success,
-        message: result.alarm.message,
-        transaction_hash: result.alarm.transaction_hash,
-        pool_info: result.alarm.pool_info,
-      },
-      focus: {
-        success: result.focus.success,
-        message: result.focus.message,
-        transaction_hash: result.focus.transaction_hash,
-        pool_info: result.focus.pool_info,
-      },
+      ...Object.fromEntries(
+        Object.entries(result.results).map(([name, r]) => [
+          name,
+          {
+            success: r.success,
+            message: r.message,
+            transaction_hash: r.transaction_hash,
+            pool_info: r.pool_info,
+            fee_estimate: r.fee_estimate,
+            dry_run_report: r.dry_run_report,
+          },
+        ])
+      ),
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,219 @@
+/**
+ * Alarm pool type registration
+ *
+ * Plugs alarm-specific data access, reward rules, merkle leaves and
+ * SNIP-12 claims into the generic pool pipeline. Each stake token is a
+ * sub-pool of its own (see core/token-pools.ts).
+ */
+
+import { RewardData } from '../types/common.js';
+import { AlarmUser, AlarmPoolConfig } from '../types/alarm.js';
+import { PoolType } from '../types/pool.js';
+import { getAlarmConfig, getCoreConfig } from '../core/config.js';
+import { getPoolRepository } from '../core/repository.js';
+import { calculateTimeRange, parseMerkleProof } from '../core/database.js';
+import {
+  calculateTotalSlashed,
+  calculateRewards,
+  calculateRefunds,
+  buildMerkleTree,
+  createMerkleLeaf,
+  aggregateRewardsByAddress,
+} from '../core/calculator.js';
+import { computePoolOutcome } from '../core/outcome.js';
+import {
+  resolveTokenPoolSymbol,
+  tokenPoolConfig,
+  tokenPoolDisplayName,
+  tokenPoolName,
+} from '../core/token-pools.js';
+import {
+  MAX_STREAK_LOOKBACK,
+  STREAK_LOOKBACK_SECONDS,
+  calculateStreakWeight,
+} from '../core/streaks.js';
+import {
+  createAlarmOutcomeSignature,
+  getClaimDomain,
+  verifyAlarmClaimSignature,
+} from '../core/crypto.js';
+import { getSigner } from '../core/signer.js';
+import { verifyWithRecordedKey } from '../core/verifier.js';
+import { createModuleLogger } from '../core/logger.js';
+
+const log = createModuleLogger('alarm-pool');
+
+/**
+ * Attach each alarm's streak (only when a multiplier curve is configured)
+ */
+async function withStreaks(users: AlarmUser[], day: number, period: 0 | 1): Promise<AlarmUser[]> {
+  if (users.length === 0 || getAlarmConfig().streak_multipliers.length === 0) {
+    return users;
+  }
+
+  const { periodStart } = calculateTimeRange(day, period);
+  const previous = await getPoolRepository().fetchAlarmStreaks(
+    users.map((user) => user.alarm_uuid),
+    periodStart - STREAK_LOOKBACK_SECONDS,
+    periodStart,
+    MAX_STREAK_LOOKBACK
+  );
+
+  // A snooze breaks the streak; a wake-up extends it
+  return users.map((user) => ({
+    ...user,
+    streak: user.snooze_count === 0 ? (previous.get(user.alarm_uuid) ?? 0) + 1 : 0,
+  }));
+}
+
+/**
+ * Alarm pool type of one stake token
+ *
+ * @param symbol Further token of ALARM_TOKEN_POOLS, or null for ALARM_TOKEN
+ */
+function createAlarmPoolType(symbol: string | null): PoolType<AlarmUser, RewardData> {
+  const getConfig = (): AlarmPoolConfig => tokenPoolConfig(getAlarmConfig(), symbol);
+
+  return {
+    name: tokenPoolName('alarm', symbol),
+    displayName: tokenPoolDisplayName('Alarm', symbol),
+
+    getContractConfig: getConfig,
+    async fetchUsers(day, period) {
+      const users = await getPoolRepository().fetchAlarmsFromPool(day, period, getConfig().token);
+      return withStreaks(users, day, period);
+    },
+    findUnprocessedPools: () => getPoolRepository().findUnprocessedAlarmPools(getConfig().token),
+    findLatestPool: () => getPoolRepository().findLatestAlarmPool(getConfig().token),
+    findPoolTokens: (day, period) => getPoolRepository().findAlarmPoolTokens(day, period),
+    forToken: (tokenSymbol) =>
+      createAlarmPoolType(resolveTokenPoolSymbol(getAlarmConfig(), tokenSymbol)),
+
+    computeOutcomes(users, config, carriedIn) {
+      const { slash_schedule, reward_allocation } = config;
+      const { streak_multipliers } = getAlarmConfig();
+      const totalSlashed = calculateTotalSlashed(users, slash_schedule);
+
+      // Winners are weighted by stake × streak multiplier
+      const weightOf = (user: AlarmUser): bigint =>
+        calculateStreakWeight(BigInt(user.stake_amount), user.streak ?? 0, streak_multipliers);
+
+      return computePoolOutcome(config, totalSlashed, carriedIn, {
+        distribute: (rewardPot) =>
+          calculateRewards(users, rewardPot, reward_allocation, weightOf),
+        refund: (rewardPot) =>
+          calculateRefunds(users, rewardPot, slash_schedule, reward_allocation),
+      });
+    },
+
+    buildMerkleTree(users, rewards) {
+      // Aggregate rewards by unique address (handle multiple alarms per user)
+      const uniqueAddresses = [...new Set(users.map((u) => u.address))];
+      const aggregatedRewards = aggregateRewardsByAddress(rewards);
+
+      log.info(
+        {
+          totalAlarms: users.length,
+          uniqueAddresses: uniqueAddresses.length,
+          rewardEntries: rewards.length,
+        },
+        'Aggregating rewards by address'
+      );
+
+      // Build leaves with one entry per unique address
+      const leaves = uniqueAddresses.map((address) => {
+        const totalReward = aggregatedRewards.get(address) ?? 0n;
+        return {
+          key: address,
+          hash: createMerkleLeaf(address, totalReward),
+        };
+      });
+
+      return buildMerkleTree(leaves);
+    },
+
+    signClaims(users, rewards, merkleTree, config, verifier, chainId, expiry) {
+      const domain = getClaimDomain(config, chainId);
+      const signer = getSigner(verifier.signer);
+
+      return Promise.all(
+        users.map(async (user) => {
+          // This alarm's own reward (none for losers); the leaf holds the address total
+          const userReward = rewards.find((r) => r.uuid === user.uuid);
+
+          // Generate SNIP-12 signature
+          const signature = await createAlarmOutcomeSignature(
+            user.address,
+            BigInt(user.alarm_id),
+            BigInt(user.wake_up_time),
+            user.snooze_count,
+            BigInt(expiry),
+            domain,
+            signer
+          );
+
+          return {
+            user,
+            reward_amount: userReward ? userReward.reward_amount : '0',
+            // All users have proofs, including losers
+            merkle_proof: merkleTree.proofs[user.address] ?? [],
+            signature: { ...signature, key_id: verifier.key_id },
+            ...(userReward?.weight && { reward_weight: userReward.weight }),
+          };
+        })
+      );
+    },
+
+    persistResults: (claims, expiry) => getPoolRepository().storeAlarmResults(claims, expiry),
+    async hasStoredClaims(users) {
+      const claims = await getPoolRepository().fetchAlarmClaims(users.map((user) => user.uuid));
+      return claims.size > 0;
+    },
+
+    async fetchStoredClaim(id) {
+      const config = getConfig();
+      const repository = getPoolRepository();
+      const record = await repository.findAlarmClaim(id, config.token);
+      if (!record) {
+        return null;
+      }
+
+      const { user, pool, claim } = record;
+
+      // The leaf commits to the address's total over its alarms in the pool
+      const poolAlarms = await repository.fetchAlarmsFromPool(pool.day, pool.period, config.token);
+      const addressClaims = await repository.fetchAlarmClaims(
+        poolAlarms.filter((alarm) => alarm.address === user.address).map((alarm) => alarm.uuid)
+      );
+      const addressReward = [...addressClaims.values()].reduce(
+        (sum, row) => sum + BigInt(row.reward_amount),
+        0n
+      );
+
+      const domain = getClaimDomain(config, getCoreConfig().starknetChainId);
+      const keyId = claim.key_id ?? null; // Absent from file stores written before key ids
+      const { public_key, signature } = await verifyWithRecordedKey(config, keyId, (publicKey) =>
+        verifyAlarmClaimSignature(user, BigInt(claim.expiry_time), claim, domain, publicKey)
+      );
+
+      return {
+        id,
+        day: pool.day,
+        period: pool.period,
+        address: user.address,
+        reward_amount: claim.reward_amount,
+        merkle_proof: parseMerkleProof(claim.merkle_proof),
+        // Leaf as built in buildMerkleTree (one per address)
+        leaf: createMerkleLeaf(user.address, addressReward),
+        expiry: Number(claim.expiry_time),
+        message_hash: claim.message_hash,
+        key_id: keyId,
+        public_key,
+        signature,
+        processed_at: claim.processed_at,
+      };
+    },
+  };
+}
+
+export const alarmPoolType = createAlarmPoolType(null);
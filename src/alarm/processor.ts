@@ -1,241 +0,0 @@
-/**
- * Main alarm pool processor
- * 
- * Processes a single alarm pool through the complete flow:
- * 1. Fetch alarms from database
- * 2. Validate user data
- * 3. Calculate rewards and protocol fees
- * 4. Build merkle tree
- * 5. Set merkle root on-chain (CRITICAL - must succeed!)
- * 6. Store results to database
- */
-
-import { ProcessingResult } from '../types/common.js';
-import { getAlarmConfig, getCoreConfig } from '../core/config.js';
-import {
-  fetchAlarmsFromPool,
-  storeAlarmResults,
-  calculateTimeRange,
-} from '../core/database.js';
-import {
-  calculateTotalSlashed,
-  calculateRewards,
-  buildMerkleTree,
-  createMerkleLeaf,
-  validatePoolUsers,
-  aggregateRewardsByAddress,
-} from '../core/calculator.js';
-import { calculateExpiry } from '../core/crypto.js';
-import { getBlockchainService } from '../core/blockchain.js';
-import {
-  createModuleLogger,
-  logPoolProcessingStart,
-  logPoolProcessingSuccess,
-  logPoolProcessingFailure,
-} from '../core/logger.js';
-
-const log = createModuleLogger('alarm-processor');
-
-/**
- * Time buffer after period end before processing (30 minutes)
- */
-const TIME_BUFFER_SECONDS = 30 * 60;
-
-/**
- * Protocol fee percentage (10%)
- */
-const PROTOCOL_FEE_PERCENT = 10n;
-const PERCENT_BASE = 100n;
-
-/**
- * Process a single alarm pool
- * 
- * @param day Unix day
- * @param period 0=AM, 1=PM
- * @param force Skip time buffer check
- * @returns Processing result
- */
-export async function processAlarmPool(
-  day: number,
-  period: 0 | 1,
-  force = false
-): Promise<ProcessingResult> {
-  logPoolProcessingStart(day, period);
-
-  try {
-    // Check time buffer (unless forced)
-    if (!force) {
-      const now = Math.floor(Date.now() / 1000);
-      const { periodEnd } = calculateTimeRange(day, period);
-      const readyTime = periodEnd + TIME_BUFFER_SECONDS;
-
-      if (now < readyTime) {
-        const delta = readyTime - now;
-        const readyDate = new Date(readyTime * 1000);
-        
-        log.warn(
-          {
-            pool: { day, period },
-            now,
-            readyTime,
-            deltaSeconds: delta,
-            readyDate: readyDate.toISOString(),
-          },
-          'Too early to process pool'
-        );
-
-        return {
-          success: false,
-          message: `Too early to process. Pool will be ready in ${delta}s at ${readyDate.toISOString()}`,
-        };
-      }
-    } else {
-      log.warn({ pool: { day, period } }, 'Forcing pool processing (buffer check skipped)');
-    }
-
-    // Step 1: Fetch alarms from database
-    log.info('Step 1: Fetching alarms from database');
-    const users = await fetchAlarmsFromPool(day, period);
-
-    if (users.length === 0) {
-      log.warn({ pool: { day, period } }, 'No users found in pool');
-      return {
-        success: false,
-        message: 'No users in pool',
-      };
-    }
-
-    // Step 2: Validate user data
-    log.info({ userCount: users.length }, 'Step 2: Validating user data');
-    validatePoolUsers(users);
-    log.info('All user data validated successfully');
-
-    // Step 3: Calculate rewards and fees
-    log.info('Step 3: Calculating rewards and protocol fees');
-    
-    const totalSlashed = calculateTotalSlashed(users);
-    const protocolFees = (totalSlashed * PROTOCOL_FEE_PERCENT) / PERCENT_BASE;
-    const newRewards = totalSlashed - protocolFees; // 90% to winners
-
-    const rewards = calculateRewards(users, newRewards);
-
-    log.info(
-      {
-        totalSlashed: totalSlashed.toString(),
-        protocolFees: protocolFees.toString(),
-        newRewards: newRewards.toString(),
-        winnerCount: rewards.length,
-      },
-      'Rewards calculated'
-    );
-
-    // Step 4: Build merkle tree
-    log.info('Step 4: Building merkle tree');
-
-    // Aggregate rewards by unique address (handle multiple alarms per user)
-    const uniqueAddresses = [...new Set(users.map((u) => u.address))];
-    const aggregatedRewards = aggregateRewardsByAddress(rewards);
-
-    log.info(
-      {
-        totalAlarms: users.length,
-        uniqueAddresses: uniqueAddresses.length,
-        rewardEntries: rewards.length,
-      },
-      'Aggregating rewards by address'
-    );
-
-    // Build leaves with one entry per unique address
-    const leaves = uniqueAddresses.map((address) => {
-      const totalReward = aggregatedRewards.get(address) ?? 0n;
-      return {
-        address,
-        hash: createMerkleLeaf(address, totalReward),
-      };
-    });
-
-    const merkleTree = buildMerkleTree(leaves);
-
-    log.info(
-      {
-        merkleRoot: merkleTree.root,
-        leafCount: leaves.length,
-        proofCount: Object.keys(merkleTree.proofs).length,
-      },
-      'Merkle tree built'
-    );
-
-    // Step 5: Set merkle root on-chain (CRITICAL!)
-    log.info('Step 5: Setting merkle root on-chain');
-    
-    const alarmConfig = getAlarmConfig();
-    const blockchainService = getBlockchainService();
-    await blockchainService.initialize();
-
-    let txHash: string;
-    try {
-      txHash = await blockchainService.setMerkleRootOnChain(
-        alarmConfig.contract_address,
-        day,
-        period,
-        merkleTree.root,
-        newRewards,
-        protocolFees
-      );
-      
-      log.info({ txHash }, 'Merkle root set on-chain successfully');
-    } catch (error) {
-      log.error(
-        { error, pool: { day, period } },
-        'CRITICAL: Blockchain transaction failed'
-      );
-      throw new Error(
-        `Blockchain finalization required before database storage: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
-
-    // Step 6: Store results to database (only after blockchain success!)
-    log.info('Step 6: Storing results to database');
-    
-    const { starknetChainId } = getCoreConfig();
-    const expiry = calculateExpiry();
-
-    await storeAlarmResults(
-      users,
-      rewards,
-      merkleTree,
-      alarmConfig,
-      starknetChainId,
-      expiry
-    );
-
-    log.info('Results stored to database successfully');
-
-    // Success!
-    const processedAt = new Date().toISOString();
-    
-    logPoolProcessingSuccess(day, period, txHash, users.length, rewards.length);
-
-    return {
-      success: true,
-      pool_info: {
-        day,
-        period,
-        merkle_root: merkleTree.root,
-        total_slashed_amount: totalSlashed.toString(),
-        new_rewards: newRewards.toString(),
-        protocol_fees: protocolFees.toString(),
-        transaction_hash: txHash,
-        total_users: users.length,
-        winners: rewards.length,
-        processed_at: processedAt,
-        blockchain_status: 'success',
-      },
-      transaction_hash: txHash,
-    };
-  } catch (error) {
-    logPoolProcessingFailure(day, period, error as Error);
-    throw error;
-  }
-}
-
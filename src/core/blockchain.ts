@@ -2,186 +2,385 @@
  * Blockchain operations for Starknet
  * 
  * Handles:
- * - Starknet RPC provider initialization
+ * - Chain client initialization (RPC node or fake chain)
  * - AVNU Paymaster for sponsored transactions
+ * - Pre-flight simulation and fee estimation
  * - Setting merkle roots on-chain
+ * - Reading on-chain pool state
  * - Transaction verification
+ * - Retrying transient RPC failures (see retry.ts)
  */
 
-import { Account, RpcProvider, Call } from 'starknet';
-import { getCoreConfig } from './config.js';
+import { Call } from 'starknet';
+import { getChainClient } from './chain.js';
+import { getRetryConfig } from './config.js';
+import {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  withRetry,
+  isTransientError,
+  isUnsentError,
+  isPaymasterRejection,
+  isNonceError,
+  isUnknownTransactionError,
+} from './retry.js';
 import { createModuleLogger, logBlockchainTransaction } from './logger.js';
-import { toU256Parts } from './calculator.js';
+import { toU256Parts, toHexString } from './calculator.js';
+import { OnChainPoolInfo } from '../types/common.js';
+import {
+  ChainClient,
+  ChainFeeEstimate,
+  MerkleRootTarget,
+  SubmittedTransaction,
+} from '../types/chain.js';
 
 const log = createModuleLogger('blockchain');
 
 /**
  * Blockchain service for managing Starknet transactions
+ *
+ * All chain access goes through the configured ChainClient (RPC node
+ * or in-process fake chain, see chain.ts).
+ *
+ * Every chain call is retried with exponential backoff on transient RPC
+ * errors. Once a transaction is broadcast only its receipt is retried:
+ * a known tx hash is never resent.
  */
 export class BlockchainService {
-  private provider: RpcProvider | null = null;
-  private account: Account | null = null;
-  private initialized = false;
+  private client: ChainClient | null = null;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
 
   /**
-   * Initialize Starknet provider and account
+   * Initialize the chain client
    */
   async initialize(): Promise<void> {
-    if (this.initialized) {
+    if (this.client) {
       return;
     }
 
     log.info('Initializing blockchain service');
 
-    const config = getCoreConfig();
-
-    // Initialize Starknet RPC provider
-    // Use 'latest' as blockIdentifier for Alchemy compatibility
-    this.provider = new RpcProvider({
-      nodeUrl: config.starknetRpcUrl,
-      // chainId will be auto-detected
-    });
-
-    log.info({ rpcUrl: config.starknetRpcUrl }, 'Starknet provider initialized');
-
-    // Initialize account for starknet.js v9
-    // The Account class takes an options object
-    this.account = new Account({
-      provider: this.provider,
-      address: config.deployerAddress,
-      signer: config.deployerPrivateKey,
-    });
+    const client = getChainClient();
+    await client.initialize();
+    this.client = client;
+    this.retryPolicy = getRetryConfig();
 
     log.info(
-      { address: config.deployerAddress },
-      'Deployer account initialized'
+      { backend: client.name, retryPolicy: this.retryPolicy },
+      'Blockchain service fully initialized'
     );
-
-    this.initialized = true;
-    log.info('Blockchain service fully initialized');
   }
 
   /**
    * Ensure service is initialized
    */
-  private ensureInitialized(): void {
-    if (!this.initialized || !this.provider || !this.account) {
+  private ensureInitialized(): ChainClient {
+    if (!this.client) {
       throw new Error('Blockchain service not initialized. Call initialize() first.');
     }
+    return this.client;
   }
 
   /**
-   * Set merkle root on-chain for a pool
-   * 
-   * Contract call: set_merkle_root_for_pool(day, period, merkle_root, new_rewards, protocol_fees)
-   * 
+   * Set merkle roots on-chain for one or more pools in a single transaction
+   *
+   * Contract call (per pool): set_merkle_root_for_pool(day, period, merkle_root, new_rewards, protocol_fees)
+   *
    * Transaction flow:
-   * 1. Prepare contract call
-   * 2. Try with regular transaction (no paymaster for now)
+   * 1. Prepare one contract call per pool (multicall when several)
+   * 2. Submit sponsored via AVNU paymaster (if configured), falling back
+   *    to a regular self-paid transaction on paymaster errors
    * 3. Wait for confirmation
-   * 4. Verify merkle root was set correctly
-   * 
-   * @returns Transaction hash
+   * 4. Verify each pool's merkle root individually
+   *
+   * @param onSubmitted Called with the tx as soon as it is broadcast
+   * @returns Transaction hash and fee mode used
    */
-  async setMerkleRootOnChain(
-    contractAddress: string,
-    day: number,
-    period: 0 | 1,
-    merkleRoot: string,
-    newRewards: bigint,
-    protocolFees: bigint
-  ): Promise<string> {
+  async setMerkleRootsOnChain(
+    targets: MerkleRootTarget[],
+    onSubmitted?: (tx: SubmittedTransaction) => Promise<void>
+  ): Promise<SubmittedTransaction> {
     this.ensureInitialized();
 
+    const pools = targets.map(describeTarget);
+
     log.info(
       {
-        pool: { day, period },
-        merkleRoot,
-        newRewards: newRewards.toString(),
-        protocolFees: protocolFees.toString(),
-        contractAddress,
+        pools: targets.map((target) => ({
+          ...describeTarget(target),
+          merkleRoot: target.merkle_root,
+          newRewards: target.new_rewards.toString(),
+          protocolFees: target.protocol_fees.toString(),
+        })),
       },
-      'Setting merkle root on-chain'
+      targets.length > 1 ? 'Setting merkle roots on-chain (multicall)' : 'Setting merkle root on-chain'
     );
 
-    // Split u256 values into low/high parts
-    const newRewardsParts = toU256Parts(newRewards);
-    const protocolFeesParts = toU256Parts(protocolFees);
-
-    // Prepare contract call
-    const call: Call = {
-      contractAddress,
-      entrypoint: 'set_merkle_root_for_pool',
-      calldata: [
-        day.toString(),
-        period.toString(),
-        merkleRoot,
-        newRewardsParts.low,
-        newRewardsParts.high,
-        protocolFeesParts.low,
-        protocolFeesParts.high,
-      ],
-    };
-
-    log.debug({ call }, 'Prepared contract call');
+    // Prepare contract calls
+    const calls = targets.map(buildTargetCall);
+
+    log.debug({ calls }, 'Prepared contract calls');
 
     try {
-      // Get nonce explicitly (starknet.js v9 API)
-      const nonce = await this.account!.getNonce();
-      
-      log.debug({ nonce }, 'Got account nonce');
-
-      // Execute transaction with starknet.js v9 API
-      // execute(calls, details?) - details include nonce and fee settings
-      const result = await this.account!.execute([call], {
-        nonce,
-      });
+      const tx = await this.submit(calls, targets);
 
-      const txHash = result.transaction_hash;
-      
-      logBlockchainTransaction('set_merkle_root', txHash, {
-        pool: { day, period },
+      logBlockchainTransaction('set_merkle_root', tx.transaction_hash, {
+        pools,
+        feeMode: tx.fee_mode,
       });
 
-      // Wait for confirmation
-      log.info({ txHash }, 'Waiting for transaction confirmation');
-      
-      const receipt = await this.provider!.waitForTransaction(txHash);
+      await onSubmitted?.(tx);
+
+      await this.confirmMerkleRoots(tx.transaction_hash, targets);
+
+      return tx;
+    } catch (error) {
+      log.error({ error, pools }, 'Failed to set merkle root on-chain');
+      throw error;
+    }
+  }
+
+  /**
+   * Simulate set_merkle_root_for_pool call(s) and estimate the fee
+   *
+   * Aborts before anything is broadcast when a call would revert
+   * (pool already finalized, caller not the owner, ...) or when the
+   * estimated fee exceeds the configured cap.
+   *
+   * @param maxFee Optional fee cap in the smallest unit of the fee token
+   * @throws {Error} If the simulation reverts or the fee exceeds the cap
+   */
+  async preflightSetMerkleRoots(
+    targets: MerkleRootTarget[],
+    maxFee?: bigint
+  ): Promise<ChainFeeEstimate> {
+    const client = this.ensureInitialized();
+
+    let estimate: ChainFeeEstimate;
+    try {
+      // Fee estimation simulates the calls and fails if any would revert
+      estimate = await this.retry('estimateFee', () =>
+        client.estimateFee(targets.map(buildTargetCall))
+      );
+    } catch (error) {
+      throw new Error(
+        `Pre-flight simulation failed, set_merkle_root_for_pool would revert: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    log.info(
+      {
+        pools: targets.map(describeTarget),
+        overallFee: estimate.overall_fee.toString(),
+        unit: estimate.unit,
+        maxFee: maxFee?.toString(),
+      },
+      'Pre-flight simulation succeeded'
+    );
+
+    if (maxFee !== undefined && estimate.overall_fee > maxFee) {
+      throw new Error(
+        `Estimated fee ${estimate.overall_fee} ${estimate.unit} exceeds MAX_TRANSACTION_FEE ${maxFee}`
+      );
+    }
+
+    return estimate;
+  }
+
+  /**
+   * Broadcast calls, sponsored when possible
+   *
+   * A paymaster that rejected the calls or could not be reached sent
+   * nothing, so finalization falls back to a self-paid transaction. After
+   * any other paymaster error the sponsored transaction may be pending:
+   * nothing is sent again, the run stays at the journal's computed stage
+   * and resume checks the chain once it has settled.
+   *
+   * @throws {Error} If the outcome of the sponsored transaction is unclear
+   */
+  private async submit(
+    calls: Call[],
+    targets: MerkleRootTarget[]
+  ): Promise<SubmittedTransaction> {
+    const client = this.ensureInitialized();
+
+    if (client.canSponsor()) {
+      try {
+        const txHash = await client.executeSponsored(calls);
+        return { transaction_hash: txHash, fee_mode: 'sponsored' };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+
+        if (!isPaymasterRejection(error) && !isUnsentError(error)) {
+          log.error({ error: message }, 'Paymaster outcome unclear, not falling back');
+          throw new Error(
+            `Sponsored transaction may have been sent (${message}), run 'resume' once it has settled`
+          );
+        }
+
+        log.warn(
+          { error: message },
+          'Paymaster execution failed, falling back to self-paid transaction'
+        );
+      }
+    }
 
-      if ('execution_status' in receipt && receipt.execution_status !== 'SUCCEEDED') {
+    // Get nonce explicitly
+    let nonce = await this.retry('getNonce', () => client.getNonce());
+
+    log.debug({ nonce }, 'Got account nonce');
+
+    // Only errors proving nothing was broadcast are retried. A rejected nonce
+    // means the account moved on: re-fetch it, and make sure no earlier
+    // attempt finalized the pools before resending.
+    let attempt = 0;
+    const txHash = await this.retry(
+      'execute',
+      async () => {
+        if (attempt++ > 0) {
+          await this.assertNotFinalized(targets);
+        }
+
+        try {
+          return await client.execute(calls, nonce);
+        } catch (error) {
+          if (isNonceError(error)) {
+            const staleNonce = nonce;
+            nonce = await client.getNonce();
+            log.warn({ staleNonce, nonce }, 'Account nonce rejected, re-fetched nonce');
+          }
+          throw error;
+        }
+      },
+      (error) => isUnsentError(error) || isNonceError(error)
+    );
+    return { transaction_hash: txHash, fee_mode: 'self-paid' };
+  }
+
+  /**
+   * Check that no earlier, possibly broadcast attempt finalized the pools
+   * before sending them again
+   *
+   * @throws {Error} If a pool is already finalized on-chain (the run is
+   *   left at the journal's computed stage for resume to reconcile)
+   */
+  private async assertNotFinalized(targets: MerkleRootTarget[]): Promise<void> {
+    for (const target of targets) {
+      const poolInfo = await this.getPoolInfo(target.contract_address, target.day, target.period);
+
+      if (poolInfo.is_finalized) {
+        log.error(
+          { pool: describeTarget(target), merkleRoot: poolInfo.merkle_root },
+          'Pool finalized on-chain by an earlier attempt, not resending'
+        );
         throw new Error(
-          `Transaction failed with status: ${receipt.execution_status}`
+          `Pool ${target.day}/${target.period} already finalized on-chain by an earlier attempt, run 'resume' to reconcile it`
         );
       }
+    }
+  }
+
+  /**
+   * Run a chain call with the configured retry policy
+   */
+  private retry<T>(
+    operation: string,
+    fn: () => Promise<T>,
+    shouldRetry?: (error: unknown) => boolean
+  ): Promise<T> {
+    return withRetry(operation, fn, this.retryPolicy, shouldRetry);
+  }
 
-      log.info({ txHash }, 'Transaction confirmed on-chain');
+  /**
+   * Wait for an already broadcast set_merkle_root_for_pool transaction
+   * and verify the merkle root of every pool it finalizes
+   *
+   * Used directly when resuming a run whose tx hash is already known.
+   */
+  async confirmMerkleRoots(txHash: string, targets: MerkleRootTarget[]): Promise<void> {
+    const client = this.ensureInitialized();
+
+    // Wait for confirmation
+    log.info({ txHash }, 'Waiting for transaction confirmation');
+
+    // Keep waiting on the known hash; a node may not have seen the tx yet
+    const receipt = await this.retry(
+      'waitForReceipt',
+      () => client.waitForReceipt(txHash),
+      (error) => isTransientError(error) || isUnknownTransactionError(error)
+    );
+
+    if (receipt.execution_status !== 'SUCCEEDED') {
+      throw new Error(
+        `Transaction failed with status: ${receipt.execution_status}` +
+          (receipt.revert_reason ? ` (${receipt.revert_reason})` : '')
+      );
+    }
+
+    log.info({ txHash }, 'Transaction confirmed on-chain');
 
-      // Verify merkle root was set correctly
-      await this.verifyMerkleRoot(contractAddress, day, period, merkleRoot);
+    // Verify each merkle root was set correctly
+    for (const target of targets) {
+      await this.verifyMerkleRoot(
+        target.contract_address,
+        target.day,
+        target.period,
+        target.merkle_root
+      );
 
       log.info(
         {
           txHash,
-          pool: { day, period },
-          merkleRoot,
+          pool: { day: target.day, period: target.period },
+          merkleRoot: target.merkle_root,
         },
         'Merkle root set successfully'
       );
-
-      return txHash;
-    } catch (error) {
-      log.error(
-        {
-          error,
-          pool: { day, period },
-          contractAddress,
-        },
-        'Failed to set merkle root on-chain'
-      );
-      throw error;
     }
   }
 
+  /**
+   * Read and decode the on-chain pool record
+   *
+   * Contract call: get_pool_info(day, period)
+   */
+  async getPoolInfo(
+    contractAddress: string,
+    day: number,
+    period: 0 | 1
+  ): Promise<OnChainPoolInfo> {
+    const client = this.ensureInitialized();
+
+    const poolInfo = await this.retry('getPoolInfo', () =>
+      client.getPoolInfo(contractAddress, day, period)
+    );
+
+    log.debug(
+      {
+        pool: { day, period },
+        merkleRoot: poolInfo.merkle_root,
+        isFinalized: poolInfo.is_finalized,
+        poolReward: poolInfo.pool_reward.toString(),
+        userCount: poolInfo.user_count.toString(),
+        totalStaked: poolInfo.total_staked.toString(),
+      },
+      'Read on-chain pool info'
+    );
+
+    return poolInfo;
+  }
+
+  /**
+   * Read the verifier public key registered on a contract
+   *
+   * Contract call: get_verifier_public_key()
+   */
+  async getVerifierPublicKey(contractAddress: string): Promise<string> {
+    const client = this.ensureInitialized();
+
+    return this.retry('getVerifierPublicKey', () => client.getVerifierPublicKey(contractAddress));
+  }
+
   /**
    * Verify merkle root was set correctly on-chain
    */
@@ -191,24 +390,15 @@ export class BlockchainService {
     period: 0 | 1,
     expectedMerkleRoot: string
   ): Promise<void> {
-    this.ensureInitialized();
-
     log.debug(
       { pool: { day, period }, expectedMerkleRoot },
       'Verifying merkle root on-chain'
     );
 
     try {
-      const poolInfo = await this.provider!.callContract({
-        contractAddress,
-        entrypoint: 'get_pool_info',
-        calldata: [day.toString(), period.toString()],
-      });
-
-      // Response format: (merkle_root, is_finalized, pool_reward, user_count, total_staked)
-      const resultArray = Array.isArray(poolInfo) ? poolInfo : (poolInfo as any).result ?? poolInfo;
-      const onChainMerkleRoot = this.normalizeHex(resultArray[0]);
-      const expectedNormalized = this.normalizeHex(expectedMerkleRoot);
+      const poolInfo = await this.getPoolInfo(contractAddress, day, period);
+      const onChainMerkleRoot = poolInfo.merkle_root;
+      const expectedNormalized = toHexString(BigInt(expectedMerkleRoot));
 
       if (onChainMerkleRoot !== expectedNormalized) {
         throw new Error(
@@ -228,16 +418,68 @@ export class BlockchainService {
       throw error;
     }
   }
+}
 
-  /**
-   * Normalize hex string for comparison
-   */
-  private normalizeHex(hex: string | bigint): string {
-    if (typeof hex === 'string') {
-      return hex.toLowerCase();
-    }
-    return '0x' + hex.toString(16).toLowerCase();
-  }
+/**
+ * Build the set_merkle_root_for_pool contract call
+ *
+ * Calldata: (day, period, merkle_root, new_rewards.low, new_rewards.high,
+ * protocol_fees.low, protocol_fees.high)
+ */
+export function buildSetMerkleRootCall(
+  contractAddress: string,
+  day: number,
+  period: 0 | 1,
+  merkleRoot: string,
+  newRewards: bigint,
+  protocolFees: bigint
+): Call {
+  // Split u256 values into low/high parts
+  const newRewardsParts = toU256Parts(newRewards);
+  const protocolFeesParts = toU256Parts(protocolFees);
+
+  return {
+    contractAddress,
+    entrypoint: 'set_merkle_root_for_pool',
+    calldata: [
+      day.toString(),
+      period.toString(),
+      merkleRoot,
+      newRewardsParts.low,
+      newRewardsParts.high,
+      protocolFeesParts.low,
+      protocolFeesParts.high,
+    ],
+  };
+}
+
+/**
+ * Build the set_merkle_root_for_pool call for a target
+ */
+function buildTargetCall(target: MerkleRootTarget): Call {
+  return buildSetMerkleRootCall(
+    target.contract_address,
+    target.day,
+    target.period,
+    target.merkle_root,
+    target.new_rewards,
+    target.protocol_fees
+  );
+}
+
+/**
+ * Short pool description for logs
+ */
+function describeTarget(target: MerkleRootTarget): {
+  contractAddress: string;
+  day: number;
+  period: 0 | 1;
+} {
+  return {
+    contractAddress: target.contract_address,
+    day: target.day,
+    period: target.period,
+  };
 }
 
 /**
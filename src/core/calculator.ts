@@ -2,86 +2,104 @@
  * Pool-agnostic reward calculation and merkle tree generation
  * 
  * This module implements:
- * - Stake return calculation based on penalty/slash count
- * - Reward distribution with protocol fees
+ * - Stake return calculation based on slash count and slash schedule
+ * - Reward distribution with protocol fees (floor or exact largest-remainder allocation)
  * - Merkle tree generation using Poseidon hashing (Starknet/Cairo compatible)
+ * - Merkle proof verification (same scheme as the contract)
  * - Helper functions for u256/u64 conversions
  */
 
 import { hash } from 'starknet';
-import { RewardData, MerkleTree, U256Parts, BasePoolUser } from '../types/common.js';
-import { FocusLockUser, FocusLockReward } from '../types/focus.js';
+import {
+  RewardData,
+  MerkleLeaf,
+  MerkleTree,
+  U256Parts,
+  BasePoolUser,
+  RewardAllocationMode,
+} from '../types/common.js';
+import { FocusLockUser, FocusLockReward, FocusWeighting } from '../types/focus.js';
+import { PartialReturnSchedule, SlashSchedule } from '../types/slashing.js';
+import { BPS_BASE } from './fees.js';
+import { calculateFocusWeight } from './focus-weighting.js';
+import { calculatePartialReturn } from './partial-return.js';
 import { createModuleLogger } from './logger.js';
 
 const log = createModuleLogger('calculator');
 
-/**
- * Penalty percentages for stake slashing
- */
 const PERCENT_BASE = 100n;
-const SLASH_20_PERCENT = 80n; // Return 80% (20% slashed)
-const SLASH_50_PERCENT = 50n; // Return 50% (50% slashed)
-const SLASH_100_PERCENT = 0n; // Return 0% (100% slashed)
-
-/**
- * Protocol fee percentage (10%)
- */
-const PROTOCOL_FEE_PERCENT = 10n;
 
 /**
  * Calculate stake return based on slash/snooze count
- * 
- * Rules:
- * - slashCount 0: 100% return (no penalty)
- * - slashCount 1: 80% return (20% slashed)
- * - slashCount 2: 50% return (50% slashed)
- * - slashCount 3+: 0% return (100% slashed)
+ *
+ * Table schedules return stake × percent / 100 (slash counts past the end
+ * of the table use its last entry); function schedules are called as is.
+ *
+ * @throws {Error} If a function schedule returns more than the stake
  */
 export function calculateStakeReturn(
   stakeAmount: bigint,
-  slashCount: number
+  slashCount: number,
+  schedule: SlashSchedule
 ): bigint {
-  switch (slashCount) {
-    case 0:
-      return stakeAmount;
-    case 1:
-      return (stakeAmount * SLASH_20_PERCENT) / PERCENT_BASE;
-    case 2:
-      return (stakeAmount * SLASH_50_PERCENT) / PERCENT_BASE;
-    default:
-      return SLASH_100_PERCENT;
+  if (schedule.kind === 'table') {
+    const table = schedule.return_percent;
+    const percent = table[Math.min(slashCount, table.length - 1)] ?? 0;
+    return (stakeAmount * BigInt(percent)) / PERCENT_BASE;
+  }
+
+  const returnAmount = schedule.stake_return(stakeAmount, slashCount);
+  if (returnAmount < 0n || returnAmount > stakeAmount) {
+    throw new Error(
+      `Slash schedule ${schedule.version} returned ${returnAmount} for a stake of ${stakeAmount}`
+    );
   }
+  return returnAmount;
 }
 
 /**
  * Calculate total slashed amount from all users
  */
 export function calculateTotalSlashed(
-  users: Array<{ stake_amount: string; snooze_count?: number }>
+  users: Array<{ stake_amount: string; snooze_count?: number }>,
+  schedule: SlashSchedule
 ): bigint {
   let totalSlashed = 0n;
 
   for (const user of users) {
     const stakeAmount = BigInt(user.stake_amount);
     const slashCount = user.snooze_count ?? 0;
-    const returnAmount = calculateStakeReturn(stakeAmount, slashCount);
+    const returnAmount = calculateStakeReturn(stakeAmount, slashCount, schedule);
     totalSlashed += stakeAmount - returnAmount;
   }
 
-  log.debug({ totalSlashed: totalSlashed.toString() }, 'Calculated total slashed');
+  log.debug(
+    { totalSlashed: totalSlashed.toString(), slashSchedule: schedule.version },
+    'Calculated total slashed'
+  );
   return totalSlashed;
 }
 
 /**
- * Calculate rewards for winners with protocol fee deduction
- * 
+ * Calculate rewards for winners
+ *
+ * The pot is distributed in full: the protocol fee is already deducted
+ * from it (see computePoolOutcome).
+ *
  * @param users All users in the pool
- * @param totalPoolReward Total reward pool (existing + new slashes)
+ * @param totalPoolReward Reward pot to distribute (new rewards after fees + carried pot)
+ * @param allocation How proportional shares are rounded
+ * @param weightOf Reward weight of a winner (default: stake)
  * @returns Array of rewards distributed to winners
+ * @throws {Error} If the rewards do not reconcile with the distributed amount
  */
-export function calculateRewards(
-  users: Array<{ address: string; stake_amount: string; snooze_count?: number }>,
-  totalPoolReward: bigint
+export function calculateRewards<
+  TUser extends { address: string; uuid: string; stake_amount: string; snooze_count?: number },
+>(
+  users: TUser[],
+  totalPoolReward: bigint,
+  allocation: RewardAllocationMode,
+  weightOf: (user: TUser) => bigint = (user) => BigInt(user.stake_amount)
 ): RewardData[] {
   // Filter winners (no snoozes/slashes)
   const winners = users.filter((u) => (u.snooze_count ?? 0) === 0);
@@ -91,46 +109,244 @@ export function calculateRewards(
     return [];
   }
 
-  // Calculate total winner stake
-  const totalWinnerStake = winners.reduce(
-    (sum, w) => sum + BigInt(w.stake_amount),
-    0n
-  );
+  // Calculate total winner weight
+  const weights = winners.map(weightOf);
+  const totalWinnerWeight = weights.reduce((sum, weight) => sum + weight, 0n);
 
-  if (totalWinnerStake === 0n) {
-    log.warn('Total winner stake is zero');
+  if (totalWinnerWeight === 0n) {
+    log.warn('Total winner weight is zero');
     return [];
   }
 
-  // Deduct protocol fee (10%)
-  const protocolFee = (totalPoolReward * PROTOCOL_FEE_PERCENT) / PERCENT_BASE;
-  const rewardsForWinners = totalPoolReward - protocolFee;
-
   log.info(
     {
       winners: winners.length,
       totalPoolReward: totalPoolReward.toString(),
-      protocolFee: protocolFee.toString(),
-      rewardsForWinners: rewardsForWinners.toString(),
     },
     'Calculating rewards distribution'
   );
 
-  // Distribute rewards proportionally by stake
-  const rewards: RewardData[] = winners.map((winner) => {
-    const winnerStake = BigInt(winner.stake_amount);
-    const proportionalReward =
-      (rewardsForWinners * winnerStake) / totalWinnerStake;
+  // Distribute rewards proportionally by weight
+  const amounts = allocateProportionally(totalPoolReward, weights, allocation);
+  assertRewardsReconcile(amounts, totalPoolReward, allocation);
 
-    return {
-      address: winner.address,
-      reward_amount: proportionalReward.toString(),
-    };
-  });
+  const rewards: RewardData[] = winners.map((winner, index) => ({
+    address: winner.address,
+    uuid: winner.uuid,
+    reward_amount: amounts[index]!.toString(),
+    weight: weights[index]!.toString(),
+  }));
 
   return rewards;
 }
 
+/**
+ * Refund a reward pot to the users who were slashed, pro rata to the
+ * stake each one lost (rollover policy 'refund')
+ *
+ * @returns One entry per slashed user (empty if nobody lost stake)
+ * @throws {Error} If the refunds do not reconcile with the pot
+ */
+export function calculateRefunds(
+  users: Array<{ address: string; uuid: string; stake_amount: string; snooze_count?: number }>,
+  refundPot: bigint,
+  schedule: SlashSchedule,
+  allocation: RewardAllocationMode
+): RewardData[] {
+  const slashed = users
+    .map((user) => {
+      const stakeAmount = BigInt(user.stake_amount);
+      const returnAmount = calculateStakeReturn(stakeAmount, user.snooze_count ?? 0, schedule);
+      return { address: user.address, uuid: user.uuid, lost: stakeAmount - returnAmount };
+    })
+    .filter((user) => user.lost > 0n);
+
+  if (slashed.length === 0 || refundPot === 0n) {
+    log.info('No slashed users or empty refund pot');
+    return [];
+  }
+
+  const amounts = allocateProportionally(
+    refundPot,
+    slashed.map((user) => user.lost),
+    allocation
+  );
+  assertRewardsReconcile(amounts, refundPot, allocation);
+
+  log.info(
+    { slashedUsers: slashed.length, refundPot: refundPot.toString() },
+    'Refunding reward pot to slashed users'
+  );
+
+  return slashed.map((user, index) => ({
+    address: user.address,
+    uuid: user.uuid,
+    reward_amount: amounts[index]!.toString(),
+    weight: user.lost.toString(),
+  }));
+}
+
+/**
+ * Split an amount proportionally to weights
+ *
+ * floor rounds every share down. largest-remainder then hands the
+ * leftover units out one each to the shares with the largest rounding
+ * remainders (ties go to the earlier entry), so the shares add up to the
+ * amount exactly. Both are deterministic for the same input order.
+ */
+export function allocateProportionally(
+  amount: bigint,
+  weights: bigint[],
+  mode: RewardAllocationMode
+): bigint[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+  if (totalWeight === 0n) {
+    return weights.map(() => 0n);
+  }
+
+  const shares = weights.map((weight) => (amount * weight) / totalWeight);
+  if (mode === 'floor') {
+    return shares;
+  }
+
+  let leftover = amount - shares.reduce((sum, share) => sum + share, 0n);
+  const byRemainder = weights
+    .map((weight, index) => ({ index, remainder: (amount * weight) % totalWeight }))
+    .sort((a, b) =>
+      a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1
+    );
+
+  // Leftover is below the number of shares, so one unit each is enough
+  for (const { index } of byRemainder) {
+    if (leftover === 0n) {
+      break;
+    }
+    shares[index]! += 1n;
+    leftover -= 1n;
+  }
+
+  return shares;
+}
+
+/**
+ * Split an amount proportionally to weights with at most capBps of it per owner
+ *
+ * Owners whose share would exceed the cap get the cap, and the excess is
+ * shared by the other owners' weights (repeated until nobody exceeds it).
+ * A cap that cannot cover the amount (owners × cap < amount) is raised to
+ * an equal share. A capped owner's entries split the cap by weight.
+ * Rounding is as in allocateProportionally, so with largest-remainder an
+ * uncapped owner can end up a few units above the cap.
+ */
+export function allocateWithOwnerCap(
+  amount: bigint,
+  owners: string[],
+  weights: bigint[],
+  capBps: number,
+  mode: RewardAllocationMode
+): bigint[] {
+  const ownerWeights = new Map<string, bigint>();
+  owners.forEach((owner, index) => {
+    ownerWeights.set(owner, (ownerWeights.get(owner) ?? 0n) + weights[index]!);
+  });
+
+  const ownerCount = BigInt(ownerWeights.size);
+  let cap = (amount * BigInt(capBps)) / BPS_BASE;
+  if (cap * ownerCount < amount) {
+    const equalShare = (amount + ownerCount - 1n) / ownerCount;
+    log.warn(
+      { capBps, owners: ownerWeights.size, cap: cap.toString(), equalShare: equalShare.toString() },
+      'Per-user reward cap cannot cover the reward pool, raised to an equal share'
+    );
+    cap = equalShare;
+  }
+
+  // Cap every owner whose share of what the cap leaves over exceeds it
+  const capped = new Set<string>();
+  for (;;) {
+    const remaining = amount - cap * BigInt(capped.size);
+    let uncappedWeight = 0n;
+    for (const [owner, weight] of ownerWeights) {
+      if (!capped.has(owner)) {
+        uncappedWeight += weight;
+      }
+    }
+
+    const over = [...ownerWeights].filter(
+      ([owner, weight]) => !capped.has(owner) && remaining * weight > cap * uncappedWeight
+    );
+    if (over.length === 0) {
+      break;
+    }
+    over.forEach(([owner]) => capped.add(owner));
+  }
+
+  const shares = weights.map(() => 0n);
+  const assign = (indices: number[], total: bigint): void => {
+    const split = allocateProportionally(
+      total,
+      indices.map((index) => weights[index]!),
+      mode
+    );
+    indices.forEach((index, position) => {
+      shares[index] = split[position]!;
+    });
+  };
+
+  const indicesOf = (predicate: (owner: string) => boolean): number[] =>
+    owners.flatMap((owner, index) => (predicate(owner) ? [index] : []));
+
+  assign(
+    indicesOf((owner) => !capped.has(owner)),
+    amount - cap * BigInt(capped.size)
+  );
+  for (const owner of capped) {
+    assign(
+      indicesOf((candidate) => candidate === owner),
+      cap
+    );
+  }
+
+  if (capped.size > 0) {
+    log.info(
+      { cappedUsers: capped.size, cap: cap.toString(), capBps },
+      'Per-user reward cap applied, excess redistributed'
+    );
+  }
+
+  return shares;
+}
+
+/**
+ * Check that allocated rewards reconcile with the distributed amount
+ *
+ * largest-remainder must match to the unit; floor may leave less than
+ * one unit per winner unallocated.
+ *
+ * @throws {Error} If the totals do not reconcile
+ */
+export function assertRewardsReconcile(
+  amounts: bigint[],
+  distributed: bigint,
+  mode: RewardAllocationMode
+): void {
+  const allocated = amounts.reduce((sum, amount) => sum + amount, 0n);
+  const dust = distributed - allocated;
+  const reconciles =
+    mode === 'largest-remainder' ? dust === 0n : dust >= 0n && dust < BigInt(amounts.length);
+
+  if (!reconciles) {
+    throw new Error(
+      `Reward allocation (${mode}) does not reconcile: allocated ${allocated} of ${distributed}`
+    );
+  }
+
+  log.debug(
+    { allocation: mode, allocated: allocated.toString(), dust: dust.toString() },
+    'Reward allocation reconciled'
+  );
+}
+
 /**
  * Create a merkle leaf hash for a user and their reward
  * Uses Poseidon hashing for Starknet/Cairo compatibility
@@ -158,89 +374,115 @@ export function createMerkleLeaf(
 }
 
 /**
- * Build merkle tree with proofs for all addresses
+ * Build merkle tree with proofs for all leaves
  * Uses Poseidon hashing and sorted pairs (OpenZeppelin standard)
  * 
  * IMPORTANT: Cannot use generic merkle libraries as they use SHA-256,
  * but Starknet requires Poseidon hashing
+ *
+ * Leaves are keyed by any string the pool type looks proofs up by
+ * (address for alarms, "address_sessionid" for focus locks). A node
+ * without a right sibling is paired with itself.
  * 
- * @param leaves Array of {address, hash} objects
- * @returns Merkle tree with root and proofs for all addresses
+ * @param leaves Array of {key, hash} objects (hash = precomputed leaf hash)
+ * @returns Merkle tree with root, proofs keyed by leaf key and all layers
+ * @throws {Error} If two leaves share a key
  */
-export function buildMerkleTree(
-  leaves: Array<{ address: string; hash: string }>
-): MerkleTree {
+export function buildMerkleTree(leaves: MerkleLeaf[]): MerkleTree {
   if (leaves.length === 0) {
     // Generate a valid non-zero merkle root for empty reward case
     const noRewardsHash = hash.computePoseidonHashOnElements([
       BigInt('0x6e6f5f726577617264734040'), // "no_rewards@@"
     ]);
     log.info('Built empty merkle tree');
-    return { root: toHexString(noRewardsHash), proofs: {} };
+    return { root: toHexString(noRewardsHash), proofs: {}, layers: [] };
+  }
+
+  const keys = new Set<string>();
+  for (const leaf of leaves) {
+    if (keys.has(leaf.key)) {
+      throw new Error(`Duplicate merkle leaf key: ${leaf.key}`);
+    }
+    keys.add(leaf.key);
   }
 
   if (leaves.length === 1) {
     log.info('Built single-leaf merkle tree');
-    return { root: leaves[0]!.hash, proofs: { [leaves[0]!.address]: [] } };
+    return {
+      root: leaves[0]!.hash,
+      proofs: { [leaves[0]!.key]: [] },
+      layers: [[leaves[0]!.hash]],
+    };
   }
 
-  const proofs: Record<string, string[]> = {};
-  leaves.forEach((leaf) => (proofs[leaf.address] = []));
-
   // Build tree level by level
-  let currentLevel = leaves.map((l) => ({
-    addresses: [l.address],
-    hashBig: BigInt(l.hash),
-  }));
+  const layers: bigint[][] = [leaves.map((leaf) => BigInt(leaf.hash))];
 
-  while (currentLevel.length > 1) {
-    const nextLevel = [];
+  while (layers[layers.length - 1]!.length > 1) {
+    const currentLevel = layers[layers.length - 1]!;
+    const nextLevel: bigint[] = [];
 
     for (let i = 0; i < currentLevel.length; i += 2) {
       const left = currentLevel[i]!;
-      const right = i + 1 < currentLevel.length ? currentLevel[i + 1]! : left;
-
-      // Add sibling hash to proofs for ALL addresses in left node
-      for (const addr of left.addresses) {
-        proofs[addr]!.push(toHexString(right.hashBig));
-      }
-
-      // Add sibling hash to proofs for ALL addresses in right node (if different)
-      if (left !== right) {
-        for (const addr of right.addresses) {
-          proofs[addr]!.push(toHexString(left.hashBig));
-        }
-      }
+      const right = currentLevel[i + 1] ?? left;
 
       // Compute parent hash using sorted pairs (OpenZeppelin standard)
-      const [sortedA, sortedB] =
-        left.hashBig < right.hashBig
-          ? [left.hashBig, right.hashBig]
-          : [right.hashBig, left.hashBig];
-
-      const parentHashBig = hash.computePoseidonHashOnElements([
-        sortedA,
-        sortedB,
-      ]);
-
-      // Parent node contains addresses from both children
-      const parentAddresses = [
-        ...left.addresses,
-        ...(left !== right ? right.addresses : []),
-      ];
-      nextLevel.push({ addresses: parentAddresses, hashBig: BigInt(parentHashBig.toString()) });
+      const [sortedA, sortedB] = left < right ? [left, right] : [right, left];
+      nextLevel.push(BigInt(hash.computePoseidonHashOnElements([sortedA, sortedB])));
     }
 
-    currentLevel = nextLevel;
+    layers.push(nextLevel);
   }
 
-  const root = toHexString(currentLevel[0]!.hashBig);
+  // Proof = sibling at every level below the root (self when unpaired)
+  const proofs: Record<string, string[]> = {};
+  leaves.forEach((leaf, leafIndex) => {
+    let index = leafIndex;
+    proofs[leaf.key] = layers.slice(0, -1).map((layer) => {
+      const sibling = layer[index ^ 1] ?? layer[index]!;
+      index = Math.floor(index / 2);
+      return toHexString(sibling);
+    });
+  });
+
+  const root = toHexString(layers[layers.length - 1]![0]!);
   log.info(
-    { root, leafCount: leaves.length, proofCount: Object.keys(proofs).length },
+    { root, leafCount: leaves.length, depth: layers.length - 1 },
     'Built merkle tree'
   );
 
-  return { root, proofs };
+  return {
+    root,
+    proofs,
+    layers: layers.map((layer) => layer.map((node) => toHexString(node))),
+  };
+}
+
+/**
+ * Compute the root reached by hashing a leaf up a merkle proof
+ *
+ * Same sorted-pair Poseidon scheme as buildMerkleTree and the contract's
+ * merkle proof check.
+ */
+export function computeMerkleRootFromProof(leaf: string, proof: string[]): string {
+  let node = BigInt(leaf);
+
+  for (const sibling of proof) {
+    const siblingBig = BigInt(sibling);
+    const [sortedA, sortedB] = node < siblingBig ? [node, siblingBig] : [siblingBig, node];
+    node = BigInt(hash.computePoseidonHashOnElements([sortedA, sortedB]));
+  }
+
+  return toHexString(node);
+}
+
+/**
+ * Verify a merkle proof against a root
+ *
+ * @returns True if the proof leads from the leaf to the root
+ */
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  return BigInt(computeMerkleRootFromProof(leaf, proof)) === BigInt(root);
 }
 
 /**
@@ -339,35 +581,70 @@ export function calculateFocusUserWeight(
   return stakeAmount * duration;
 }
 
+/**
+ * Calculate the stake returned to a focus lock
+ *
+ * A failed/exited lock counts as one slash, a completed lock as none. With
+ * a partial return curve, a failed lock gets the larger of the scheduled
+ * return and its partial return for the time held.
+ */
+export function calculateFocusStakeReturn(
+  user: FocusLockUser,
+  schedule: SlashSchedule,
+  partialReturn: PartialReturnSchedule | null
+): bigint {
+  const stakeAmount = BigInt(user.stake_amount);
+  const slashCount = user.completion_status ? 0 : 1;
+  const scheduledReturn = calculateStakeReturn(stakeAmount, slashCount, schedule);
+  if (user.completion_status || !partialReturn) {
+    return scheduledReturn;
+  }
+
+  const partial = calculatePartialReturn(
+    stakeAmount,
+    user.locked_duration,
+    user.duration,
+    partialReturn
+  );
+  return partial > scheduledReturn ? partial : scheduledReturn;
+}
+
 /**
  * Calculate total slashed amount from all focus locks
  */
 export function calculateFocusTotalSlashed(
-  users: FocusLockUser[]
+  users: FocusLockUser[],
+  schedule: SlashSchedule,
+  partialReturn: PartialReturnSchedule | null
 ): bigint {
   let totalSlashed = 0n;
 
   for (const user of users) {
     const stakeAmount = BigInt(user.stake_amount);
-    if (!user.completion_status) {
-      // Failed/exited early - 100% slashed
-      totalSlashed += stakeAmount;
-    }
-    // Successful locks contribute 0 to slashed amount
+    totalSlashed += stakeAmount - calculateFocusStakeReturn(user, schedule, partialReturn);
   }
 
-  log.debug({ totalSlashed: totalSlashed.toString() }, 'Calculated focus total slashed');
+  log.debug(
+    {
+      totalSlashed: totalSlashed.toString(),
+      slashSchedule: schedule.version,
+      ...(partialReturn && { partialReturn: partialReturn.description }),
+    },
+    'Calculated focus total slashed'
+  );
   return totalSlashed;
 }
 
 /**
  * Calculate rewards for focus locks with weighted distribution
- * Rewards are distributed proportionally based on stake × duration per lock
- * Each lock gets its own reward based on its individual weight
+ * Rewards are distributed proportionally to each lock's weight under the
+ * weighting strategy, with at most the per-user cap (if set) per address
  */
 export function calculateFocusRewards(
   users: FocusLockUser[],
-  totalPoolReward: bigint
+  totalPoolReward: bigint,
+  allocation: RewardAllocationMode,
+  weighting: FocusWeighting
 ): FocusLockReward[] {
   // Filter winners (completed successfully)
   const winners = users.filter((u) => u.completion_status === true);
@@ -381,7 +658,7 @@ export function calculateFocusRewards(
   const winnersWithWeights = winners.map((winner) => {
     const stakeAmount = BigInt(winner.stake_amount);
     const duration = BigInt(winner.duration);
-    const weight = calculateFocusUserWeight(stakeAmount, duration);
+    const weight = calculateFocusWeight(stakeAmount, duration, weighting);
 
     return {
       ...winner,
@@ -399,29 +676,36 @@ export function calculateFocusRewards(
     return [];
   }
 
-  // Deduct protocol fee (10%)
-  const protocolFee = (totalPoolReward * PROTOCOL_FEE_PERCENT) / PERCENT_BASE;
-  const rewardsForWinners = totalPoolReward - protocolFee;
-
   log.info(
     {
       winners: winners.length,
       totalPoolReward: totalPoolReward.toString(),
-      protocolFee: protocolFee.toString(),
-      rewardsForWinners: rewardsForWinners.toString(),
       totalWinnerWeight: totalWinnerWeight.toString(),
+      weighting: weighting.strategy,
+      maxUserRewardBps: weighting.max_user_reward_bps,
     },
-    'Calculating focus lock rewards (weighted by stake × duration)'
+    'Calculating focus lock rewards'
   );
 
   // Each lock gets its own reward based on individual weight
-  const rewards: FocusLockReward[] = winnersWithWeights.map((winner) => {
-    const proportionalReward = (rewardsForWinners * winner.weight) / totalWinnerWeight;
-
+  const weights = winnersWithWeights.map((winner) => winner.weight);
+  const amounts =
+    weighting.max_user_reward_bps === null
+      ? allocateProportionally(totalPoolReward, weights, allocation)
+      : allocateWithOwnerCap(
+          totalPoolReward,
+          winnersWithWeights.map((winner) => winner.address),
+          weights,
+          weighting.max_user_reward_bps,
+          allocation
+        );
+  assertRewardsReconcile(amounts, totalPoolReward, allocation);
+
+  const rewards: FocusLockReward[] = winnersWithWeights.map((winner, index) => {
     return {
       address: winner.address,
       session_id: winner.session_id,
-      reward_amount: proportionalReward.toString(),
+      reward_amount: amounts[index]!.toString(),
       weight: winner.weight.toString(),
       stake_amount: winner.stake_amount,
       duration: winner.duration.toString(),
@@ -431,6 +715,54 @@ export function calculateFocusRewards(
   return rewards;
 }
 
+/**
+ * Refund a reward pot to failed focus locks, pro rata to the stake each
+ * lock lost (rollover policy 'refund')
+ *
+ * @returns One entry per slashed lock (empty if no lock lost stake)
+ * @throws {Error} If the refunds do not reconcile with the pot
+ */
+export function calculateFocusRefunds(
+  users: FocusLockUser[],
+  refundPot: bigint,
+  schedule: SlashSchedule,
+  partialReturn: PartialReturnSchedule | null,
+  allocation: RewardAllocationMode
+): FocusLockReward[] {
+  const slashed = users
+    .map((user) => ({
+      user,
+      lost: BigInt(user.stake_amount) - calculateFocusStakeReturn(user, schedule, partialReturn),
+    }))
+    .filter((lock) => lock.lost > 0n);
+
+  if (slashed.length === 0 || refundPot === 0n) {
+    log.info('No slashed focus locks or empty refund pot');
+    return [];
+  }
+
+  const amounts = allocateProportionally(
+    refundPot,
+    slashed.map((lock) => lock.lost),
+    allocation
+  );
+  assertRewardsReconcile(amounts, refundPot, allocation);
+
+  log.info(
+    { slashedLocks: slashed.length, refundPot: refundPot.toString() },
+    'Refunding reward pot to failed focus locks'
+  );
+
+  return slashed.map(({ user }, index) => ({
+    address: user.address,
+    session_id: user.session_id,
+    reward_amount: amounts[index]!.toString(),
+    weight: calculateFocusUserWeight(BigInt(user.stake_amount), BigInt(user.duration)).toString(),
+    stake_amount: user.stake_amount,
+    duration: user.duration.toString(),
+  }));
+}
+
 /**
  * Create a merkle leaf hash for a focus lock with session_id
  *
@@ -458,109 +790,3 @@ export function createFocusMerkleLeaf(
 
   return toHexString(leafHash);
 }
-
-/**
- * Build focus lock merkle tree with proofs for all locks
- * Uses Poseidon hashing and sorted pairs (OpenZeppelin standard)
- *
- * Each leaf is keyed by "address_sessionid" for unique identification
- *
- * @param leaves Array of {address, session_id, hash} objects
- * @returns Merkle tree with root and proofs keyed by "address_sessionid"
- */
-export function buildFocusMerkleTree(
-  leaves: Array<{ address: string; session_id: bigint; hash: string }>
-): MerkleTree {
-  if (leaves.length === 0) {
-    const noRewardsHash = hash.computePoseidonHashOnElements([
-      BigInt('0x6e6f5f726577617264734040'), // "no_rewards@@"
-    ]);
-    log.info('Built empty focus merkle tree');
-    return { root: toHexString(noRewardsHash), proofs: {} };
-  }
-
-  if (leaves.length === 1) {
-    const key = `${leaves[0]!.address}_${leaves[0]!.session_id}`;
-    log.info('Built single-leaf focus merkle tree');
-    return { root: leaves[0]!.hash, proofs: { [key]: [] } };
-  }
-
-  const proofs: Record<string, string[]> = {};
-  leaves.forEach((leaf) => {
-    const key = `${leaf.address}_${leaf.session_id}`;
-    proofs[key] = [];
-  });
-
-  // Track all descendant leaf keys for each node
-  let currentLevel = leaves.map((l) => {
-    const key = `${l.address}_${l.session_id}`;
-    return {
-      hashBig: BigInt(l.hash),
-      leafKeys: [key], // Track which leaves are descendants
-    };
-  });
-
-  while (currentLevel.length > 1) {
-    const nextLevel = [];
-
-    for (let i = 0; i < currentLevel.length; i += 2) {
-      const left = currentLevel[i]!;
-      const right = i + 1 < currentLevel.length ? currentLevel[i + 1]! : left;
-
-      // For all leaves in left's subtree, add right's hash to proof
-      for (const leafKey of left.leafKeys) {
-        proofs[leafKey]!.push(toHexString(right.hashBig));
-      }
-
-      // For all leaves in right's subtree, add left's hash to proof
-      if (left !== right) {
-        for (const leafKey of right.leafKeys) {
-          if (!left.leafKeys.includes(leafKey)) {
-            proofs[leafKey]!.push(toHexString(left.hashBig));
-          }
-        }
-      }
-
-      // Compute parent hash using sorted pairs (OpenZeppelin standard)
-      const [sortedA, sortedB] =
-        left.hashBig < right.hashBig
-          ? [left.hashBig, right.hashBig]
-          : [right.hashBig, left.hashBig];
-
-      const parentHashBig = hash.computePoseidonHashOnElements([
-        sortedA,
-        sortedB,
-      ]);
-
-      // Combine leaf keys from both children
-      const combinedLeafKeys = [...left.leafKeys];
-      if (left !== right) {
-        for (const key of right.leafKeys) {
-          if (!combinedLeafKeys.includes(key)) {
-            combinedLeafKeys.push(key);
-          }
-        }
-      }
-
-      nextLevel.push({
-        hashBig: BigInt(parentHashBig.toString()),
-        leafKeys: combinedLeafKeys,
-      });
-    }
-
-    currentLevel = nextLevel;
-  }
-
-  const root = toHexString(currentLevel[0]!.hashBig);
-  log.info(
-    {
-      root,
-      leafCount: leaves.length,
-      proofCount: Object.keys(proofs).length,
-    },
-    'Built focus lock merkle tree'
-  );
-
-  return { root, proofs };
-}
-
@@ -0,0 +1,70 @@
+/**
+ * Chain backend selection
+ *
+ * Backends:
+ * - rpc:  Starknet RPC node with the deployer account (default)
+ * - fake: in-process fake chain (offline runs, rehearsals)
+ *
+ * The fake chain's contracts (including token pool contracts) are
+ * deployed with the active verifier keys of the configured pool types.
+ *
+ * Selected with CHAIN_BACKEND. Scripts can inject a pre-configured
+ * client (e.g. a FakeChainClient with scripted failures) with
+ * setChainClient().
+ */
+
+import { ChainClient } from '../types/chain.js';
+import { getAlarmConfig, getCoreConfig, getFocusConfig, hasPaymasterConfig } from './config.js';
+import { getSigner } from './signer.js';
+import { RpcChainClient } from './rpc-chain-client.js';
+import { FakeChainClient } from './fake-chain-client.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('chain');
+
+let chainClient: ChainClient | null = null;
+
+/**
+ * Get the configured chain client (singleton)
+ */
+export function getChainClient(): ChainClient {
+  if (!chainClient) {
+    const { chainBackend } = getCoreConfig();
+    // The fake chain sponsors transactions when a paymaster key is configured
+    chainClient =
+      chainBackend === 'fake'
+        ? new FakeChainClient({ sponsored: hasPaymasterConfig(), verifiers: activeVerifiers })
+        : new RpcChainClient();
+
+    log.info({ backend: chainClient.name }, 'Chain backend selected');
+  }
+  return chainClient;
+}
+
+/**
+ * Active verifier public key of every configured contract (token pool
+ * contracts share their pool type's key)
+ */
+async function activeVerifiers(): Promise<Record<string, string>> {
+  const configs = [getAlarmConfig(), getFocusConfig()].filter((config) => config !== null);
+  const verifiers: Record<string, string> = {};
+
+  for (const config of configs) {
+    const publicKey = await getSigner(config.verifier.signer).getPublicKey();
+    for (const contractAddress of [
+      config.contract_address,
+      ...config.token_pools.map((pool) => pool.contract_address),
+    ]) {
+      verifiers[contractAddress] = publicKey;
+    }
+  }
+  return verifiers;
+}
+
+/**
+ * Replace the chain client
+ */
+export function setChainClient(client: ChainClient): void {
+  chainClient = client;
+  log.info({ backend: client.name }, 'Chain backend set');
+}
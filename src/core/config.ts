@@ -10,20 +10,53 @@ import dotenv from 'dotenv';
 import { constants } from 'starknet';
 import { AlarmPoolConfig } from '../types/alarm.js';
 import { FocusLockPoolConfig } from '../types/focus.js';
+import { VerifierKey } from '../types/common.js';
+import { SignerConfig } from '../types/signer.js';
+import { TokenConfig } from '../types/token.js';
+import { RetryPolicy } from './retry.js';
+import { getSlashSchedule } from './slash-schedule.js';
+import { DEFAULT_PROTOCOL_FEE_BPS, parseFeeSplit } from './fees.js';
+import { parseStreakMultipliers } from './streaks.js';
+import { parsePartialReturn } from './partial-return.js';
+import { getToken, parseTokenPools } from './tokens.js';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Signer of a key: env (the key's *_PRIVATE_KEY), keystore:<file> or remote:<key id>
+ */
+const signerSpec = z
+  .string()
+  .regex(/^(env|keystore:.+|remote:.+)$/, 'Signer must be env, keystore:<file> or remote:<key id>')
+  .optional()
+  .default('env');
+
+/**
+ * Verifier key id, recorded on every claim the key signs
+ */
+const verifierKeyId = z
+  .string()
+  .regex(/^[A-Za-z0-9._-]{1,64}$/, 'Verifier key id must be 1-64 letters, digits, ".", "_" or "-"');
+
 /**
  * Core blockchain configuration schema
  */
 const coreConfigSchema = z.object({
-  // Database
-  SUPABASE_URL: z.string().url('Invalid Supabase URL'),
-  SUPABASE_SERVICE_KEY: z.string().min(1, 'Supabase service key is required'),
+  // Storage
+  STORAGE_BACKEND: z
+    .enum(['supabase', 'memory', 'file'])
+    .optional()
+    .default('supabase'),
+  STORAGE_FILE: z.string().optional().default('./pool-data.json'),
+
+  // Database (required for the supabase storage backend)
+  SUPABASE_URL: z.string().url('Invalid Supabase URL').optional(),
+  SUPABASE_SERVICE_KEY: z.string().min(1, 'Supabase service key is required').optional(),
 
   // Blockchain
-  STARKNET_RPC_URL: z.string().url('Invalid Starknet RPC URL'),
+  CHAIN_BACKEND: z.enum(['rpc', 'fake']).optional().default('rpc'),
+  STARKNET_RPC_URL: z.string().url('Invalid Starknet RPC URL').optional(),
   STARKNET_CHAIN_ID: z
     .string()
     .optional()
@@ -43,15 +76,137 @@ const coreConfigSchema = z.object({
     .default('https://sepolia.paymaster.avnu.fi'),
   AVNU_PAYMASTER_API_KEY: z.string().optional(),
 
-  // Deployer account (for transactions)
+  // Fee cap for set_merkle_root_for_pool (smallest unit of the fee token, e.g. FRI)
+  MAX_TRANSACTION_FEE: z
+    .string()
+    .regex(/^\d+$/, 'Max transaction fee must be an integer amount')
+    .optional()
+    .transform((val) => (val ? BigInt(val) : undefined)),
+
+  // Retry policy for blockchain calls (exponential backoff)
+  RPC_RETRY_ATTEMPTS: z.coerce.number().int().min(1).optional().default(4),
+  RPC_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).optional().default(1000),
+  RPC_RETRY_MAX_DELAY_MS: z.coerce.number().int().min(0).optional().default(15000),
+
+  // Deployer account (for transactions, required for the rpc chain backend)
   DEPLOYER_ADDRESS: z
     .string()
-    .regex(/^0x[0-9a-fA-F]+$/, 'Invalid deployer address format'),
+    .regex(/^0x[0-9a-fA-F]+$/, 'Invalid deployer address format')
+    .optional(),
   DEPLOYER_PRIVATE_KEY: z
     .string()
-    .regex(/^0x[0-9a-fA-F]+$/, 'Invalid private key format'),
+    .regex(/^0x[0-9a-fA-F]+$/, 'Invalid private key format')
+    .optional(),
+  DEPLOYER_SIGNER: signerSpec,
+
+  // Signer backends (keystore files and remote signing service)
+  KEYSTORE_PASSPHRASE: z.string().min(1).optional(),
+  REMOTE_SIGNER_URL: z
+    .string()
+    .url('Invalid remote signer URL')
+    .optional()
+    .default('http://127.0.0.1:8787'),
+  REMOTE_SIGNER_TOKEN: z.string().optional(),
 });
 
+/**
+ * SNIP-12 domain name / version (Cairo short string)
+ */
+const snip12ShortString = z
+  .string()
+  .min(1)
+  .max(31, 'SNIP-12 domain name and version must fit in a short string (31 chars)')
+  .optional();
+
+/**
+ * SNIP-12 revision (0 = Pedersen, 1 = Poseidon)
+ */
+const snip12Revision = z
+  .enum(['0', '1'])
+  .optional()
+  .default('1')
+  .transform((val) => (val === '1' ? 1 : 0) as 0 | 1);
+
+/**
+ * Slash schedule: built-in version or inline <version>:<return % per slash count>
+ */
+const slashScheduleSpec = (defaultVersion: string) =>
+  z
+    .string()
+    .optional()
+    .default(defaultVersion)
+    .superRefine((spec, ctx) => {
+      try {
+        getSlashSchedule(spec);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      }
+    });
+
+/**
+ * Protocol fee rate in basis points (1000 = 10%)
+ */
+const protocolFeeBps = z.coerce
+  .number()
+  .int('Protocol fee must be a whole number of basis points')
+  .min(0)
+  .max(10_000, 'Protocol fee cannot exceed 10000 bps (100%)')
+  .optional()
+  .default(DEFAULT_PROTOCOL_FEE_BPS);
+
+/**
+ * Protocol fee split: <name>:<share bps>,... (shares add up to 10000)
+ */
+const feeSplitSpec = z
+  .string()
+  .optional()
+  .superRefine((spec, ctx) => {
+    try {
+      parseFeeSplit(spec);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  });
+
+/**
+ * Stake token: built-in symbol or <symbol>:<decimals>
+ */
+const tokenSpec = z
+  .string()
+  .optional()
+  .default('USDC')
+  .superRefine((spec, ctx) => {
+    try {
+      getToken(spec);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  });
+
+/**
+ * Stake token contract address (optional, recorded with results)
+ */
+const tokenAddress = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]+$/, 'Invalid token contract address')
+  .optional();
+
+/**
+ * Further stake tokens: comma separated <token spec>=<pool contract>
+ */
+const tokenPoolsSpec = z.string().optional();
+
+/**
+ * Reward rounding: floor (default, keeps existing pools reproducible) or
+ * largest-remainder (rewards add up to the reward pool exactly)
+ */
+const rewardAllocation = z.enum(['floor', 'largest-remainder']).optional().default('floor');
+
+/**
+ * Where the reward pot of a pool without winners goes
+ */
+const rolloverPolicy = z.enum(['carry', 'refund', 'treasury']).optional().default('carry');
+
 /**
  * Alarm contract configuration schema
  */
@@ -61,7 +216,49 @@ const alarmConfigSchema = z.object({
     .regex(/^0x[0-9a-fA-F]+$/, 'Invalid alarm contract address'),
   ALARM_VERIFIER_PRIVATE_KEY: z
     .string()
-    .regex(/^0x[0-9a-fA-F]+$/, 'Invalid alarm verifier private key'),
+    .regex(/^0x[0-9a-fA-F]+$/, 'Invalid alarm verifier private key')
+    .optional(),
+  ALARM_VERIFIER_SIGNER: signerSpec,
+  ALARM_VERIFIER_KEY_ID: verifierKeyId.optional().default('default'),
+
+  // Previous alarm verifier key while the contract is rotated to the active one
+  ALARM_VERIFIER_RETIRING_PRIVATE_KEY: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]+$/, 'Invalid alarm retiring verifier private key')
+    .optional(),
+  ALARM_VERIFIER_RETIRING_SIGNER: signerSpec,
+  ALARM_VERIFIER_RETIRING_KEY_ID: verifierKeyId.optional(),
+
+  // SNIP-12 domain of the alarm contract
+  ALARM_SNIP12_NAME: snip12ShortString.default('EverydayApp'),
+  ALARM_SNIP12_VERSION: snip12ShortString.default('1'),
+  ALARM_SNIP12_REVISION: snip12Revision,
+
+  // Stake token of the alarm contract deployment
+  ALARM_TOKEN: tokenSpec,
+  ALARM_TOKEN_ADDRESS: tokenAddress,
+  ALARM_TOKEN_POOLS: tokenPoolsSpec,
+
+  // Stake return rules of the alarm contract deployment
+  ALARM_SLASH_SCHEDULE: slashScheduleSpec('alarm-v1'),
+
+  // Protocol fee of the alarm contract deployment
+  ALARM_PROTOCOL_FEE_BPS: protocolFeeBps,
+  ALARM_FEE_SPLIT: feeSplitSpec,
+  ALARM_REWARD_ALLOCATION: rewardAllocation,
+  ALARM_ROLLOVER_POLICY: rolloverPolicy,
+
+  // Streak multiplier curve: <min streak>:<multiplier bps>,... (unset = stake only)
+  ALARM_STREAK_MULTIPLIERS: z
+    .string()
+    .optional()
+    .superRefine((spec, ctx) => {
+      try {
+        parseStreakMultipliers(spec);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      }
+    }),
 });
 
 /**
@@ -76,6 +273,61 @@ const focusConfigSchema = z.object({
     .string()
     .regex(/^0x[0-9a-fA-F]+$/, 'Invalid focus verifier private key')
     .optional(),
+  FOCUS_VERIFIER_SIGNER: signerSpec,
+  FOCUS_VERIFIER_KEY_ID: verifierKeyId.optional().default('default'),
+
+  // Previous focus verifier key while the contract is rotated to the active one
+  FOCUS_VERIFIER_RETIRING_PRIVATE_KEY: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]+$/, 'Invalid focus retiring verifier private key')
+    .optional(),
+  FOCUS_VERIFIER_RETIRING_SIGNER: signerSpec,
+  FOCUS_VERIFIER_RETIRING_KEY_ID: verifierKeyId.optional(),
+
+  // SNIP-12 domain of the focus contract
+  FOCUS_SNIP12_NAME: snip12ShortString.default('EverydayApp'),
+  FOCUS_SNIP12_VERSION: snip12ShortString.default('1'),
+  FOCUS_SNIP12_REVISION: snip12Revision,
+
+  // Stake token of the focus contract deployment
+  FOCUS_TOKEN: tokenSpec,
+  FOCUS_TOKEN_ADDRESS: tokenAddress,
+  FOCUS_TOKEN_POOLS: tokenPoolsSpec,
+
+  // Stake return rules of the focus contract deployment
+  FOCUS_SLASH_SCHEDULE: slashScheduleSpec('focus-v1'),
+
+  // ClaimRequest of the focus contract: v1 (completion_status only) or
+  // v2 (adds locked_duration, required for partial returns)
+  FOCUS_CLAIM_REQUEST: z.enum(['v1', 'v2']).optional().default('v1'),
+
+  // Partial return of failed locks: linear or <min held %>:<return %>,... (v2 only)
+  FOCUS_PARTIAL_RETURN: z
+    .string()
+    .optional()
+    .superRefine((spec, ctx) => {
+      try {
+        if (spec) {
+          parsePartialReturn(spec);
+        }
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      }
+    }),
+
+  // Protocol fee of the focus contract deployment
+  FOCUS_PROTOCOL_FEE_BPS: protocolFeeBps,
+  FOCUS_FEE_SPLIT: feeSplitSpec,
+  FOCUS_REWARD_ALLOCATION: rewardAllocation,
+  FOCUS_ROLLOVER_POLICY: rolloverPolicy,
+
+  // Lock weighting strategy and optional per-user reward cap
+  FOCUS_WEIGHTING: z
+    .enum(['linear', 'sqrt-stake', 'capped-duration', 'log-stake'])
+    .optional()
+    .default('linear'),
+  FOCUS_WEIGHTING_DURATION_CAP_MINUTES: z.coerce.number().int().min(1).optional().default(120),
+  FOCUS_MAX_USER_REWARD_BPS: z.coerce.number().int().min(1).max(10_000).optional(),
 });
 
 /**
@@ -83,7 +335,118 @@ const focusConfigSchema = z.object({
  */
 const configSchema = coreConfigSchema
   .merge(alarmConfigSchema)
-  .merge(focusConfigSchema);
+  .merge(focusConfigSchema)
+  .superRefine((cfg, ctx) => {
+    const requireFor = (
+      key: keyof typeof cfg,
+      label: string,
+      backend: string
+    ): void => {
+      if (!cfg[key]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${label} is required for the ${backend}`,
+        });
+      }
+    };
+
+    const requireSigner = (
+      signerKey: `${'ALARM_VERIFIER' | 'FOCUS_VERIFIER' | 'ALARM_VERIFIER_RETIRING' | 'FOCUS_VERIFIER_RETIRING' | 'DEPLOYER'}_SIGNER`,
+      privateKeyKey: `${'ALARM_VERIFIER' | 'FOCUS_VERIFIER' | 'ALARM_VERIFIER_RETIRING' | 'FOCUS_VERIFIER_RETIRING' | 'DEPLOYER'}_PRIVATE_KEY`,
+      label: string
+    ): void => {
+      const spec = cfg[signerKey];
+      if (spec === 'env') {
+        requireFor(privateKeyKey, `${label} private key`, 'env signer');
+      } else if (spec.startsWith('keystore:')) {
+        requireFor('KEYSTORE_PASSPHRASE', 'Keystore passphrase', 'keystore signer');
+      }
+    };
+
+    requireSigner('ALARM_VERIFIER_SIGNER', 'ALARM_VERIFIER_PRIVATE_KEY', 'Alarm verifier');
+
+    // Focus locks stay disabled while neither a key nor another signer is set
+    if (cfg.FOCUS_CONTRACT_ADDRESS && cfg.FOCUS_VERIFIER_SIGNER !== 'env') {
+      requireSigner('FOCUS_VERIFIER_SIGNER', 'FOCUS_VERIFIER_PRIVATE_KEY', 'Focus verifier');
+    }
+
+    // Retiring keys are optional: only checked once configured
+    for (const prefix of ['ALARM', 'FOCUS'] as const) {
+      const retiringKeySet =
+        cfg[`${prefix}_VERIFIER_RETIRING_SIGNER`] !== 'env' ||
+        !!cfg[`${prefix}_VERIFIER_RETIRING_PRIVATE_KEY`];
+      if (!retiringKeySet) {
+        continue;
+      }
+
+      const label = `${prefix === 'ALARM' ? 'Alarm' : 'Focus'} retiring verifier`;
+      requireSigner(
+        `${prefix}_VERIFIER_RETIRING_SIGNER`,
+        `${prefix}_VERIFIER_RETIRING_PRIVATE_KEY`,
+        label
+      );
+      requireFor(`${prefix}_VERIFIER_RETIRING_KEY_ID`, `${label} key id`, 'retiring verifier key');
+
+      if (cfg[`${prefix}_VERIFIER_RETIRING_KEY_ID`] === cfg[`${prefix}_VERIFIER_KEY_ID`]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [`${prefix}_VERIFIER_RETIRING_KEY_ID`],
+          message: `${label} key id must differ from ${prefix}_VERIFIER_KEY_ID`,
+        });
+      }
+    }
+
+    // Further tokens need their own contract and must differ from the default token
+    for (const prefix of ['ALARM', 'FOCUS'] as const) {
+      const spec = cfg[`${prefix}_TOKEN_POOLS`];
+      if (!spec) {
+        continue;
+      }
+
+      let defaultToken: TokenConfig;
+      try {
+        defaultToken = getToken(cfg[`${prefix}_TOKEN`]);
+      } catch {
+        continue; // Reported on the token itself
+      }
+
+      try {
+        parseTokenPools(spec, defaultToken);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [`${prefix}_TOKEN_POOLS`],
+          message: (error as Error).message,
+        });
+      }
+    }
+
+    // The v1 ClaimRequest cannot carry a partial return, and a v2 contract
+    // returns stake by a curve the processor must mirror
+    if (cfg.FOCUS_PARTIAL_RETURN && cfg.FOCUS_CLAIM_REQUEST !== 'v2') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['FOCUS_PARTIAL_RETURN'],
+        message:
+          'Partial returns need the v2 ClaimRequest on the focus contract (FOCUS_CLAIM_REQUEST=v2)',
+      });
+    }
+    if (cfg.FOCUS_CLAIM_REQUEST === 'v2') {
+      requireFor('FOCUS_PARTIAL_RETURN', 'Focus partial return curve', 'v2 ClaimRequest');
+    }
+
+    if (cfg.STORAGE_BACKEND === 'supabase') {
+      requireFor('SUPABASE_URL', 'Supabase URL', 'supabase storage backend');
+      requireFor('SUPABASE_SERVICE_KEY', 'Supabase service key', 'supabase storage backend');
+    }
+
+    if (cfg.CHAIN_BACKEND === 'rpc') {
+      requireFor('STARKNET_RPC_URL', 'Starknet RPC URL', 'rpc chain backend');
+      requireFor('DEPLOYER_ADDRESS', 'Deployer address', 'rpc chain backend');
+      requireSigner('DEPLOYER_SIGNER', 'DEPLOYER_PRIVATE_KEY', 'Deployer');
+    }
+  });
 
 /**
  * Parsed and validated configuration
@@ -122,25 +485,107 @@ export function loadConfig(): Config {
  */
 export function getAlarmConfig(): AlarmPoolConfig {
   const cfg = loadConfig();
+  const verifier = toVerifierKey(
+    cfg,
+    cfg.ALARM_VERIFIER_KEY_ID,
+    cfg.ALARM_VERIFIER_SIGNER,
+    cfg.ALARM_VERIFIER_PRIVATE_KEY
+  );
+  if (!verifier) {
+    throw new Error('Alarm verifier signer not configured');
+  }
+
+  const retiringVerifier = toVerifierKey(
+    cfg,
+    cfg.ALARM_VERIFIER_RETIRING_KEY_ID,
+    cfg.ALARM_VERIFIER_RETIRING_SIGNER,
+    cfg.ALARM_VERIFIER_RETIRING_PRIVATE_KEY
+  );
+  const token = getToken(cfg.ALARM_TOKEN, cfg.ALARM_TOKEN_ADDRESS);
+
   return {
     contract_address: cfg.ALARM_CONTRACT_ADDRESS,
-    verifier_private_key: cfg.ALARM_VERIFIER_PRIVATE_KEY,
+    verifier,
+    ...(retiringVerifier && { retiring_verifier: retiringVerifier }),
+    domain: {
+      name: cfg.ALARM_SNIP12_NAME,
+      version: cfg.ALARM_SNIP12_VERSION,
+      revision: cfg.ALARM_SNIP12_REVISION,
+    },
+    slash_schedule: getSlashSchedule(cfg.ALARM_SLASH_SCHEDULE),
+    protocol_fee: {
+      fee_bps: cfg.ALARM_PROTOCOL_FEE_BPS,
+      recipients: parseFeeSplit(cfg.ALARM_FEE_SPLIT),
+    },
+    reward_allocation: cfg.ALARM_REWARD_ALLOCATION,
+    rollover_policy: cfg.ALARM_ROLLOVER_POLICY,
+    token,
+    token_pools: cfg.ALARM_TOKEN_POOLS ? parseTokenPools(cfg.ALARM_TOKEN_POOLS, token) : [],
+    streak_multipliers: parseStreakMultipliers(cfg.ALARM_STREAK_MULTIPLIERS),
   };
 }
 
+/**
+ * Default stake token of focus locks (set even while focus locks are not configured)
+ */
+export function getFocusToken(): TokenConfig {
+  const cfg = loadConfig();
+  return getToken(cfg.FOCUS_TOKEN, cfg.FOCUS_TOKEN_ADDRESS);
+}
+
 /**
  * Get focus lock-specific configuration (if available)
  */
 export function getFocusConfig(): FocusLockPoolConfig | null {
   const cfg = loadConfig();
-  
-  if (!cfg.FOCUS_CONTRACT_ADDRESS || !cfg.FOCUS_VERIFIER_PRIVATE_KEY) {
+  const verifier = toVerifierKey(
+    cfg,
+    cfg.FOCUS_VERIFIER_KEY_ID,
+    cfg.FOCUS_VERIFIER_SIGNER,
+    cfg.FOCUS_VERIFIER_PRIVATE_KEY
+  );
+
+  if (!cfg.FOCUS_CONTRACT_ADDRESS || !verifier) {
     return null;
   }
 
+  const retiringVerifier = toVerifierKey(
+    cfg,
+    cfg.FOCUS_VERIFIER_RETIRING_KEY_ID,
+    cfg.FOCUS_VERIFIER_RETIRING_SIGNER,
+    cfg.FOCUS_VERIFIER_RETIRING_PRIVATE_KEY
+  );
+  const token = getFocusToken();
+
   return {
     contract_address: cfg.FOCUS_CONTRACT_ADDRESS,
-    verifier_private_key: cfg.FOCUS_VERIFIER_PRIVATE_KEY,
+    verifier,
+    ...(retiringVerifier && { retiring_verifier: retiringVerifier }),
+    domain: {
+      name: cfg.FOCUS_SNIP12_NAME,
+      version: cfg.FOCUS_SNIP12_VERSION,
+      revision: cfg.FOCUS_SNIP12_REVISION,
+    },
+    slash_schedule: getSlashSchedule(cfg.FOCUS_SLASH_SCHEDULE),
+    partial_return:
+      cfg.FOCUS_CLAIM_REQUEST === 'v2' && cfg.FOCUS_PARTIAL_RETURN
+        ? parsePartialReturn(cfg.FOCUS_PARTIAL_RETURN)
+        : null,
+    protocol_fee: {
+      fee_bps: cfg.FOCUS_PROTOCOL_FEE_BPS,
+      recipients: parseFeeSplit(cfg.FOCUS_FEE_SPLIT),
+    },
+    reward_allocation: cfg.FOCUS_REWARD_ALLOCATION,
+    rollover_policy: cfg.FOCUS_ROLLOVER_POLICY,
+    token,
+    token_pools: cfg.FOCUS_TOKEN_POOLS ? parseTokenPools(cfg.FOCUS_TOKEN_POOLS, token) : [],
+    weighting: {
+      strategy: cfg.FOCUS_WEIGHTING,
+      ...(cfg.FOCUS_WEIGHTING === 'capped-duration' && {
+        duration_cap: cfg.FOCUS_WEIGHTING_DURATION_CAP_MINUTES * 60,
+      }),
+      max_user_reward_bps: cfg.FOCUS_MAX_USER_REWARD_BPS ?? null,
+    },
   };
 }
 
@@ -152,6 +597,29 @@ export function hasPaymasterConfig(): boolean {
   return !!cfg.AVNU_PAYMASTER_API_KEY;
 }
 
+/**
+ * Get storage backend configuration
+ */
+export function getStorageConfig() {
+  const cfg = loadConfig();
+  return {
+    backend: cfg.STORAGE_BACKEND,
+    filePath: cfg.STORAGE_FILE,
+  };
+}
+
+/**
+ * Get retry policy for blockchain calls
+ */
+export function getRetryConfig(): RetryPolicy {
+  const cfg = loadConfig();
+  return {
+    maxAttempts: cfg.RPC_RETRY_ATTEMPTS,
+    baseDelayMs: cfg.RPC_RETRY_BASE_DELAY_MS,
+    maxDelayMs: cfg.RPC_RETRY_MAX_DELAY_MS,
+  };
+}
+
 /**
  * Get core blockchain configuration
  */
@@ -160,12 +628,58 @@ export function getCoreConfig() {
   return {
     supabaseUrl: cfg.SUPABASE_URL,
     supabaseServiceKey: cfg.SUPABASE_SERVICE_KEY,
+    chainBackend: cfg.CHAIN_BACKEND,
     starknetRpcUrl: cfg.STARKNET_RPC_URL,
     starknetChainId: cfg.STARKNET_CHAIN_ID,
     avnuPaymasterRpc: cfg.AVNU_PAYMASTER_RPC,
     avnuPaymasterApiKey: cfg.AVNU_PAYMASTER_API_KEY,
+    maxTransactionFee: cfg.MAX_TRANSACTION_FEE,
     deployerAddress: cfg.DEPLOYER_ADDRESS,
-    deployerPrivateKey: cfg.DEPLOYER_PRIVATE_KEY,
+    deployerSigner: toSignerConfig(cfg, cfg.DEPLOYER_SIGNER, cfg.DEPLOYER_PRIVATE_KEY),
   };
 }
 
+/**
+ * Resolve a verifier key (key id and signer)
+ *
+ * @returns Verifier key, or undefined if no key id or signer is configured
+ */
+function toVerifierKey(
+  cfg: Config,
+  keyId: string | undefined,
+  spec: string,
+  privateKey: string | undefined
+): VerifierKey | undefined {
+  const signer = toSignerConfig(cfg, spec, privateKey);
+  return keyId && signer ? { key_id: keyId, signer } : undefined;
+}
+
+/**
+ * Resolve a signer spec (env, keystore:<file>, remote:<key id>)
+ *
+ * @returns Signer configuration, or undefined for env without a private key
+ */
+function toSignerConfig(
+  cfg: Config,
+  spec: string,
+  privateKey: string | undefined
+): SignerConfig | undefined {
+  if (spec.startsWith('keystore:')) {
+    return {
+      backend: 'keystore',
+      path: spec.slice('keystore:'.length),
+      passphrase: cfg.KEYSTORE_PASSPHRASE ?? '',
+    };
+  }
+
+  if (spec.startsWith('remote:')) {
+    return {
+      backend: 'remote',
+      url: cfg.REMOTE_SIGNER_URL,
+      key_id: spec.slice('remote:'.length),
+      ...(cfg.REMOTE_SIGNER_TOKEN && { token: cfg.REMOTE_SIGNER_TOKEN }),
+    };
+  }
+
+  return privateKey ? { backend: 'env', private_key: privateKey } : undefined;
+}
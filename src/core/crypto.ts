@@ -2,24 +2,41 @@
  * SNIP-12 signature generation for outcome verification
  *
  * Implements SNIP-12 (StarkNet Improvement Proposal 12) signatures
- * for alarm and focus lock claim verification
+ * for alarm and focus lock claim verification, and verification of
+ * stored signatures against the verifier public key
+ *
+ * Claim messages are declared as typed-data schemas (snip12.ts). Their
+ * type hashes are derived from the schemas and checked against the
+ * contract constants when this module loads.
  *
  * VERIFIED IMPLEMENTATION: This matches the tested signature generation
  * that produces valid signatures for the Cairo contract.
  */
 
-import { hash, ec, shortString } from 'starknet';
-import { AlarmSignature } from '../types/alarm.js';
-import { FocusLockSignature } from '../types/focus.js';
+import { ec } from 'starknet';
+import { ClaimSignature, PoolContractConfig, SignatureVerification } from '../types/common.js';
+import { Signer } from '../types/signer.js';
+import { AlarmSignature, AlarmUser } from '../types/alarm.js';
+import { FocusLockSignature, FocusLockUser } from '../types/focus.js';
 import { createModuleLogger } from './logger.js';
 import { toHexString } from './calculator.js';
+import {
+  Snip12Domain,
+  Snip12Message,
+  Snip12Schema,
+  STARKNET_DOMAIN_SCHEMAS,
+  checkTypeHash,
+  getDomainHash,
+  getMessageHash,
+  getStructHash,
+} from './snip12.js';
 
 const log = createModuleLogger('crypto');
 
 /**
- * Type hashes for SNIP-12 (from snip12.cairo and alarm.cairo)
+ * Type hashes the contracts use (snip12.cairo, alarm.cairo, focus_mode.cairo)
  *
- * These must match the contract's SNIP12Metadata implementation exactly
+ * Only used to cross-check the hashes derived from the schemas below.
  */
 
 // SNIP-12 Domain Type Hash (from snip12.cairo)
@@ -33,11 +50,81 @@ const CLAIM_REQUEST_TYPE_HASH = BigInt(
 );
 
 // ClaimRequest Type Hash for Focus Mode (from focus_mode.cairo)
-// Selector: "ClaimRequest(user:ContractAddress,session_id:u64,start_time:u64,duration:u64,completion_status:bool,expiry:u64)"
 const FOCUS_CLAIM_REQUEST_TYPE_HASH = BigInt(
   '0x2b7465f4af56dace498255033b032e8eae517b65da213072ce297608d8b219d'
 );
 
+/**
+ * Alarm ClaimRequest
+ *
+ * The contracts hash the unquoted type string:
+ * ClaimRequest(user:ContractAddress,alarm_id:u64,wakeup_time:u64,snooze_count:u8,expiry:u64)
+ */
+export const ALARM_CLAIM_REQUEST_SCHEMA: Snip12Schema = {
+  name: 'ClaimRequest',
+  fields: [
+    { name: 'user', type: 'ContractAddress' },
+    { name: 'alarm_id', type: 'u64' },
+    { name: 'wakeup_time', type: 'u64' },
+    { name: 'snooze_count', type: 'u8' },
+    { name: 'expiry', type: 'u64' },
+  ],
+  quoted: false,
+};
+
+/**
+ * Focus lock ClaimRequest
+ *
+ * ClaimRequest(user:ContractAddress,session_id:u64,start_time:u64,duration:u64,completion_status:bool,expiry:u64)
+ */
+export const FOCUS_CLAIM_REQUEST_SCHEMA: Snip12Schema = {
+  name: 'ClaimRequest',
+  fields: [
+    { name: 'user', type: 'ContractAddress' },
+    { name: 'session_id', type: 'u64' },
+    { name: 'start_time', type: 'u64' },
+    { name: 'duration', type: 'u64' },
+    { name: 'completion_status', type: 'bool' },
+    { name: 'expiry', type: 'u64' },
+  ],
+  quoted: false,
+};
+
+/**
+ * Focus lock ClaimRequest v2 (partial-completion slashing)
+ *
+ * ClaimRequest(user:ContractAddress,session_id:u64,start_time:u64,duration:u64,completion_status:bool,locked_duration:u64,expiry:u64)
+ *
+ * Adds the seconds a failed lock was held, from which the contract
+ * computes a partial stake return. Only signed with FOCUS_CLAIM_REQUEST=v2:
+ * the deployed contract must hash this exact type string.
+ */
+export const FOCUS_PARTIAL_CLAIM_REQUEST_SCHEMA: Snip12Schema = {
+  name: 'ClaimRequest',
+  fields: [
+    { name: 'user', type: 'ContractAddress' },
+    { name: 'session_id', type: 'u64' },
+    { name: 'start_time', type: 'u64' },
+    { name: 'duration', type: 'u64' },
+    { name: 'completion_status', type: 'bool' },
+    { name: 'locked_duration', type: 'u64' },
+    { name: 'expiry', type: 'u64' },
+  ],
+  quoted: false,
+};
+
+// Fail at startup if a schema drifted from the contract
+checkTypeHash(STARKNET_DOMAIN_SCHEMAS[1], STARKNET_DOMAIN_TYPE_HASH);
+checkTypeHash(ALARM_CLAIM_REQUEST_SCHEMA, CLAIM_REQUEST_TYPE_HASH);
+checkTypeHash(FOCUS_CLAIM_REQUEST_SCHEMA, FOCUS_CLAIM_REQUEST_TYPE_HASH);
+
+/**
+ * Signing domain of a contract on the configured chain
+ */
+export function getClaimDomain(config: PoolContractConfig, chainId: string): Snip12Domain {
+  return { ...config.domain, chainId };
+}
+
 /**
  * Create SNIP-12 signature for alarm claim outcome
  *
@@ -52,24 +139,25 @@ const FOCUS_CLAIM_REQUEST_TYPE_HASH = BigInt(
  *   expiry: u64
  * }
  *
- * Hash computation (SNIP-12 compliant):
+ * Hash computation (SNIP-12 compliant, ALARM_CLAIM_REQUEST_SCHEMA):
  * 1. domain_hash = poseidon([STARKNET_DOMAIN_TYPE_HASH, name, version, chainId, revision])
  * 2. struct_hash = poseidon([CLAIM_REQUEST_TYPE_HASH, user, alarm_id, wakeup_time, snooze_count, expiry])
  * 3. message_hash = poseidon(['StarkNet Message', domain_hash, user, struct_hash])
- * 4. Sign with STARK curve using raw hex (no 0x prefix)
+ * 4. Sign the message hash with the verifier signer (env key, keystore or remote)
+ *
+ * Revision 0 domains hash with Pedersen instead of Poseidon.
  *
  * @returns Signature components (r, s, message_hash, public_key)
  */
-export function createAlarmOutcomeSignature(
+export async function createAlarmOutcomeSignature(
   userAddress: string,
   alarmId: bigint,
   wakeupTime: bigint,
   snoozeCount: number,
   expiry: bigint,
-  _contractAddress: string,
-  chainId: string,
-  privateKey: string
-): AlarmSignature {
+  domain: Snip12Domain,
+  signer: Signer
+): Promise<AlarmSignature> {
   // Log all signature inputs for debugging
   log.info(
     {
@@ -80,74 +168,23 @@ export function createAlarmOutcomeSignature(
       snoozeCount,
       expiry: expiry.toString(),
       expiryDate: new Date(Number(expiry) * 1000).toISOString(),
-      chainId,
+      domain,
     },
     '🔐 Creating SNIP-12 alarm signature - INPUTS'
   );
 
-  // Step 1: Compute domain hash (matching SNIP-12 with chainId and revision)
-  // poseidon([STARKNET_DOMAIN_TYPE_HASH, name, version, chainId, revision])
-  const domainHash = hash.computePoseidonHashOnElements([
-    STARKNET_DOMAIN_TYPE_HASH,
-    BigInt(shortString.encodeShortString('EverydayApp')),
-    BigInt(shortString.encodeShortString('1')),
-    BigInt(chainId), // Chain ID (e.g., SN_SEPOLIA hex)
-    BigInt(1), // revision
-  ]);
-
-  // Step 2: Compute struct hash
-  // poseidon([CLAIM_REQUEST_TYPE_HASH, user, alarm_id, wakeup_time, snooze_count, expiry])
-  const structHash = hash.computePoseidonHashOnElements([
-    CLAIM_REQUEST_TYPE_HASH,
-    BigInt(userAddress),
+  // Steps 1-3: domain hash, struct hash, message hash
+  const messageHash = computeAlarmMessageHash(
+    userAddress,
     alarmId,
     wakeupTime,
-    BigInt(snoozeCount),
+    snoozeCount,
     expiry,
-  ]);
-
-  // Step 3: Compute final message hash (SNIP-12)
-  // poseidon(['StarkNet Message', domain_hash, user, struct_hash])
-  const messageHash = hash.computePoseidonHashOnElements([
-    BigInt(shortString.encodeShortString('StarkNet Message')),
-    BigInt(domainHash),
-    BigInt(userAddress),
-    BigInt(structHash),
-  ]);
-
-  // Step 4: Prepare message hash for signing
-  // CRITICAL: Pad to 64 chars (32 bytes) and ensure no 0x prefix for signing
-  let msgHex = BigInt(messageHash).toString(16);
-  msgHex = msgHex.padStart(64, '0');
-
-  // Clean private key - remove 0x prefix for signing
-  let privKeyClean = privateKey;
-  if (privKeyClean.startsWith('0x')) {
-    privKeyClean = privKeyClean.slice(2);
-  }
-
-  log.debug(
-    {
-      domainHash: toHexString(domainHash),
-      structHash: toHexString(structHash),
-      messageHash: `0x${msgHex}`,
-    },
-    'SNIP-12 hash components computed'
+    domain
   );
 
-  // Step 5: Sign with STARK curve using raw hex
-  const signature = ec.starkCurve.sign(msgHex, privKeyClean);
-
-  // Get public key (needs 0x prefix for this call)
-  const normalizedPrivateKey = privateKey.startsWith('0x') ? privateKey : '0x' + privateKey;
-  const publicKey = ec.starkCurve.getStarkKey(normalizedPrivateKey);
-
-  const result = {
-    message_hash: `0x${msgHex}`,
-    signature_r: toHexString(signature.r),
-    signature_s: toHexString(signature.s),
-    public_key: toHexString(publicKey),
-  };
+  // Steps 4-5: Sign with STARK curve (verifier signer)
+  const result = await signMessageHash(messageHash, signer);
 
   // Log the complete signature output
   log.info(
@@ -157,7 +194,7 @@ export function createAlarmOutcomeSignature(
       wakeupTime: wakeupTime.toString(),
       snoozeCount,
       expiry: expiry.toString(),
-      chainId,
+      chainId: domain.chainId,
       messageHash: result.message_hash,
       signatureR: result.signature_r,
       signatureS: result.signature_s,
@@ -185,25 +222,29 @@ export function createAlarmOutcomeSignature(
  *   expiry: u64
  * }
  *
- * Hash computation (Manual Poseidon - SNIP-12 compliant):
+ * Hash computation (SNIP-12 compliant, FOCUS_CLAIM_REQUEST_SCHEMA):
  * 1. domain_hash = poseidon([STARKNET_DOMAIN_TYPE_HASH, name, version, chainId, revision])
  * 2. struct_hash = poseidon([FOCUS_CLAIM_REQUEST_TYPE_HASH, user, session_id, start_time, duration, completion_status, expiry])
  * 3. message_hash = poseidon(['StarkNet Message', domain_hash, user, struct_hash])
- * 4. Sign with STARK curve using raw hex (no 0x prefix)
+ * 4. Sign the message hash with the verifier signer (env key, keystore or remote)
+ *
+ * Revision 0 domains hash with Pedersen instead of Poseidon. With a locked
+ * duration the v2 ClaimRequest (FOCUS_PARTIAL_CLAIM_REQUEST_SCHEMA) is signed.
  *
+ * @param lockedDuration Seconds held, only for the v2 ClaimRequest
  * @returns Signature components (r, s, message_hash, public_key)
  */
-export function createFocusOutcomeSignature(
+export async function createFocusOutcomeSignature(
   userAddress: string,
   sessionId: bigint,
   startTime: bigint,
   duration: bigint,
   completionStatus: boolean,
   expiry: bigint,
-  _contractAddress: string,
-  chainId: string,
-  privateKey: string
-): FocusLockSignature {
+  domain: Snip12Domain,
+  signer: Signer,
+  lockedDuration?: bigint
+): Promise<FocusLockSignature> {
   // Log all signature inputs for debugging
   log.info(
     {
@@ -214,77 +255,28 @@ export function createFocusOutcomeSignature(
       duration: duration.toString(),
       durationHours: (Number(duration) / 3600).toFixed(2),
       completionStatus,
+      lockedDuration: lockedDuration?.toString(),
       expiry: expiry.toString(),
       expiryDate: new Date(Number(expiry) * 1000).toISOString(),
-      chainId,
+      domain,
     },
     '🔐 Creating SNIP-12 focus lock signature - INPUTS'
   );
 
-  // Step 1: Compute domain hash (matching SNIP-12 with chainId and revision)
-  // poseidon([STARKNET_DOMAIN_TYPE_HASH, name, version, chainId, revision])
-  const domainHash = hash.computePoseidonHashOnElements([
-    STARKNET_DOMAIN_TYPE_HASH,
-    BigInt(shortString.encodeShortString('EverydayApp')),
-    BigInt(shortString.encodeShortString('1')),
-    BigInt(chainId), // Chain ID (e.g., SN_SEPOLIA hex)
-    BigInt(1), // revision
-  ]);
-
-  // Step 2: Compute struct hash
-  // poseidon([FOCUS_CLAIM_REQUEST_TYPE_HASH, user, session_id, start_time, duration, completion_status, expiry])
-  const structHash = hash.computePoseidonHashOnElements([
-    FOCUS_CLAIM_REQUEST_TYPE_HASH,
-    BigInt(userAddress),
+  // Steps 1-3: domain hash, struct hash, message hash
+  const messageHash = computeFocusMessageHash(
+    userAddress,
     sessionId,
     startTime,
     duration,
-    BigInt(completionStatus ? 1 : 0), // bool to felt252
+    completionStatus,
     expiry,
-  ]);
-
-  // Step 3: Compute final message hash (SNIP-12)
-  // poseidon(['StarkNet Message', domain_hash, user, struct_hash])
-  const messageHash = hash.computePoseidonHashOnElements([
-    BigInt(shortString.encodeShortString('StarkNet Message')),
-    BigInt(domainHash),
-    BigInt(userAddress),
-    BigInt(structHash),
-  ]);
-
-  // Step 4: Prepare message hash for signing
-  // CRITICAL: Pad to 64 chars (32 bytes) and ensure no 0x prefix for signing
-  let msgHex = BigInt(messageHash).toString(16);
-  msgHex = msgHex.padStart(64, '0');
-
-  // Clean private key - remove 0x prefix for signing
-  let privKeyClean = privateKey;
-  if (privKeyClean.startsWith('0x')) {
-    privKeyClean = privKeyClean.slice(2);
-  }
-
-  log.debug(
-    {
-      domainHash: toHexString(domainHash),
-      structHash: toHexString(structHash),
-      messageHash: `0x${msgHex}`,
-    },
-    'SNIP-12 hash components computed'
+    domain,
+    lockedDuration
   );
 
-  // Step 5: Sign with STARK curve using raw hex
-  const signature = ec.starkCurve.sign(msgHex, privKeyClean);
-
-  // Get public key (needs 0x prefix for this call)
-  const normalizedPrivateKey = privateKey.startsWith('0x') ? privateKey : '0x' + privateKey;
-  const publicKey = ec.starkCurve.getStarkKey(normalizedPrivateKey);
-
-  const result = {
-    message_hash: `0x${msgHex}`,
-    signature_r: toHexString(signature.r),
-    signature_s: toHexString(signature.s),
-    public_key: toHexString(publicKey),
-  };
+  // Steps 4-5: Sign with STARK curve (verifier signer)
+  const result = await signMessageHash(messageHash, signer);
 
   // Log the complete signature output
   log.info(
@@ -294,8 +286,9 @@ export function createFocusOutcomeSignature(
       startTime: startTime.toString(),
       duration: duration.toString(),
       completionStatus,
+      lockedDuration: lockedDuration?.toString(),
       expiry: expiry.toString(),
-      chainId,
+      chainId: domain.chainId,
       messageHash: result.message_hash,
       signatureR: result.signature_r,
       signatureS: result.signature_s,
@@ -307,6 +300,217 @@ export function createFocusOutcomeSignature(
   return result;
 }
 
+/**
+ * SNIP-12 message hash of an alarm ClaimRequest
+ *
+ * @returns Message hash padded to 32 bytes (0x + 64 hex chars)
+ */
+export function computeAlarmMessageHash(
+  userAddress: string,
+  alarmId: bigint,
+  wakeupTime: bigint,
+  snoozeCount: number,
+  expiry: bigint,
+  domain: Snip12Domain
+): string {
+  return computeMessageHash(
+    ALARM_CLAIM_REQUEST_SCHEMA,
+    {
+      user: userAddress,
+      alarm_id: alarmId,
+      wakeup_time: wakeupTime,
+      snooze_count: snoozeCount,
+      expiry,
+    },
+    domain,
+    userAddress
+  );
+}
+
+/**
+ * SNIP-12 message hash of a focus lock ClaimRequest (v2 with a locked duration)
+ *
+ * @returns Message hash padded to 32 bytes (0x + 64 hex chars)
+ */
+export function computeFocusMessageHash(
+  userAddress: string,
+  sessionId: bigint,
+  startTime: bigint,
+  duration: bigint,
+  completionStatus: boolean,
+  expiry: bigint,
+  domain: Snip12Domain,
+  lockedDuration?: bigint
+): string {
+  return computeMessageHash(
+    lockedDuration === undefined ? FOCUS_CLAIM_REQUEST_SCHEMA : FOCUS_PARTIAL_CLAIM_REQUEST_SCHEMA,
+    {
+      user: userAddress,
+      session_id: sessionId,
+      start_time: startTime,
+      duration,
+      completion_status: completionStatus,
+      ...(lockedDuration !== undefined && { locked_duration: lockedDuration }),
+      expiry,
+    },
+    domain,
+    userAddress
+  );
+}
+
+/**
+ * Final SNIP-12 message hash of a claim, padded for signing
+ */
+function computeMessageHash(
+  schema: Snip12Schema,
+  message: Snip12Message,
+  domain: Snip12Domain,
+  userAddress: string
+): string {
+  const messageHash = getMessageHash(schema, message, domain, userAddress);
+
+  // Pad to 64 chars (32 bytes)
+  const msgHex = messageHash.toString(16).padStart(64, '0');
+
+  if (log.isLevelEnabled('debug')) {
+    log.debug(
+      {
+        domainHash: toHexString(getDomainHash(domain)),
+        structHash: toHexString(getStructHash(schema, message, domain.revision)),
+        messageHash: `0x${msgHex}`,
+      },
+      'SNIP-12 hash components computed'
+    );
+  }
+
+  return `0x${msgHex}`;
+}
+
+/**
+ * Sign a message hash with the verifier signer
+ */
+async function signMessageHash(
+  messageHash: string,
+  signer: Signer
+): Promise<Omit<ClaimSignature, 'key_id'>> {
+  const { r, s } = await signer.signHash(messageHash);
+
+  return {
+    message_hash: messageHash,
+    signature_r: r,
+    signature_s: s,
+    public_key: await signer.getPublicKey(),
+  };
+}
+
+/**
+ * Verify a STARK signature against a Stark public key
+ *
+ * A Stark key is only the x coordinate of the public key; like the
+ * contract's ECDSA check, both points with that x are accepted.
+ *
+ * @returns True if r/s is a valid signature of the message hash
+ */
+export function verifyStarkSignature(
+  messageHash: string,
+  signatureR: string,
+  signatureS: string,
+  publicKey: string
+): boolean {
+  const x = BigInt(publicKey).toString(16).padStart(64, '0');
+
+  try {
+    const signature = new ec.starkCurve.Signature(BigInt(signatureR), BigInt(signatureS));
+    return ['02', '03'].some((prefix) =>
+      ec.starkCurve.verify(signature, messageHash, prefix + x)
+    );
+  } catch (error) {
+    // Malformed signature or key (out of range, not on the curve)
+    log.debug({ error, messageHash }, 'Signature could not be verified');
+    return false;
+  }
+}
+
+/**
+ * Verify a stored alarm claim signature
+ *
+ * Recomputes the message hash from the alarm and expiry, then checks the
+ * stored message hash and r/s against the verifier public key.
+ */
+export function verifyAlarmClaimSignature(
+  user: AlarmUser,
+  expiry: bigint,
+  signature: Pick<ClaimSignature, 'message_hash' | 'signature_r' | 'signature_s'>,
+  domain: Snip12Domain,
+  publicKey: string
+): SignatureVerification {
+  const expectedMessageHash = computeAlarmMessageHash(
+    user.address,
+    BigInt(user.alarm_id),
+    BigInt(user.wake_up_time),
+    user.snooze_count,
+    expiry,
+    domain
+  );
+
+  return checkSignature(expectedMessageHash, signature, publicKey);
+}
+
+/**
+ * Verify a stored focus lock claim signature
+ *
+ * Recomputes the message hash from the lock and expiry, then checks the
+ * stored message hash and r/s against the verifier public key.
+ *
+ * @param lockedDuration Signed locked duration (v2 ClaimRequest only)
+ */
+export function verifyFocusClaimSignature(
+  user: FocusLockUser,
+  expiry: bigint,
+  signature: Pick<ClaimSignature, 'message_hash' | 'signature_r' | 'signature_s'>,
+  domain: Snip12Domain,
+  publicKey: string,
+  lockedDuration?: bigint
+): SignatureVerification {
+  const expectedMessageHash = computeFocusMessageHash(
+    user.address,
+    user.session_id,
+    user.start_time,
+    user.duration,
+    user.completion_status,
+    expiry,
+    domain,
+    lockedDuration
+  );
+
+  return checkSignature(expectedMessageHash, signature, publicKey);
+}
+
+/**
+ * Check a stored signature against the recomputed message hash
+ */
+function checkSignature(
+  expectedMessageHash: string,
+  signature: Pick<ClaimSignature, 'message_hash' | 'signature_r' | 'signature_s'>,
+  publicKey: string
+): SignatureVerification {
+  const messageHashMatches = BigInt(signature.message_hash) === BigInt(expectedMessageHash);
+  // Verify against the recomputed hash: a valid r/s over a stale hash is still invalid
+  const signatureValid = verifyStarkSignature(
+    expectedMessageHash,
+    signature.signature_r,
+    signature.signature_s,
+    publicKey
+  );
+
+  return {
+    expected_message_hash: expectedMessageHash,
+    message_hash_matches: messageHashMatches,
+    signature_valid: signatureValid,
+    valid: messageHashMatches && signatureValid,
+  };
+}
+
 /**
  * Calculate expiry timestamp (48 hours from now)
  */
@@ -1,50 +1,57 @@
 /**
- * Database operations using Supabase client
- * 
+ * Shared database logic for all storage backends
+ *
  * Handles:
- * - Fetching alarm/focus lock data from pools
- * - Finding unprocessed pools
- * - Storing processing results (signatures, proofs, merkle roots)
+ * - Pool time calculations (day/period)
+ * - Transforming database records into pool users
+ * - Splitting records by stake token
+ * - Grouping unprocessed records into pools
+ * - Building claim rows from signed claims (after a signature self-check)
+ * - Reading stored claim rows
+ *
+ * Storage backends (repository.ts) only run queries and delegate
+ * everything else to these helpers so all backends behave identically.
  */
 
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { PoolInfo, PoolTimeRange, RewardData, MerkleTree } from '../types/index.js';
+import {
+  BasePoolUser,
+  PoolInfo,
+  PoolTimeRange,
+  SignatureVerification,
+} from '../types/index.js';
 import {
   AlarmUser,
   DatabaseAlarmRecord,
   AlarmBatchUpdate,
   ClaimDataInsert,
-  AlarmPoolConfig,
 } from '../types/alarm.js';
 import {
   FocusLockUser,
   DatabaseFocusLockRecord,
   FocusLockClaimData,
-  FocusLockPoolConfig,
-  FocusLockReward,
 } from '../types/focus.js';
-import { getCoreConfig } from './config.js';
-import { createModuleLogger, logDatabaseOperation } from './logger.js';
+import { PoolClaim } from '../types/pool.js';
+import { TokenConfig } from '../types/token.js';
+import { getAlarmConfig, getFocusConfig, getCoreConfig } from './config.js';
+import {
+  getClaimDomain,
+  verifyAlarmClaimSignature,
+  verifyFocusClaimSignature,
+} from './crypto.js';
+import { getVerifierPublicKeys } from './verifier.js';
+import { parseTokenAmount } from './tokens.js';
+import { createModuleLogger } from './logger.js';
 
 const log = createModuleLogger('database');
 
-let supabaseClient: SupabaseClient | null = null;
-
 /**
- * Initialize Supabase client
+ * Unprocessed pools older than this are skipped (contract limitation)
  */
-function getSupabaseClient(): SupabaseClient {
-  if (!supabaseClient) {
-    const { supabaseUrl, supabaseServiceKey } = getCoreConfig();
-    supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
-    log.info('Supabase client initialized');
-  }
-  return supabaseClient;
-}
+const UNPROCESSED_POOL_MAX_AGE_SECONDS = 48 * 3600;
 
 /**
  * Calculate pool info (day and period) from timestamp
- * 
+ *
  * @param timestamp Unix timestamp
  * @returns Pool info with day and period
  */
@@ -56,7 +63,7 @@ export function calculatePoolInfo(timestamp: number): PoolInfo {
 
 /**
  * Calculate time range for a pool period
- * 
+ *
  * @param day Unix day
  * @param period 0=AM, 1=PM
  * @returns Start and end timestamps for the period
@@ -69,139 +76,128 @@ export function calculateTimeRange(day: number, period: 0 | 1): PoolTimeRange {
 }
 
 /**
- * Fetch alarms from a specific pool
- * 
- * Filters:
- * - Time range (wakeup_time within period)
- * - Only staked (stake_amount > 0)
- * - Only blockchain (alarm_id IS NOT NULL)
- * - Not deleted (deleted = false)
- * 
- * @returns Array of alarm users
+ * Stake token symbol of a record (records without one are in the default token)
  */
-export async function fetchAlarmsFromPool(
-  day: number,
-  period: 0 | 1
-): Promise<AlarmUser[]> {
-  const supabase = getSupabaseClient();
-  const { periodStart, periodEnd } = calculateTimeRange(day, period);
-
-  log.info(
-    {
-      day,
-      period,
-      periodStart,
-      periodEnd,
-      startDate: new Date(periodStart * 1000).toISOString(),
-      endDate: new Date(periodEnd * 1000).toISOString(),
-    },
-    'Fetching alarms from pool'
-  );
-
-  // First fetch alarms
-  const { data: alarms, error } = await supabase
-    .from('alarms')
-    .select('*')
-    .gte('wakeup_time', periodStart)
-    .lt('wakeup_time', periodEnd)
-    .gt('stake_amount', 0)
-    .not('alarm_id', 'is', null)
-    .eq('deleted', false)
-    .order('wakeup_time');
-
-  if (error) {
-    log.error({ error }, 'Failed to fetch alarms from database');
-    throw new Error(`Database query failed: ${error.message}`);
-  }
-
-  if (!alarms || alarms.length === 0) {
-    log.warn({ day, period }, 'No alarms found for pool');
-    return [];
-  }
-
-  // Get user IDs to fetch wallet addresses from wallets table (Privy wallets)
-  const userIds = [...new Set(alarms.map((alarm) => alarm.user_id))];
-
-  // Fetch wallet addresses from wallets table (deployed_address is the on-chain address)
-  const { data: wallets, error: walletsError } = await supabase
-    .from('wallets')
-    .select('user_id, deployed_address')
-    .in('user_id', userIds)
-    .eq('is_deployed', true);
+export function recordTokenSymbol(
+  record: { token?: string | null }, // Absent from file stores written before the token column
+  defaultToken: TokenConfig
+): string {
+  return record.token ?? defaultToken.symbol;
+}
 
-  if (walletsError) {
-    log.error({ error: walletsError }, 'Failed to fetch wallet addresses');
-    throw new Error(`Database query failed: ${walletsError.message}`);
+/**
+ * Check that a record is staked in a sub-pool's token
+ *
+ * @param label Record reference for the error (e.g. 'Alarm <uuid>')
+ * @throws {Error} If the record belongs to another token's sub-pool
+ */
+export function requireRecordToken(
+  label: string,
+  record: { token?: string | null },
+  token: TokenConfig,
+  defaultToken: TokenConfig
+): void {
+  const symbol = recordTokenSymbol(record, defaultToken);
+  if (symbol !== token.symbol) {
+    throw new Error(`${label} is staked in ${symbol}, not ${token.symbol}`);
   }
-
-  // Create a map of user_id -> deployed_address
-  const walletMap = new Map<string, string>();
-  wallets?.forEach((wallet) => {
-    if (wallet.deployed_address) {
-      walletMap.set(wallet.user_id, wallet.deployed_address);
-    }
-  });
-
-  // Transform database records to AlarmUser type
-  const transformedAlarms: AlarmUser[] = alarms
-    .filter((alarm) => walletMap.has(alarm.user_id)) // Only include alarms with valid wallet addresses
-    .map((alarm) => {
-      const record = alarm as unknown as DatabaseAlarmRecord;
-
-      // Convert stake_amount from USDC (DB: NUMERIC(10,2)) to smallest unit (6 decimals)
-      // DB stores as 50.00, blockchain uses 50000000
-      const stakeAmountUsdc = record.stake_amount;
-      const stakeAmountSmallestUnit = BigInt(Math.floor(stakeAmountUsdc * 1e6));
-
-      return {
-        address: walletMap.get(record.user_id) ?? '',
-        wake_up_time: record.wakeup_time.toString(),
-        stake_amount: stakeAmountSmallestUnit.toString(),
-        snooze_count: record.snooze_count,
-        alarm_uuid: record.id,
-        alarm_id: record.alarm_id?.toString() ?? '0',
-        uuid: record.id,
-        id: record.alarm_id?.toString() ?? '0',
-      };
-    });
-
-  logDatabaseOperation('fetch_alarms', transformedAlarms.length, {
-    day,
-    period,
-  });
-
-  return transformedAlarms;
 }
 
 /**
- * Find all unprocessed alarm pools
- * 
- * Returns pools with claim_ready = false, filtered to exclude
- * pools older than 48h (legacy contracts)
+ * Distinct stake token symbols of records (in order of appearance)
  */
-export async function findUnprocessedAlarmPools(): Promise<PoolInfo[]> {
-  const supabase = getSupabaseClient();
-
-  log.info('Finding unprocessed alarm pools');
+export function distinctTokenSymbols(
+  records: Array<{ token?: string | null }>,
+  defaultToken: TokenConfig
+): string[] {
+  return [...new Set(records.map((record) => recordTokenSymbol(record, defaultToken)))];
+}
 
-  const { data: alarms, error } = await supabase
-    .from('alarms')
-    .select('wakeup_time')
-    .eq('claim_ready', false)
-    .order('wakeup_time', { ascending: true });
+/**
+ * Transform an alarm record into an AlarmUser
+ *
+ * @param record Database alarm record
+ * @param address Deployed wallet address of the alarm owner
+ * @param token Stake token of the alarm contract
+ */
+export function toAlarmUser(
+  record: DatabaseAlarmRecord,
+  address: string,
+  token: TokenConfig
+): AlarmUser {
+  // Convert stake_amount from whole tokens (DB: NUMERIC(10,2)) to smallest units
+  // DB stores as 50.00, blockchain uses 50000000 (USDC, 6 decimals)
+  const stakeAmountSmallestUnit = parseTokenAmount(record.stake_amount, token);
+
+  return {
+    address,
+    wake_up_time: record.wakeup_time.toString(),
+    stake_amount: stakeAmountSmallestUnit.toString(),
+    snooze_count: record.snooze_count,
+    alarm_uuid: record.id,
+    alarm_id: record.alarm_id?.toString() ?? '0',
+    uuid: record.id,
+    id: record.alarm_id?.toString() ?? '0',
+  };
+}
 
-  if (error) {
-    log.error({ error }, 'Failed to find unprocessed pools');
-    throw new Error(`Database query failed: ${error.message}`);
-  }
+/**
+ * Transform a focus lock record into a FocusLockUser
+ *
+ * @param record Database focus lock record
+ * @param address Deployed wallet address of the lock owner
+ * @param token Stake token of the focus contract
+ */
+export function toFocusLockUser(
+  record: DatabaseFocusLockRecord,
+  address: string,
+  token: TokenConfig
+): FocusLockUser {
+  // Convert stake_amount from whole tokens (DB: NUMERIC) to smallest units
+  // DB stores as NUMERIC(10,2) (e.g., "1.00"), blockchain uses 1000000 (USDC, 6 decimals)
+  const stakeAmountSmallestUnit = parseTokenAmount(record.stake_amount, token);
+
+  // Convert duration from minutes to seconds
+  const durationSeconds = record.duration_minutes * 60;
+
+  // A failed lock was held until it ended (end_time, else its last update)
+  const endedAt = record.end_time > 0 ? record.end_time : Date.parse(record.updated_at) / 1000;
+  const heldSeconds = Number.isFinite(endedAt) ? Math.floor(endedAt - record.start_time) : 0;
+  const completed = record.completion_status ?? false;
+
+  return {
+    address,
+    session_id: BigInt(record.lock_id ?? 0),
+    start_time: BigInt(record.start_time),
+    duration: BigInt(durationSeconds),
+    stake_amount: stakeAmountSmallestUnit.toString(),
+    completion_status: completed,
+    locked_duration: BigInt(
+      completed ? durationSeconds : Math.min(Math.max(heldSeconds, 0), durationSeconds)
+    ),
+    focus_lock_id: record.id,
+    uuid: record.id,
+    id: record.lock_id?.toString() ?? '0',
+  };
+}
 
-  if (!alarms || alarms.length === 0) {
+/**
+ * Group unprocessed alarms into unique pools
+ *
+ * Filters out pools older than 48h (legacy contracts)
+ *
+ * @param alarms Unprocessed alarms ordered by wakeup_time ascending
+ */
+export function groupUnprocessedAlarmPools(
+  alarms: Array<Pick<DatabaseAlarmRecord, 'wakeup_time'>>
+): PoolInfo[] {
+  if (alarms.length === 0) {
     log.info('No unprocessed alarms found');
     return [];
   }
 
   // Filter out pools older than 48h (legacy)
-  const cutoff = Math.floor(Date.now() / 1000) - 48 * 3600;
+  const cutoff = Math.floor(Date.now() / 1000) - UNPROCESSED_POOL_MAX_AGE_SECONDS;
   const recentAlarms = alarms.filter((a) => a.wakeup_time >= cutoff);
 
   if (recentAlarms.length === 0) {
@@ -245,301 +241,26 @@ export async function findUnprocessedAlarmPools(): Promise<PoolInfo[]> {
 }
 
 /**
- * Find the latest alarm pool with alarms
- */
-export async function findLatestAlarmPool(): Promise<PoolInfo | null> {
-  const supabase = getSupabaseClient();
-
-  log.info('Finding latest alarm pool');
-
-  // Find the latest alarm with a valid alarm_id and stake
-  const { data: alarms, error } = await supabase
-    .from('alarms')
-    .select('wakeup_time, alarm_id')
-    .gt('stake_amount', 0)
-    .not('alarm_id', 'is', null)
-    .eq('deleted', false)
-    .order('wakeup_time', { ascending: false })
-    .limit(1);
-
-  if (error) {
-    log.error({ error }, 'Failed to find latest alarm pool');
-    throw new Error(`Database query failed: ${error.message}`);
-  }
-
-  if (!alarms || alarms.length === 0) {
-    log.warn('No alarms found in database');
-    return null;
-  }
-
-  const latestWakeupTime = alarms[0]!.wakeup_time;
-  const poolInfo = calculatePoolInfo(latestWakeupTime);
-
-  log.info(
-    {
-      day: poolInfo.day,
-      period: poolInfo.period,
-      latestWakeupTime,
-      alarmId: alarms[0]!.alarm_id,
-      date: new Date(latestWakeupTime * 1000).toISOString(),
-    },
-    'Found latest alarm pool'
-  );
-
-  return poolInfo;
-}
-
-/**
- * Store alarm processing results to database
- * 
- * Steps:
- * 1. Batch update alarms table (claim_ready = true, has_claimed = false)
- * 2. Batch insert claim data with signatures and proofs
- * 
- * IMPORTANT: Only call this AFTER blockchain transaction succeeds!
- */
-export async function storeAlarmResults(
-  users: AlarmUser[],
-  rewards: RewardData[],
-  merkleTree: MerkleTree,
-  config: AlarmPoolConfig,
-  chainId: string,
-  expiry: number
-): Promise<void> {
-  const supabase = getSupabaseClient();
-
-  log.info({ userCount: users.length }, 'Storing alarm results to database');
-
-  // Prepare batch updates and inserts
-  const alarmUpdates: AlarmBatchUpdate[] = [];
-  const claimDataInserts: ClaimDataInsert[] = [];
-
-  // Import crypto functions for signature generation
-  const { createAlarmOutcomeSignature } = await import('./crypto.js');
-
-  for (const user of users) {
-    // Find reward for this user
-    const userReward = rewards.find((r) => r.address === user.address);
-    const rewardAmount = userReward ? userReward.reward_amount : '0';
-
-    // Get merkle proof (all users have proofs, including losers)
-    const merkleProof = merkleTree.proofs[user.address] ?? [];
-
-    // Generate SNIP-12 signature
-    const signature = createAlarmOutcomeSignature(
-      user.address,
-      BigInt(user.alarm_id),
-      BigInt(user.wake_up_time),
-      user.snooze_count,
-      BigInt(expiry),
-      config.contract_address,
-      chainId,
-      config.verifier_private_key
-    );
-
-    // Prepare alarm update
-    alarmUpdates.push({
-      id: user.alarm_uuid,
-      claim_ready: true,
-      has_claimed: false,
-    });
-
-    // Prepare claim data insert
-    claimDataInserts.push({
-      alarm_id: user.alarm_uuid,
-      signature_r: signature.signature_r,
-      signature_s: signature.signature_s,
-      message_hash: signature.message_hash,
-      reward_amount: rewardAmount,
-      merkle_proof: JSON.stringify(merkleProof),
-      expiry_time: expiry,
-      processed_at: new Date().toISOString(),
-    });
-  }
-
-  // Batch update alarms
-  log.info({ count: alarmUpdates.length }, 'Updating alarm records');
-  
-  for (const update of alarmUpdates) {
-    const { error } = await supabase
-      .from('alarms')
-      .update({
-        claim_ready: update.claim_ready,
-        has_claimed: update.has_claimed,
-      })
-      .eq('id', update.id);
-
-    if (error) {
-      log.error({ error, alarmId: update.id }, 'Failed to update alarm');
-      throw new Error(`Failed to update alarm ${update.id}: ${error.message}`);
-    }
-  }
-
-  logDatabaseOperation('update_alarms', alarmUpdates.length);
-
-  // Batch insert claim data
-  log.info({ count: claimDataInserts.length }, 'Inserting claim data');
-  
-  const { error: insertError } = await supabase
-    .from('user_claim_data')
-    .insert(claimDataInserts);
-
-  if (insertError) {
-    log.error({ error: insertError }, 'Failed to insert claim data');
-    throw new Error(`Failed to insert claim data: ${insertError.message}`);
-  }
-
-  logDatabaseOperation('insert_claim_data', claimDataInserts.length);
-
-  log.info('Successfully stored all results to database');
-}
-
-/**
- * Fetch focus locks from a specific pool
- *
- * Filters by day and period columns (not time range) to match what was stored
- * on-chain, even if period calculations differ.
- *
- * Only periods 0-1 are valid for 12-hour pools.
+ * Group unprocessed focus locks into unique pools
  *
- * @returns Array of focus lock users
- */
-export async function fetchFocusLocksFromPool(
-  day: number,
-  period: 0 | 1
-): Promise<FocusLockUser[]> {
-  const supabase = getSupabaseClient();
-
-  log.info(
-    {
-      day,
-      period,
-    },
-    'Fetching focus locks from pool'
-  );
-
-  // Validate period (only 0-1 valid for 12-hour periods)
-  if (period >= 2) {
-    log.warn(
-      { day, period },
-      'Invalid period requested - only periods 0-1 are supported (12-hour pools)'
-    );
-    return [];
-  }
-
-  // First fetch focus locks
-  const { data: locks, error } = await supabase
-    .from('focus_locks')
-    .select('*')
-    .eq('day', day)
-    .eq('period', period)
-    .gt('stake_amount', 0)
-    .not('lock_id', 'is', null)
-    .order('start_time');
-
-  if (error) {
-    log.error({ error }, 'Failed to fetch focus locks from database');
-    throw new Error(`Database query failed: ${error.message}`);
-  }
-
-  if (!locks || locks.length === 0) {
-    log.warn({ day, period }, 'No focus locks found for pool');
-    return [];
-  }
-
-  // Get user IDs to fetch wallet addresses from wallets table (Privy wallets)
-  const userIds = [...new Set(locks.map((lock) => lock.user_id))];
-
-  // Fetch wallet addresses from wallets table (deployed_address is the on-chain address)
-  const { data: wallets, error: walletsError } = await supabase
-    .from('wallets')
-    .select('user_id, deployed_address')
-    .in('user_id', userIds)
-    .eq('is_deployed', true);
-
-  if (walletsError) {
-    log.error({ error: walletsError }, 'Failed to fetch wallet addresses');
-    throw new Error(`Database query failed: ${walletsError.message}`);
-  }
-
-  // Create a map of user_id -> deployed_address
-  const walletMap = new Map<string, string>();
-  wallets?.forEach((wallet) => {
-    if (wallet.deployed_address) {
-      walletMap.set(wallet.user_id, wallet.deployed_address);
-    }
-  });
-
-  // Transform database records to FocusLockUser type
-  const transformedLocks: FocusLockUser[] = locks
-    .filter((lock) => walletMap.has(lock.user_id)) // Only include locks with valid wallet addresses
-    .map((lock) => {
-      const record = lock as unknown as DatabaseFocusLockRecord;
-
-      // Convert stake_amount from USDC (DB: NUMERIC) to smallest unit (6 decimals)
-      // DB stores as NUMERIC(10,2) = USDC (e.g., "1.00"), blockchain uses 1000000
-      const stakeAmountUsdc = parseFloat(record.stake_amount);
-      const stakeAmountSmallestUnit = BigInt(Math.floor(stakeAmountUsdc * 1e6));
-
-      // Convert duration from minutes to seconds
-      const durationSeconds = record.duration_minutes * 60;
-
-      return {
-        address: walletMap.get(record.user_id) ?? '',
-        session_id: BigInt(record.lock_id ?? 0),
-        start_time: BigInt(record.start_time),
-        duration: BigInt(durationSeconds),
-        stake_amount: stakeAmountSmallestUnit.toString(),
-        completion_status: record.completion_status ?? false,
-        focus_lock_id: record.id,
-        uuid: record.id,
-        id: record.lock_id?.toString() ?? '0',
-      };
-    });
-
-  logDatabaseOperation('fetch_focus_locks', transformedLocks.length, {
-    day,
-    period,
-  });
-
-  log.info(
-    { lockCount: transformedLocks.length },
-    'Successfully fetched and transformed focus locks'
-  );
-
-  return transformedLocks;
-}
-
-/**
- * Find all unprocessed focus lock pools
+ * Filters out locks that ended more than 48h ago (contract limitation)
+ * and fixes invalid periods (2-3 from old 6-hour system)
  *
- * Returns pools with claim_ready = false, filtered to exclude
- * pools older than 48h (contract limitation)
+ * @param locks Unprocessed locks ordered by start_time ascending
  */
-export async function findUnprocessedFocusLockPools(): Promise<PoolInfo[]> {
-  const supabase = getSupabaseClient();
-
-  log.info('Finding unprocessed focus lock pools');
-
-  const { data: locks, error } = await supabase
-    .from('focus_locks')
-    .select('id, start_time, duration_minutes, day, period')
-    .eq('claim_ready', false)
-    .order('start_time', { ascending: true });
-
-  if (error) {
-    log.error({ error }, 'Failed to find unprocessed focus lock pools');
-    throw new Error(`Database query failed: ${error.message}`);
-  }
-
-  if (!locks || locks.length === 0) {
+export function groupUnprocessedFocusLockPools(
+  locks: Array<
+    Pick<DatabaseFocusLockRecord, 'id' | 'start_time' | 'duration_minutes' | 'day' | 'period'>
+  >
+): PoolInfo[] {
+  if (locks.length === 0) {
     log.info('No unprocessed focus locks found');
     return [];
   }
 
   // Calculate cutoff time (48 hours ago)
   const now = Math.floor(Date.now() / 1000);
-  const cutoff = now - 48 * 3600;
+  const cutoff = now - UNPROCESSED_POOL_MAX_AGE_SECONDS;
 
   // Filter locks by end time (must be within 48 hours)
   // Fix invalid periods by recalculating from start_time
@@ -617,161 +338,188 @@ export async function findUnprocessedFocusLockPools(): Promise<PoolInfo[]> {
 }
 
 /**
- * Find the latest focus lock pool with locks
+ * Pool info for the latest focus lock
+ *
+ * Uses day/period from database if available, otherwise calculates
  */
-export async function findLatestFocusLockPool(): Promise<PoolInfo | null> {
-  const supabase = getSupabaseClient();
-
-  log.info('Finding latest focus lock pool');
-
-  // Find the latest focus lock with a valid lock_id and stake
-  const { data: locks, error } = await supabase
-    .from('focus_locks')
-    .select('start_time, day, period, lock_id')
-    .gt('stake_amount', 0)
-    .not('lock_id', 'is', null)
-    .order('start_time', { ascending: false })
-    .limit(1);
-
-  if (error) {
-    log.error({ error }, 'Failed to find latest focus lock pool');
-    throw new Error(`Database query failed: ${error.message}`);
-  }
+export function latestFocusLockPoolInfo(
+  lock: Pick<DatabaseFocusLockRecord, 'start_time' | 'day' | 'period'>
+): PoolInfo {
+  return {
+    day: lock.day ?? Math.floor(lock.start_time / 86400),
+    period: (lock.period ?? Math.floor((lock.start_time % 86400) / 43200)) as 0 | 1,
+  };
+}
 
-  if (!locks || locks.length === 0) {
-    log.warn('No focus locks found in database');
-    return null;
-  }
+/**
+ * Build alarm updates and claim data rows from signed claims
+ *
+ * @throws {Error} If any claim signature fails the self-check
+ */
+export async function buildAlarmClaimRows(
+  claims: PoolClaim<AlarmUser>[],
+  expiry: number
+): Promise<{ updates: AlarmBatchUpdate[]; inserts: ClaimDataInsert[] }> {
+  const alarmConfig = getAlarmConfig();
+  const domain = getClaimDomain(alarmConfig, getCoreConfig().starknetChainId);
+  assertValidSignatures(claims, await getVerifierPublicKeys(alarmConfig), (claim, publicKey) =>
+    verifyAlarmClaimSignature(claim.user, BigInt(expiry), claim.signature, domain, publicKey)
+  );
 
-  const latestLock = locks[0]!;
-  const latestStartTime = latestLock.start_time;
+  const updates: AlarmBatchUpdate[] = [];
+  const inserts: ClaimDataInsert[] = [];
 
-  // Use day/period from database if available, otherwise calculate
-  const poolInfo: PoolInfo = {
-    day: latestLock.day ?? Math.floor(latestStartTime / 86400),
-    period: (latestLock.period ?? Math.floor((latestStartTime % 86400) / 43200)) as 0 | 1,
-  };
+  for (const claim of claims) {
+    // Prepare alarm update
+    updates.push({
+      id: claim.user.alarm_uuid,
+      claim_ready: true,
+      has_claimed: false,
+    });
 
-  log.info(
-    {
-      day: poolInfo.day,
-      period: poolInfo.period,
-      latestStartTime,
-      lockId: latestLock.lock_id,
-      date: new Date(latestStartTime * 1000).toISOString(),
-    },
-    'Found latest focus lock pool'
-  );
+    // Prepare claim data insert
+    inserts.push({
+      alarm_id: claim.user.alarm_uuid,
+      signature_r: claim.signature.signature_r,
+      signature_s: claim.signature.signature_s,
+      message_hash: claim.signature.message_hash,
+      public_key: claim.signature.public_key,
+      key_id: claim.signature.key_id,
+      reward_amount: claim.reward_amount,
+      reward_weight: claim.reward_weight ?? null,
+      streak_length: claim.user.streak ?? null,
+      merkle_proof: JSON.stringify(claim.merkle_proof),
+      expiry_time: expiry,
+      processed_at: new Date().toISOString(),
+    });
+  }
 
-  return poolInfo;
+  return { updates, inserts };
 }
 
 /**
- * Store focus lock processing results to database
+ * Build focus lock updates and claim data rows from signed claims
  *
- * Steps:
- * 1. Batch update focus_locks table (claim_ready = true, has_claimed = false)
- * 2. Batch insert claim data with signatures and proofs
- *
- * IMPORTANT: Only call this AFTER blockchain transaction succeeds!
+ * @throws {Error} If any claim signature fails the self-check
  */
-export async function storeFocusLockResults(
-  users: FocusLockUser[],
-  rewards: FocusLockReward[],
-  merkleTree: MerkleTree,
-  config: FocusLockPoolConfig,
-  chainId: string,
+export async function buildFocusLockClaimRows(
+  claims: PoolClaim<FocusLockUser>[],
   expiry: number
-): Promise<void> {
-  const supabase = getSupabaseClient();
-
-  log.info({ userCount: users.length }, 'Storing focus lock results to database');
-
-  // Prepare batch updates and inserts
-  const lockUpdates: Array<{ id: string; claim_ready: boolean; has_claimed: boolean }> = [];
-  const claimDataInserts: FocusLockClaimData[] = [];
-
-  // Import crypto functions for signature generation
-  const { createFocusOutcomeSignature } = await import('./crypto.js');
+): Promise<{ updates: AlarmBatchUpdate[]; inserts: FocusLockClaimData[] }> {
+  const focusConfig = getFocusConfig();
+  if (!focusConfig) {
+    throw new Error('Focus lock configuration not available, cannot verify claim signatures');
+  }
 
-  for (const user of users) {
-    // Find reward for this lock
-    const userReward = rewards.find(
-      (r) => r.address === user.address && BigInt(r.session_id) === user.session_id
-    );
-    const rewardAmount = userReward ? userReward.reward_amount : '0';
-
-    // Get merkle proof (keyed by address_sessionid)
-    const proofKey = `${user.address}_${user.session_id}`;
-    const merkleProof = merkleTree.proofs[proofKey] ?? [];
-
-    // Generate SNIP-12 signature
-    const signature = createFocusOutcomeSignature(
-      user.address,
-      user.session_id,
-      user.start_time,
-      user.duration,
-      user.completion_status,
+  const domain = getClaimDomain(focusConfig, getCoreConfig().starknetChainId);
+  const signsLockedDuration = focusConfig.partial_return !== null;
+  assertValidSignatures(claims, await getVerifierPublicKeys(focusConfig), (claim, publicKey) =>
+    verifyFocusClaimSignature(
+      claim.user,
       BigInt(expiry),
-      config.contract_address,
-      chainId,
-      config.verifier_private_key
-    );
+      claim.signature,
+      domain,
+      publicKey,
+      signsLockedDuration ? claim.user.locked_duration : undefined
+    )
+  );
 
+  const updates: AlarmBatchUpdate[] = [];
+  const inserts: FocusLockClaimData[] = [];
+
+  for (const claim of claims) {
     // Prepare focus_locks update
-    lockUpdates.push({
-      id: user.focus_lock_id,
+    updates.push({
+      id: claim.user.focus_lock_id,
       claim_ready: true,
       has_claimed: false,
     });
 
     // Prepare claim data insert
-    claimDataInserts.push({
-      focus_lock_id: user.focus_lock_id,
-      signature_r: signature.signature_r,
-      signature_s: signature.signature_s,
-      message_hash: signature.message_hash,
-      reward_amount: rewardAmount.toString(),
-      merkle_proof: JSON.stringify(merkleProof),
+    inserts.push({
+      focus_lock_id: claim.user.focus_lock_id,
+      signature_r: claim.signature.signature_r,
+      signature_s: claim.signature.signature_s,
+      message_hash: claim.signature.message_hash,
+      public_key: claim.signature.public_key,
+      key_id: claim.signature.key_id,
+      locked_duration: signsLockedDuration ? claim.user.locked_duration.toString() : null,
+      reward_amount: claim.reward_amount,
+      merkle_proof: JSON.stringify(claim.merkle_proof),
       expiry_time: expiry,
       processed_at: new Date().toISOString(),
     });
   }
 
-  // Batch update focus_locks
-  log.info({ count: lockUpdates.length }, 'Updating focus lock records');
-
-  for (const update of lockUpdates) {
-    const { error } = await supabase
-      .from('focus_locks')
-      .update({
-        claim_ready: update.claim_ready,
-        has_claimed: update.has_claimed,
-      })
-      .eq('id', update.id);
-
-    if (error) {
-      log.error({ error, lockId: update.id }, 'Failed to update focus lock');
-      throw new Error(`Failed to update lock ${update.id}: ${error.message}`);
+  return { updates, inserts };
+}
+
+/**
+ * Self-check signed claims before any row is written
+ *
+ * A claim that would not verify on-chain must never reach the app.
+ * Each claim is checked against the configured key its key id names,
+ * never against the public key the signer reported.
+ *
+ * @param publicKeys Configured verifier public keys by key id
+ * @throws {Error} Listing the records whose signatures failed
+ */
+function assertValidSignatures<TUser extends BasePoolUser>(
+  claims: PoolClaim<TUser>[],
+  publicKeys: Map<string, string>,
+  verify: (claim: PoolClaim<TUser>, publicKey: string) => SignatureVerification
+): void {
+  const failed = claims.flatMap((claim) => {
+    const publicKey = publicKeys.get(claim.signature.key_id);
+    const verification = publicKey ? verify(claim, publicKey) : null;
+    if (verification?.valid) {
+      return [];
     }
+
+    log.error(
+      {
+        id: claim.user.uuid,
+        address: claim.user.address,
+        keyId: claim.signature.key_id,
+        keyConfigured: !!publicKey,
+        messageHashMatches: verification?.message_hash_matches,
+        signatureValid: verification?.signature_valid,
+      },
+      'Claim signature failed self-check'
+    );
+    return [claim.user.uuid];
+  });
+
+  if (failed.length > 0) {
+    throw new Error(
+      `Claim signature self-check failed for ${failed.length}/${claims.length} claims: ${failed.join(', ')}`
+    );
   }
 
-  logDatabaseOperation('update_focus_locks', lockUpdates.length);
+  log.debug({ claimCount: claims.length }, 'Claim signatures verified');
+}
 
-  // Batch insert claim data
-  log.info({ count: claimDataInserts.length }, 'Inserting focus lock claim data');
+/**
+ * Latest claim row (by processed_at), e.g. after a reconciled re-insert
+ */
+export function latestClaimRow<TClaim extends { processed_at: string }>(
+  rows: TClaim[]
+): TClaim | null {
+  return rows.reduce<TClaim | null>(
+    (latest, row) => (!latest || row.processed_at > latest.processed_at ? row : latest),
+    null
+  );
+}
 
-  const { error: insertError } = await supabase
-    .from('user_claim_data_locks')
-    .insert(claimDataInserts);
+/**
+ * Parse a stored merkle proof (JSON string column, or already parsed jsonb)
+ */
+export function parseMerkleProof(value: string | string[]): string[] {
+  const proof: unknown = typeof value === 'string' ? JSON.parse(value) : value;
 
-  if (insertError) {
-    log.error({ error: insertError }, 'Failed to insert focus lock claim data');
-    throw new Error(`Failed to insert claim data: ${insertError.message}`);
+  if (!Array.isArray(proof) || !proof.every((hash) => typeof hash === 'string')) {
+    throw new Error('Invalid stored merkle proof: expected an array of hashes');
   }
 
-  logDatabaseOperation('insert_focus_lock_claim_data', claimDataInserts.length);
-
-  log.info('Successfully stored all focus lock results to database');
+  return proof;
 }
-
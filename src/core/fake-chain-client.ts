@@ -0,0 +1,364 @@
+/**
+ * In-process fake Starknet chain
+ *
+ * Emulates the pool contract closely enough to run the full pool flow
+ * offline:
+ * - Keeps per-pool state (merkle root, finalized flag, reward, counts)
+ * - Keeps each contract's registered verifier key (unset reads as 0x0)
+ * - set_merkle_root_for_pool finalizes a pool; a second call reverts
+ * - Deterministic tx hashes (poseidon of nonce and calls)
+ * - Optional sponsored execution (paymaster; account nonce untouched)
+ * - Scripted failures (RPC errors) and reverts for exercising error paths
+ *
+ * State lives only in memory and is lost when the process exits.
+ */
+
+import { CallData, hash, Call } from 'starknet';
+import { createModuleLogger } from './logger.js';
+import { toHexString } from './calculator.js';
+import { OnChainPoolInfo } from '../types/common.js';
+import { ChainClient, ChainReceipt, ChainFeeEstimate } from '../types/chain.js';
+
+const log = createModuleLogger('fake-chain');
+
+/**
+ * Default fee charged per call in fee estimates (FRI)
+ */
+const DEFAULT_FEE_PER_CALL = 1_000_000_000_000_000n; // 0.001 STRK
+
+/**
+ * Tx hash domain tags (keep self-paid and sponsored hashes distinct)
+ */
+const SELF_PAID_TAG = 0n;
+const SPONSORED_TAG = 1n;
+
+/**
+ * ChainClient operations that can be scripted to fail
+ */
+export type FakeChainOperation =
+  | 'getNonce'
+  | 'execute'
+  | 'executeSponsored'
+  | 'waitForReceipt'
+  | 'getPoolInfo'
+  | 'getVerifierPublicKey'
+  | 'estimateFee';
+
+/**
+ * Fake chain options
+ */
+export interface FakeChainOptions {
+  feePerCall?: bigint; // Fee per call returned by estimateFee
+  sponsored?: boolean; // Whether a paymaster is available (default false)
+  verifiers?: () => Promise<Record<string, string>>; // Contract address -> verifier key registered on initialize
+}
+
+/**
+ * Chain client backed by in-process state
+ */
+export class FakeChainClient implements ChainClient {
+  readonly name = 'fake';
+  private readonly feePerCall: bigint;
+  private readonly sponsored: boolean;
+  private readonly loadVerifiers: (() => Promise<Record<string, string>>) | undefined;
+  private nonce = 0n;
+  private sponsoredCount = 0n;
+  private readonly pools = new Map<string, OnChainPoolInfo>();
+  private readonly verifiers = new Map<string, string>();
+  private readonly receipts = new Map<string, ChainReceipt>();
+  private readonly failures: Array<{ operation: FakeChainOperation; message: string }> = [];
+  private readonly reverts: string[] = [];
+  private readonly inclusionReverts: string[] = [];
+
+  constructor(options: FakeChainOptions = {}) {
+    this.feePerCall = options.feePerCall ?? DEFAULT_FEE_PER_CALL;
+    this.sponsored = options.sponsored ?? false;
+    this.loadVerifiers = options.verifiers;
+  }
+
+  async initialize(): Promise<void> {
+    // Contracts are deployed with the given verifiers unless one was set already
+    for (const [contractAddress, publicKey] of Object.entries(
+      (await this.loadVerifiers?.()) ?? {}
+    )) {
+      const key = contractKey(contractAddress);
+      if (!this.verifiers.has(key)) {
+        this.verifiers.set(key, toHexString(BigInt(publicKey)));
+      }
+    }
+
+    log.info({ verifiers: this.verifiers.size }, 'Fake chain initialized');
+  }
+
+  /**
+   * Make the next call of an operation throw (RPC-level failure)
+   */
+  failNext(operation: FakeChainOperation, message = `Fake ${operation} failure`): void {
+    this.failures.push({ operation, message });
+  }
+
+  /**
+   * Make the next simulated or executed transaction revert
+   *
+   * A simulation (estimateFee) fails; an executed transaction is included
+   * as REVERTED with state unchanged.
+   */
+  revertNext(reason = 'Fake revert'): void {
+    this.reverts.push(reason);
+  }
+
+  /**
+   * Make the next executed transaction revert while simulations still
+   * pass (e.g. state changed between pre-flight and inclusion)
+   */
+  revertNextInclusion(reason = 'Fake revert'): void {
+    this.inclusionReverts.push(reason);
+  }
+
+  /**
+   * Set on-chain pool state directly (e.g. user_count / total_staked from staking)
+   */
+  seedPool(
+    contractAddress: string,
+    day: number,
+    period: 0 | 1,
+    info: Partial<OnChainPoolInfo>
+  ): void {
+    const key = poolKey(contractAddress, day, period);
+    this.pools.set(key, { ...this.readPool(key), ...info });
+  }
+
+  /**
+   * Register a contract's verifier key (e.g. to rehearse a key rotation)
+   */
+  setVerifier(contractAddress: string, publicKey: string): void {
+    this.verifiers.set(contractKey(contractAddress), toHexString(BigInt(publicKey)));
+  }
+
+  async getNonce(): Promise<string> {
+    this.throwIfScripted('getNonce');
+    return toHexString(this.nonce);
+  }
+
+  async execute(calls: Call[], nonce: string): Promise<string> {
+    this.throwIfScripted('execute');
+
+    if (BigInt(nonce) !== this.nonce) {
+      throw new Error(
+        `Invalid transaction nonce: expected ${toHexString(this.nonce)}, got ${nonce}`
+      );
+    }
+
+    const txHash = computeTxHash(SELF_PAID_TAG, this.nonce, calls);
+    this.nonce += 1n;
+
+    return this.include(txHash, calls);
+  }
+
+  canSponsor(): boolean {
+    return this.sponsored;
+  }
+
+  async executeSponsored(calls: Call[]): Promise<string> {
+    this.throwIfScripted('executeSponsored');
+
+    if (!this.sponsored) {
+      throw new Error('Fake paymaster not enabled');
+    }
+
+    // Sponsored txs run as outside executions: the account nonce is untouched
+    const txHash = computeTxHash(SPONSORED_TAG, this.sponsoredCount, calls);
+    this.sponsoredCount += 1n;
+
+    return this.include(txHash, calls);
+  }
+
+  async waitForReceipt(txHash: string): Promise<ChainReceipt> {
+    this.throwIfScripted('waitForReceipt');
+
+    const receipt = this.receipts.get(toHexString(BigInt(txHash)));
+    if (!receipt) {
+      throw new Error(`Transaction hash not found: ${txHash}`);
+    }
+    return receipt;
+  }
+
+  async getPoolInfo(
+    contractAddress: string,
+    day: number,
+    period: 0 | 1
+  ): Promise<OnChainPoolInfo> {
+    this.throwIfScripted('getPoolInfo');
+    return this.readPool(poolKey(contractAddress, day, period));
+  }
+
+  async getVerifierPublicKey(contractAddress: string): Promise<string> {
+    this.throwIfScripted('getVerifierPublicKey');
+    return this.verifiers.get(contractKey(contractAddress)) ?? '0x0';
+  }
+
+  async estimateFee(calls: Call[]): Promise<ChainFeeEstimate> {
+    this.throwIfScripted('estimateFee');
+
+    const revertReason = this.reverts.shift() ?? this.validateCalls(calls);
+    if (revertReason) {
+      throw new Error(`Transaction execution has failed: ${revertReason}`);
+    }
+
+    return {
+      overall_fee: this.feePerCall * BigInt(calls.length),
+      unit: 'FRI',
+    };
+  }
+
+  /**
+   * Include a transaction: revert it or apply its calls atomically
+   */
+  private include(txHash: string, calls: Call[]): string {
+    // Scripted revert takes precedence; otherwise apply calls atomically
+    const revertReason =
+      this.inclusionReverts.shift() ?? this.reverts.shift() ?? this.validateCalls(calls);
+
+    if (revertReason) {
+      this.receipts.set(txHash, {
+        transaction_hash: txHash,
+        execution_status: 'REVERTED',
+        revert_reason: revertReason,
+      });
+      log.warn({ txHash, revertReason }, 'Fake transaction reverted');
+      return txHash;
+    }
+
+    for (const call of calls) {
+      this.applyCall(call);
+    }
+
+    this.receipts.set(txHash, { transaction_hash: txHash, execution_status: 'SUCCEEDED' });
+    log.info({ txHash, callCount: calls.length }, 'Fake transaction executed');
+
+    return txHash;
+  }
+
+  /**
+   * Throw if a failure was scripted for this operation
+   */
+  private throwIfScripted(operation: FakeChainOperation): void {
+    const index = this.failures.findIndex((f) => f.operation === operation);
+    if (index !== -1) {
+      const [failure] = this.failures.splice(index, 1);
+      throw new Error(failure!.message);
+    }
+  }
+
+  /**
+   * Pool state (unset pools read as all zeros, like the contract)
+   */
+  private readPool(key: string): OnChainPoolInfo {
+    return (
+      this.pools.get(key) ?? {
+        merkle_root: '0x0',
+        is_finalized: false,
+        pool_reward: 0n,
+        user_count: 0n,
+        total_staked: 0n,
+      }
+    );
+  }
+
+  /**
+   * Check calls against contract rules
+   * @returns Revert reason, or undefined if all calls would succeed
+   */
+  private validateCalls(calls: Call[]): string | undefined {
+    const finalizing = new Set<string>();
+
+    for (const call of calls) {
+      if (call.entrypoint !== 'set_merkle_root_for_pool') {
+        return `Unknown entrypoint: ${call.entrypoint}`;
+      }
+
+      const { key } = decodeSetMerkleRoot(call);
+      if (this.readPool(key).is_finalized || finalizing.has(key)) {
+        return 'Pool already finalized';
+      }
+      finalizing.add(key);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Apply a validated set_merkle_root_for_pool call
+   */
+  private applyCall(call: Call): void {
+    const { key, merkleRoot, newRewards } = decodeSetMerkleRoot(call);
+    this.pools.set(key, {
+      ...this.readPool(key),
+      merkle_root: toHexString(merkleRoot),
+      is_finalized: true,
+      pool_reward: newRewards,
+    });
+  }
+}
+
+/**
+ * Contract state key (normalized address)
+ */
+function contractKey(contractAddress: string): string {
+  return toHexString(BigInt(contractAddress));
+}
+
+/**
+ * Pool state key
+ */
+function poolKey(contractAddress: string, day: number, period: 0 | 1): string {
+  return `${contractKey(contractAddress)}_${day}_${period}`;
+}
+
+/**
+ * Decode set_merkle_root_for_pool calldata
+ *
+ * Calldata: (day, period, merkle_root, new_rewards.low, new_rewards.high,
+ * protocol_fees.low, protocol_fees.high)
+ */
+function decodeSetMerkleRoot(call: Call): {
+  key: string;
+  merkleRoot: bigint;
+  newRewards: bigint;
+} {
+  const felts = CallData.toCalldata(call.calldata).map((felt) => BigInt(felt));
+  if (felts.length < 7) {
+    throw new Error(
+      `Invalid set_merkle_root_for_pool calldata: expected 7 felts, got ${felts.length}`
+    );
+  }
+
+  const [day, period, merkleRoot, rewardsLow, rewardsHigh] = felts as [
+    bigint,
+    bigint,
+    bigint,
+    bigint,
+    bigint,
+  ];
+
+  return {
+    key: poolKey(call.contractAddress, Number(day), Number(period) as 0 | 1),
+    merkleRoot,
+    newRewards: rewardsLow + (rewardsHigh << 128n),
+  };
+}
+
+/**
+ * Deterministic tx hash: poseidon([tag, nonce, (contract, selector, ...calldata)...])
+ */
+function computeTxHash(tag: bigint, nonce: bigint, calls: Call[]): string {
+  const elements: bigint[] = [tag, nonce];
+  for (const call of calls) {
+    elements.push(
+      BigInt(call.contractAddress),
+      BigInt(hash.getSelectorFromName(call.entrypoint)),
+      ...CallData.toCalldata(call.calldata).map((felt) => BigInt(felt))
+    );
+  }
+  return toHexString(BigInt(hash.computePoseidonHashOnElements(elements)));
+}
@@ -0,0 +1,97 @@
+/**
+ * Protocol fee calculation and recipient splits
+ *
+ * The fee rate is configured per pool type in basis points
+ * (ALARM_PROTOCOL_FEE_BPS, FOCUS_PROTOCOL_FEE_BPS). The on-chain pool
+ * receives the protocol fees as one amount; the split across recipients
+ * (ALARM_FEE_SPLIT, FOCUS_FEE_SPLIT) is bookkeeping recorded per pool:
+ *
+ *   ALARM_FEE_SPLIT=treasury:7000,charity:2000,referral:1000
+ */
+
+import { FeeRecipient, FeeSplitEntry } from '../types/fees.js';
+
+/**
+ * Basis points in 100%
+ */
+export const BPS_BASE = 10_000n;
+
+/**
+ * Default protocol fee (10%)
+ */
+export const DEFAULT_PROTOCOL_FEE_BPS = 1000;
+
+/**
+ * Recipient of all protocol fees when no split is configured
+ */
+export const DEFAULT_FEE_RECIPIENT = 'treasury';
+
+/**
+ * Protocol fee on an amount (rounded down)
+ */
+export function calculateProtocolFee(amount: bigint, feeBps: number): bigint {
+  return (amount * BigInt(feeBps)) / BPS_BASE;
+}
+
+/**
+ * Parse a fee split spec (<name>:<share bps>,...); unset sends everything
+ * to the default recipient
+ *
+ * @throws {Error} If an entry is malformed, a name repeats or the shares
+ *   do not add up to 10000
+ */
+export function parseFeeSplit(spec: string | undefined): FeeRecipient[] {
+  if (!spec) {
+    return [{ name: DEFAULT_FEE_RECIPIENT, share_bps: Number(BPS_BASE) }];
+  }
+
+  const recipients = spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = /^([A-Za-z0-9._-]{1,64}):(\d+)$/.exec(entry);
+      if (!match) {
+        throw new Error(`Invalid fee split entry "${entry}": expected <name>:<share bps>`);
+      }
+      return { name: match[1]!, share_bps: Number(match[2]) };
+    });
+
+  const names = new Set<string>();
+  for (const { name, share_bps } of recipients) {
+    if (names.has(name)) {
+      throw new Error(`Fee split recipient ${name} is listed twice`);
+    }
+    if (share_bps === 0) {
+      throw new Error(`Fee split recipient ${name} has a zero share`);
+    }
+    names.add(name);
+  }
+
+  const total = recipients.reduce((sum, r) => sum + r.share_bps, 0);
+  if (total !== Number(BPS_BASE)) {
+    throw new Error(`Fee split shares must add up to ${BPS_BASE} bps, got ${total}`);
+  }
+
+  return recipients;
+}
+
+/**
+ * Split a pool's protocol fees across recipients
+ *
+ * Shares are rounded down; the rounding remainder goes to the first
+ * recipient, so the entries always add up to the protocol fees.
+ */
+export function splitProtocolFees(
+  protocolFees: bigint,
+  recipients: FeeRecipient[]
+): FeeSplitEntry[] {
+  const amounts = recipients.map((r) => (protocolFees * BigInt(r.share_bps)) / BPS_BASE);
+  const remainder = protocolFees - amounts.reduce((sum, amount) => sum + amount, 0n);
+
+  return recipients.map((recipient, index) => ({
+    recipient: recipient.name,
+    share_bps: recipient.share_bps,
+    amount: (amounts[index]! + (index === 0 ? remainder : 0n)).toString(),
+  }));
+}
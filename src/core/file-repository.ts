@@ -0,0 +1,66 @@
+/**
+ * JSON file storage backend
+ *
+ * Loads all tables from a single JSON file (same layout as
+ * PoolDataSnapshot) and writes the file back after every store.
+ * Handy for reproducing a pool locally from an exported snapshot.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { PoolDataSnapshot } from '../types/repository.js';
+import { InMemoryPoolRepository } from './memory-repository.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('database');
+
+/**
+ * Pool repository backed by a local JSON file
+ */
+export class FilePoolRepository extends InMemoryPoolRepository {
+  override readonly name = 'file';
+  private readonly path: string;
+
+  /**
+   * @param path JSON file path; a missing file starts as empty tables
+   */
+  constructor(path: string) {
+    const absolutePath = resolve(path);
+    super(existsSync(absolutePath) ? FilePoolRepository.load(absolutePath) : {});
+    this.path = absolutePath;
+
+    log.info({ path: absolutePath }, 'File storage initialized');
+  }
+
+  /**
+   * Read a snapshot from disk
+   */
+  private static load(path: string): Partial<PoolDataSnapshot> {
+    try {
+      return JSON.parse(readFileSync(path, 'utf8')) as Partial<PoolDataSnapshot>;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to read storage file ${path}: ${message}`);
+    }
+  }
+
+  /**
+   * Write the snapshot back atomically (write temp file, then rename)
+   *
+   * bigint on-chain IDs are written as JSON numbers (u64 IDs in use
+   * are far below 2^53).
+   */
+  protected override persist(): void {
+    const json = JSON.stringify(
+      this.data,
+      (_key, value) => (typeof value === 'bigint' ? Number(value) : value),
+      2
+    );
+    const tmpPath = `${this.path}.tmp`;
+
+    writeFileSync(tmpPath, json + '\n', 'utf8');
+    renameSync(tmpPath, this.path);
+
+    log.debug({ path: this.path }, 'Storage file written');
+  }
+}
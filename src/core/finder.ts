@@ -1,52 +1,57 @@
 /**
- * Alarm pool finder utilities
- * 
+ * Pool finder utilities
+ *
  * Provides functions to:
- * - Find latest alarm pool with alarms
- * - Find all unprocessed alarm pools
+ * - Find latest pool with users for any pool type
+ * - Find all unprocessed pools for any pool type
  * - Get current pool info
  */
 
-import {
-  findLatestAlarmPool as dbFindLatestAlarmPool,
-  findUnprocessedAlarmPools as dbFindUnprocessedAlarmPools,
-  calculatePoolInfo,
-} from '../core/database.js';
-import { PoolInfo } from '../types/common.js';
-import { createModuleLogger } from '../core/logger.js';
+import { BasePoolUser, PoolInfo } from '../types/common.js';
+import { PoolType } from '../types/pool.js';
+import { calculatePoolInfo } from './database.js';
+import { createModuleLogger } from './logger.js';
 
-const log = createModuleLogger('alarm-finder');
+const log = createModuleLogger('finder');
 
 /**
- * Find the latest alarm pool with alarms
- * @returns Pool info or null if no alarms found
+ * Find the latest pool with users
+ * @returns Pool info or null if no users found
  */
-export async function findLatestAlarmPool(): Promise<PoolInfo | null> {
-  log.info('Finding latest alarm pool');
-  const poolInfo = await dbFindLatestAlarmPool();
-  
+export async function findLatestPool<TUser extends BasePoolUser, TReward>(
+  poolType: PoolType<TUser, TReward>
+): Promise<PoolInfo | null> {
+  const label = poolType.displayName.toLowerCase();
+
+  log.info(`Finding latest ${label} pool`);
+  const poolInfo = await poolType.findLatestPool();
+
   if (poolInfo) {
     log.info(
       { day: poolInfo.day, period: poolInfo.period },
-      'Found latest alarm pool'
+      `Found latest ${label} pool`
     );
   } else {
-    log.warn('No alarm pools found');
+    log.warn(`No ${label} pools found`);
   }
-  
+
   return poolInfo;
 }
 
 /**
- * Find all unprocessed alarm pools
+ * Find all unprocessed pools
  * @returns Array of pool infos that need processing
  */
-export async function findUnprocessedAlarmPools(): Promise<PoolInfo[]> {
-  log.info('Finding unprocessed alarm pools');
-  const pools = await dbFindUnprocessedAlarmPools();
-  
-  log.info({ poolCount: pools.length }, 'Found unprocessed alarm pools');
-  
+export async function findUnprocessedPools<TUser extends BasePoolUser, TReward>(
+  poolType: PoolType<TUser, TReward>
+): Promise<PoolInfo[]> {
+  const label = poolType.displayName.toLowerCase();
+
+  log.info(`Finding unprocessed ${label} pools`);
+  const pools = await poolType.findUnprocessedPools();
+
+  log.info({ poolCount: pools.length }, `Found unprocessed ${label} pools`);
+
   return pools;
 }
 
@@ -57,7 +62,7 @@ export async function findUnprocessedAlarmPools(): Promise<PoolInfo[]> {
 export function getCurrentPoolInfo(): PoolInfo {
   const now = Math.floor(Date.now() / 1000);
   const poolInfo = calculatePoolInfo(now);
-  
+
   log.info(
     {
       day: poolInfo.day,
@@ -66,7 +71,7 @@ export function getCurrentPoolInfo(): PoolInfo {
     },
     'Calculated current pool info'
   );
-  
+
   return poolInfo;
 }
 
@@ -76,13 +81,13 @@ export function getCurrentPoolInfo(): PoolInfo {
 export function displayPoolInfo(poolInfo: PoolInfo): string {
   const { day, period } = poolInfo;
   const periodName = period === 0 ? 'AM (00:00-11:59 UTC)' : 'PM (12:00-23:59 UTC)';
-  
+
   // Calculate actual date range
   const periodStart = day * 86400 + period * 43200;
   const periodEnd = periodStart + 43200;
   const startDate = new Date(periodStart * 1000);
   const endDate = new Date(periodEnd * 1000);
-  
+
   return [
     `Day: ${day}`,
     `Period: ${period} (${periodName})`,
@@ -90,4 +95,3 @@ export function displayPoolInfo(poolInfo: PoolInfo): string {
     `End: ${endDate.toISOString()}`,
   ].join('\n');
 }
-
@@ -0,0 +1,84 @@
+/**
+ * Focus lock weighting strategies
+ *
+ * Winner rewards are shared by lock weight. stake × duration lets one large
+ * multi-hour lock absorb most of a pool, so the weight is selectable with
+ * FOCUS_WEIGHTING:
+ *
+ * - linear (default): stake × duration
+ * - sqrt-stake: √stake × duration
+ * - capped-duration: stake × min(duration, FOCUS_WEIGHTING_DURATION_CAP_MINUTES)
+ * - log-stake: log2(1 + stake) × duration
+ *
+ * Weights are integers (log2 in 16-bit fixed point), so a pool always
+ * recalculates to the same merkle root.
+ */
+
+import { FocusWeighting } from '../types/focus.js';
+
+/**
+ * Fractional bits of log2 weights
+ */
+const LOG2_FRACTION_BITS = 16n;
+
+/**
+ * Weight of a lock under a weighting strategy
+ */
+export function calculateFocusWeight(
+  stakeAmount: bigint,
+  duration: bigint,
+  weighting: FocusWeighting
+): bigint {
+  switch (weighting.strategy) {
+    case 'linear':
+      return stakeAmount * duration;
+    case 'sqrt-stake':
+      return integerSqrt(stakeAmount) * duration;
+    case 'capped-duration': {
+      const cap = BigInt(weighting.duration_cap ?? 0);
+      return stakeAmount * (duration < cap ? duration : cap);
+    }
+    case 'log-stake':
+      return log2Fixed(stakeAmount + 1n) * duration;
+  }
+}
+
+/**
+ * Largest integer whose square is at most value
+ */
+function integerSqrt(value: bigint): bigint {
+  if (value < 2n) {
+    return value < 0n ? 0n : value;
+  }
+
+  // Newton's method from an estimate above the root
+  let root = 1n << BigInt(Math.ceil(value.toString(2).length / 2));
+  for (;;) {
+    const next = (root + value / root) >> 1n;
+    if (next >= root) {
+      return root;
+    }
+    root = next;
+  }
+}
+
+/**
+ * log2(value) in fixed point with LOG2_FRACTION_BITS fractional bits (value >= 1)
+ */
+function log2Fixed(value: bigint): bigint {
+  const integerPart = BigInt(value.toString(2).length - 1);
+  const one = 1n << LOG2_FRACTION_BITS;
+
+  // Mantissa in [1, 2), then one fractional bit per squaring
+  let mantissa = (value << LOG2_FRACTION_BITS) >> integerPart;
+  let fraction = 0n;
+  for (let bit = LOG2_FRACTION_BITS - 1n; bit >= 0n; bit--) {
+    mantissa = (mantissa * mantissa) >> LOG2_FRACTION_BITS;
+    if (mantissa >= 2n * one) {
+      mantissa >>= 1n;
+      fraction |= 1n << bit;
+    }
+  }
+
+  return (integerPart << LOG2_FRACTION_BITS) | fraction;
+}
@@ -0,0 +1,124 @@
+/**
+ * Crash-safe processing journal
+ *
+ * Records the progress of every pool run in the storage backend
+ * (processing_journal table) so a run that dies between on-chain
+ * finalization and database storage can be resumed from the recorded
+ * state instead of being recomputed from scratch.
+ *
+ * Stages (in order):
+ * - computed:  merkle root and expiry fixed, nothing sent yet
+ * - submitted: transaction broadcast, hash known
+ * - finalized: merkle root confirmed on-chain
+ * - stored:    claims stored to database (run complete)
+ */
+
+import { createHash } from 'node:crypto';
+import { JournalEntry, JournalStage } from '../types/journal.js';
+import { getPoolRepository } from './repository.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('journal');
+
+/**
+ * Hash pool inputs so a resume can detect changed data
+ *
+ * bigint values are serialized as decimal strings.
+ */
+export function computeInputsHash(users: readonly object[]): string {
+  const json = JSON.stringify(users, (_key, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+  return '0x' + createHash('sha256').update(json).digest('hex');
+}
+
+/**
+ * Read the journal entry for a pool
+ * @returns Entry or null if the pool has no journal entry
+ */
+export function readJournalEntry(
+  poolType: string,
+  day: number,
+  period: 0 | 1
+): Promise<JournalEntry | null> {
+  return getPoolRepository().findJournalEntry(poolType, day, period);
+}
+
+/**
+ * Write a journal entry (insert or replace the pool's entry)
+ */
+export async function writeJournalEntry(entry: JournalEntry): Promise<JournalEntry> {
+  await getPoolRepository().saveJournalEntry(entry);
+
+  log.debug(
+    {
+      poolType: entry.pool_type,
+      pool: { day: entry.day, period: entry.period },
+      stage: entry.stage,
+      txHash: entry.tx_hash,
+    },
+    'Journal entry written'
+  );
+
+  return entry;
+}
+
+/**
+ * Advance a journal entry to a new stage
+ */
+export function advanceJournalEntry(
+  entry: JournalEntry,
+  stage: JournalStage,
+  updates: Partial<Pick<JournalEntry, 'tx_hash' | 'fee_mode'>> = {}
+): Promise<JournalEntry> {
+  log.info(
+    {
+      poolType: entry.pool_type,
+      pool: { day: entry.day, period: entry.period },
+      from: entry.stage,
+      to: stage,
+    },
+    'Journal stage advanced'
+  );
+
+  return writeJournalEntry({
+    ...entry,
+    ...updates,
+    stage,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Move a journal entry back to 'computed' after its recorded transaction
+ * reverted or was dropped, forgetting the transaction
+ */
+export function rewindJournalEntry(entry: JournalEntry): Promise<JournalEntry> {
+  const { tx_hash, fee_mode, ...computed } = entry;
+
+  log.warn(
+    {
+      poolType: entry.pool_type,
+      pool: { day: entry.day, period: entry.period },
+      from: entry.stage,
+      txHash: tx_hash,
+      feeMode: fee_mode,
+    },
+    'Journal stage rewound, recorded transaction did not finalize the pool'
+  );
+
+  return writeJournalEntry({
+    ...computed,
+    stage: 'computed',
+    updated_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * List all journal entries that have not reached the 'stored' stage
+ *
+ * @param poolType Optional pool type filter
+ */
+export function listIncompleteJournalEntries(poolType?: string): Promise<JournalEntry[]> {
+  return getPoolRepository().fetchIncompleteJournalEntries(poolType);
+}
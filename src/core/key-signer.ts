@@ -0,0 +1,44 @@
+/**
+ * Private key signer
+ *
+ * Signs with a Stark private key held in process memory. Used for keys
+ * from the environment and, once unlocked, for keystore files.
+ */
+
+import { ec } from 'starknet';
+import { Signer, StarkSignature } from '../types/signer.js';
+import { toHexString } from './calculator.js';
+
+/**
+ * Signer for an in-memory private key
+ */
+export class PrivateKeySigner implements Signer {
+  private readonly privateKey: string;
+
+  /**
+   * @param privateKey Stark private key (hex, with or without 0x)
+   * @param name Backend name for logs
+   */
+  constructor(
+    privateKey: string,
+    readonly name: string = 'env'
+  ) {
+    // Needs 0x prefix for getStarkKey
+    this.privateKey = privateKey.startsWith('0x') ? privateKey : '0x' + privateKey;
+  }
+
+  async getPublicKey(): Promise<string> {
+    return toHexString(ec.starkCurve.getStarkKey(this.privateKey));
+  }
+
+  async signHash(messageHash: string): Promise<StarkSignature> {
+    // CRITICAL: Sign as raw hex padded to 64 chars (32 bytes), no 0x prefix
+    const msgHex = BigInt(messageHash).toString(16).padStart(64, '0');
+    const signature = ec.starkCurve.sign(msgHex, this.privateKey.slice(2));
+
+    return {
+      r: toHexString(signature.r),
+      s: toHexString(signature.s),
+    };
+  }
+}
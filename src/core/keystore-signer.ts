@@ -0,0 +1,179 @@
+/**
+ * Encrypted keystore signer
+ *
+ * Keystore file (JSON):
+ * - the private key encrypted with AES-256-GCM
+ * - the encryption key derived from a passphrase with scrypt
+ * - the public key in clear, checked after unlocking
+ *
+ * The file is unlocked on first use; the key is then held in memory
+ * for the rest of the process. Use the remote signer to keep keys out
+ * of the processor entirely.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, ScryptOptions } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { ec } from 'starknet';
+import { Signer, StarkSignature } from '../types/signer.js';
+import { PrivateKeySigner } from './key-signer.js';
+import { toHexString } from './calculator.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('keystore');
+
+/**
+ * Keystore file format version
+ */
+const KEYSTORE_VERSION = 1;
+
+/**
+ * scrypt cost for new keystores (128 MiB, about a second to unlock)
+ */
+const DEFAULT_SCRYPT_PARAMS = { n: 2 ** 17, r: 8, p: 1 };
+
+/**
+ * Keystore file contents
+ */
+export interface KeystoreFile {
+  version: number;
+  public_key: string; // Stark public key of the encrypted private key
+  crypto: {
+    kdf: 'scrypt';
+    kdfparams: { n: number; r: number; p: number; salt: string }; // salt as hex
+    cipher: 'aes-256-gcm';
+    iv: string; // hex
+    tag: string; // GCM auth tag, hex
+    ciphertext: string; // hex
+  };
+}
+
+/**
+ * Encrypt a private key into a keystore
+ */
+export async function encryptKeystore(
+  privateKey: string,
+  passphrase: string
+): Promise<KeystoreFile> {
+  const normalizedPrivateKey = privateKey.startsWith('0x') ? privateKey : '0x' + privateKey;
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+  const key = await deriveKey(passphrase, { ...DEFAULT_SCRYPT_PARAMS, salt: salt.toString('hex') });
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(normalizedPrivateKey, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return {
+    version: KEYSTORE_VERSION,
+    public_key: toHexString(ec.starkCurve.getStarkKey(normalizedPrivateKey)),
+    crypto: {
+      kdf: 'scrypt',
+      kdfparams: { ...DEFAULT_SCRYPT_PARAMS, salt: salt.toString('hex') },
+      cipher: 'aes-256-gcm',
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('hex'),
+    },
+  };
+}
+
+/**
+ * Decrypt the private key of a keystore
+ *
+ * @throws {Error} If the passphrase is wrong or the file was modified
+ */
+export async function decryptKeystore(keystore: KeystoreFile, passphrase: string): Promise<string> {
+  if (keystore.version !== KEYSTORE_VERSION) {
+    throw new Error(`Unsupported keystore version: ${keystore.version}`);
+  }
+
+  const { kdfparams, iv, tag, ciphertext } = keystore.crypto;
+  const key = await deriveKey(passphrase, kdfparams);
+
+  let privateKey: string;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(tag, 'hex'));
+    privateKey = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'hex')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    // GCM authentication failed
+    throw new Error('Failed to unlock keystore: wrong passphrase or corrupted file');
+  }
+
+  if (BigInt(ec.starkCurve.getStarkKey(privateKey)) !== BigInt(keystore.public_key)) {
+    throw new Error('Keystore public key does not match the decrypted private key');
+  }
+
+  return privateKey;
+}
+
+/**
+ * Signer for a key in an encrypted keystore file
+ */
+export class KeystoreSigner implements Signer {
+  readonly name = 'keystore';
+  private unlocked: Promise<PrivateKeySigner> | null = null;
+
+  constructor(
+    private readonly path: string,
+    private readonly passphrase: string
+  ) {}
+
+  async getPublicKey(): Promise<string> {
+    return (await this.unlock()).getPublicKey();
+  }
+
+  async signHash(messageHash: string): Promise<StarkSignature> {
+    return (await this.unlock()).signHash(messageHash);
+  }
+
+  /**
+   * Read and decrypt the keystore once (concurrent callers share the unlock)
+   */
+  private unlock(): Promise<PrivateKeySigner> {
+    if (!this.unlocked) {
+      this.unlocked = (async () => {
+        const keystore = JSON.parse(readFileSync(this.path, 'utf8')) as KeystoreFile;
+        const signer = new PrivateKeySigner(
+          await decryptKeystore(keystore, this.passphrase),
+          this.name
+        );
+
+        log.info({ path: this.path, publicKey: keystore.public_key }, 'Keystore unlocked');
+        return signer;
+      })();
+
+      // Allow a retry after a failed unlock (e.g. file not mounted yet)
+      this.unlocked.catch(() => {
+        this.unlocked = null;
+      });
+    }
+    return this.unlocked;
+  }
+}
+
+/**
+ * Derive the AES key from a passphrase
+ */
+function deriveKey(
+  passphrase: string,
+  params: { n: number; r: number; p: number; salt: string }
+): Promise<Buffer> {
+  const options: ScryptOptions = {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * params.n * params.r, // 2x the scrypt working set
+  };
+
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, Buffer.from(params.salt, 'hex'), 32, options, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
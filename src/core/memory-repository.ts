@@ -0,0 +1,618 @@
+/**
+ * In-memory storage backend
+ *
+ * Keeps all tables in process memory. Used for local runs and
+ * rehearsals without a Supabase project, and as the base of the
+ * file backend.
+ *
+ * Query semantics mirror the Supabase backend exactly (same filters,
+ * same ordering) so pools compute to the same merkle roots.
+ */
+
+import { PoolInfo } from '../types/index.js';
+import { AlarmUser, DatabaseAlarmRecord, ClaimDataInsert } from '../types/alarm.js';
+import {
+  FocusLockUser,
+  DatabaseFocusLockRecord,
+  FocusLockClaimData,
+} from '../types/focus.js';
+import { PoolClaim } from '../types/pool.js';
+import { RolloverEntry } from '../types/rollover.js';
+import { JournalEntry } from '../types/journal.js';
+import { TokenConfig } from '../types/token.js';
+import {
+  PoolRepository,
+  PoolDataSnapshot,
+  StoredClaimRecord,
+} from '../types/repository.js';
+import {
+  calculatePoolInfo,
+  calculateTimeRange,
+  toAlarmUser,
+  toFocusLockUser,
+  recordTokenSymbol,
+  requireRecordToken,
+  distinctTokenSymbols,
+  groupUnprocessedAlarmPools,
+  groupUnprocessedFocusLockPools,
+  latestFocusLockPoolInfo,
+  buildAlarmClaimRows,
+  buildFocusLockClaimRows,
+  latestClaimRow,
+} from './database.js';
+import { countStreak } from './streaks.js';
+import { getAlarmConfig, getFocusToken } from './config.js';
+import { createModuleLogger, logDatabaseOperation } from './logger.js';
+
+const log = createModuleLogger('database');
+
+/**
+ * Create an empty snapshot
+ */
+export function createEmptySnapshot(): PoolDataSnapshot {
+  return {
+    alarms: [],
+    focus_locks: [],
+    wallets: [],
+    user_claim_data: [],
+    user_claim_data_locks: [],
+    rollover_ledger: [],
+    processing_journal: [],
+  };
+}
+
+/**
+ * Whether an on-chain ID column is set (NOT NULL)
+ */
+function hasOnChainId(id: bigint | number | null | undefined): boolean {
+  return id !== null && id !== undefined;
+}
+
+/**
+ * Pool repository backed by in-process tables
+ */
+export class InMemoryPoolRepository implements PoolRepository {
+  readonly name: string = 'memory';
+  protected data: PoolDataSnapshot;
+
+  constructor(data: Partial<PoolDataSnapshot> = {}) {
+    this.data = { ...createEmptySnapshot(), ...data };
+  }
+
+  /**
+   * Current table contents (live reference)
+   */
+  snapshot(): PoolDataSnapshot {
+    return this.data;
+  }
+
+  /**
+   * Called after every write; no-op for the in-memory backend
+   */
+  protected persist(): void {}
+
+  /**
+   * Resolve deployed wallet addresses (wallets with is_deployed = true)
+   */
+  async resolveWallets(userIds: string[]): Promise<Map<string, string>> {
+    const wanted = new Set(userIds);
+    const walletMap = new Map<string, string>();
+
+    for (const wallet of this.data.wallets) {
+      if (wanted.has(wallet.user_id) && wallet.is_deployed && wallet.deployed_address) {
+        walletMap.set(wallet.user_id, wallet.deployed_address);
+      }
+    }
+
+    return walletMap;
+  }
+
+  /**
+   * Fetch alarms from a specific pool (same filters as the Supabase backend)
+   */
+  async fetchAlarmsFromPool(
+    day: number,
+    period: 0 | 1,
+    token: TokenConfig
+  ): Promise<AlarmUser[]> {
+    const { periodStart, periodEnd } = calculateTimeRange(day, period);
+    const defaultToken = getAlarmConfig().token;
+
+    log.info(
+      { day, period, periodStart, periodEnd, token: token.symbol },
+      'Fetching alarms from pool'
+    );
+
+    const alarms = this.stakedAlarms(day, period)
+      .filter((alarm) => recordTokenSymbol(alarm, defaultToken) === token.symbol)
+      .sort((a, b) => a.wakeup_time - b.wakeup_time);
+
+    if (alarms.length === 0) {
+      log.warn({ day, period }, 'No alarms found for pool');
+      return [];
+    }
+
+    const walletMap = await this.resolveWallets([
+      ...new Set(alarms.map((alarm) => alarm.user_id)),
+    ]);
+
+    // Only include alarms with valid wallet addresses
+    const transformedAlarms = alarms
+      .filter((alarm) => walletMap.has(alarm.user_id))
+      .map((alarm) => toAlarmUser(alarm, walletMap.get(alarm.user_id) ?? '', token));
+
+    logDatabaseOperation('fetch_alarms', transformedAlarms.length, { day, period });
+
+    return transformedAlarms;
+  }
+
+  /**
+   * Find all unprocessed alarm pools
+   */
+  async findUnprocessedAlarmPools(token: TokenConfig): Promise<PoolInfo[]> {
+    log.info({ token: token.symbol }, 'Finding unprocessed alarm pools');
+
+    const defaultToken = getAlarmConfig().token;
+    const alarms = this.data.alarms
+      .filter(
+        (alarm) =>
+          !alarm.claim_ready && recordTokenSymbol(alarm, defaultToken) === token.symbol
+      )
+      .sort((a, b) => a.wakeup_time - b.wakeup_time);
+
+    return groupUnprocessedAlarmPools(alarms);
+  }
+
+  /**
+   * Find the latest alarm pool with alarms
+   */
+  async findLatestAlarmPool(token: TokenConfig): Promise<PoolInfo | null> {
+    log.info({ token: token.symbol }, 'Finding latest alarm pool');
+
+    const defaultToken = getAlarmConfig().token;
+    const latest = this.data.alarms
+      .filter(
+        (alarm) =>
+          alarm.stake_amount > 0 &&
+          hasOnChainId(alarm.alarm_id) &&
+          !alarm.deleted &&
+          recordTokenSymbol(alarm, defaultToken) === token.symbol
+      )
+      .reduce<DatabaseAlarmRecord | null>(
+        (best, alarm) => (!best || alarm.wakeup_time > best.wakeup_time ? alarm : best),
+        null
+      );
+
+    if (!latest) {
+      log.warn('No alarms found in database');
+      return null;
+    }
+
+    const poolInfo = calculatePoolInfo(latest.wakeup_time);
+    log.info({ ...poolInfo, latestWakeupTime: latest.wakeup_time }, 'Found latest alarm pool');
+
+    return poolInfo;
+  }
+
+  /**
+   * Find the stake tokens of a pool's staked alarms
+   */
+  async findAlarmPoolTokens(day: number, period: 0 | 1): Promise<string[]> {
+    return distinctTokenSymbols(this.stakedAlarms(day, period), getAlarmConfig().token);
+  }
+
+  /**
+   * Store alarm processing results
+   */
+  async storeAlarmResults(claims: PoolClaim<AlarmUser>[], expiry: number): Promise<void> {
+    log.info({ userCount: claims.length }, 'Storing alarm results to database');
+
+    const { updates, inserts } = await buildAlarmClaimRows(claims, expiry);
+
+    for (const update of updates) {
+      const alarm = this.data.alarms.find((a) => a.id === update.id);
+      if (alarm) {
+        alarm.claim_ready = update.claim_ready;
+        alarm.has_claimed = update.has_claimed;
+      }
+    }
+    logDatabaseOperation('update_alarms', updates.length);
+
+    this.data.user_claim_data.push(...inserts);
+    logDatabaseOperation('insert_claim_data', inserts.length);
+
+    this.persist();
+  }
+
+  /**
+   * Find the stored claim of an alarm
+   */
+  async findAlarmClaim(
+    alarmId: string,
+    token: TokenConfig
+  ): Promise<StoredClaimRecord<AlarmUser, ClaimDataInsert> | null> {
+    const claim = latestClaimRow(
+      this.data.user_claim_data.filter((row) => row.alarm_id === alarmId)
+    );
+
+    if (!claim) {
+      log.warn({ alarmId }, 'No claim data found for alarm');
+      return null;
+    }
+
+    const alarm = this.data.alarms.find((a) => a.id === alarmId);
+    if (!alarm) {
+      throw new Error(`Alarm ${alarmId} not found`);
+    }
+    requireRecordToken(`Alarm ${alarmId}`, alarm, token, getAlarmConfig().token);
+
+    const address = await this.resolveWallet(alarm.user_id);
+
+    return {
+      user: toAlarmUser(alarm, address, token),
+      pool: calculatePoolInfo(alarm.wakeup_time),
+      claim,
+    };
+  }
+
+  /**
+   * Latest stored claim row of each alarm
+   */
+  async fetchAlarmClaims(alarmIds: string[]): Promise<Map<string, ClaimDataInsert>> {
+    const claims = new Map<string, ClaimDataInsert>();
+
+    for (const alarmId of new Set(alarmIds)) {
+      const claim = latestClaimRow(
+        this.data.user_claim_data.filter((row) => row.alarm_id === alarmId)
+      );
+      if (claim) {
+        claims.set(alarmId, claim);
+      }
+    }
+
+    return claims;
+  }
+
+  /**
+   * Count alarm owners' streaks from settled alarms
+   */
+  async fetchAlarmStreaks(
+    alarmIds: string[],
+    since: number,
+    before: number,
+    limit: number
+  ): Promise<Map<string, number>> {
+    const claimed = new Set(this.data.user_claim_data.map((row) => row.alarm_id));
+    const userStreaks = new Map<string, number>();
+    const streaks = new Map<string, number>();
+
+    for (const alarmId of alarmIds) {
+      const alarm = this.data.alarms.find((a) => a.id === alarmId);
+      if (!alarm) {
+        continue;
+      }
+
+      let streak = userStreaks.get(alarm.user_id);
+      if (streak === undefined) {
+        const history = this.data.alarms
+          .filter(
+            (a) =>
+              a.user_id === alarm.user_id &&
+              a.wakeup_time >= since &&
+              a.wakeup_time < before &&
+              a.stake_amount > 0 &&
+              !a.deleted &&
+              a.claim_ready &&
+              claimed.has(a.id)
+          )
+          .sort((a, b) => b.wakeup_time - a.wakeup_time)
+          .slice(0, limit);
+        streak = countStreak(history);
+        userStreaks.set(alarm.user_id, streak);
+      }
+      streaks.set(alarmId, streak);
+    }
+
+    logDatabaseOperation('fetch_alarm_streaks', userStreaks.size);
+
+    return streaks;
+  }
+
+  /**
+   * Fetch focus locks from a specific pool (same filters as the Supabase backend)
+   */
+  async fetchFocusLocksFromPool(
+    day: number,
+    period: 0 | 1,
+    token: TokenConfig
+  ): Promise<FocusLockUser[]> {
+    log.info({ day, period, token: token.symbol }, 'Fetching focus locks from pool');
+
+    // Validate period (only 0-1 valid for 12-hour periods)
+    if (period >= 2) {
+      log.warn(
+        { day, period },
+        'Invalid period requested - only periods 0-1 are supported (12-hour pools)'
+      );
+      return [];
+    }
+
+    const defaultToken = getFocusToken();
+    const locks = this.stakedFocusLocks(day, period)
+      .filter((lock) => recordTokenSymbol(lock, defaultToken) === token.symbol)
+      .sort((a, b) => a.start_time - b.start_time);
+
+    if (locks.length === 0) {
+      log.warn({ day, period }, 'No focus locks found for pool');
+      return [];
+    }
+
+    const walletMap = await this.resolveWallets([
+      ...new Set(locks.map((lock) => lock.user_id)),
+    ]);
+
+    // Only include locks with valid wallet addresses
+    const transformedLocks = locks
+      .filter((lock) => walletMap.has(lock.user_id))
+      .map((lock) => toFocusLockUser(lock, walletMap.get(lock.user_id) ?? '', token));
+
+    logDatabaseOperation('fetch_focus_locks', transformedLocks.length, { day, period });
+
+    return transformedLocks;
+  }
+
+  /**
+   * Find all unprocessed focus lock pools
+   *
+   * Works on copies so the period fix does not rewrite stored rows
+   * (matches the Supabase backend, which never writes it back).
+   */
+  async findUnprocessedFocusLockPools(token: TokenConfig): Promise<PoolInfo[]> {
+    log.info({ token: token.symbol }, 'Finding unprocessed focus lock pools');
+
+    const defaultToken = getFocusToken();
+    const locks = this.data.focus_locks
+      .filter(
+        (lock) => !lock.claim_ready && recordTokenSymbol(lock, defaultToken) === token.symbol
+      )
+      .sort((a, b) => a.start_time - b.start_time)
+      .map(({ id, start_time, duration_minutes, day, period }) => ({
+        id,
+        start_time,
+        duration_minutes,
+        day,
+        period,
+      }));
+
+    return groupUnprocessedFocusLockPools(locks);
+  }
+
+  /**
+   * Find the latest focus lock pool with locks
+   */
+  async findLatestFocusLockPool(token: TokenConfig): Promise<PoolInfo | null> {
+    log.info({ token: token.symbol }, 'Finding latest focus lock pool');
+
+    const defaultToken = getFocusToken();
+    const latest = this.data.focus_locks
+      .filter(
+        (lock) =>
+          parseFloat(lock.stake_amount) > 0 &&
+          hasOnChainId(lock.lock_id) &&
+          recordTokenSymbol(lock, defaultToken) === token.symbol
+      )
+      .reduce<DatabaseFocusLockRecord | null>(
+        (best, lock) => (!best || lock.start_time > best.start_time ? lock : best),
+        null
+      );
+
+    if (!latest) {
+      log.warn('No focus locks found in database');
+      return null;
+    }
+
+    const poolInfo = latestFocusLockPoolInfo(latest);
+    log.info(
+      { ...poolInfo, latestStartTime: latest.start_time },
+      'Found latest focus lock pool'
+    );
+
+    return poolInfo;
+  }
+
+  /**
+   * Find the stake tokens of a pool's staked focus locks
+   */
+  async findFocusLockPoolTokens(day: number, period: 0 | 1): Promise<string[]> {
+    return distinctTokenSymbols(this.stakedFocusLocks(day, period), getFocusToken());
+  }
+
+  /**
+   * Store focus lock processing results
+   */
+  async storeFocusLockResults(
+    claims: PoolClaim<FocusLockUser>[],
+    expiry: number
+  ): Promise<void> {
+    log.info({ userCount: claims.length }, 'Storing focus lock results to database');
+
+    const { updates, inserts } = await buildFocusLockClaimRows(claims, expiry);
+
+    for (const update of updates) {
+      const lock = this.data.focus_locks.find((l) => l.id === update.id);
+      if (lock) {
+        lock.claim_ready = update.claim_ready;
+        lock.has_claimed = update.has_claimed;
+      }
+    }
+    logDatabaseOperation('update_focus_locks', updates.length);
+
+    this.data.user_claim_data_locks.push(...inserts);
+    logDatabaseOperation('insert_focus_lock_claim_data', inserts.length);
+
+    this.persist();
+  }
+
+  /**
+   * Latest claim row of each focus lock
+   */
+  async fetchFocusLockClaims(focusLockIds: string[]): Promise<Map<string, FocusLockClaimData>> {
+    const claims = new Map<string, FocusLockClaimData>();
+
+    for (const focusLockId of new Set(focusLockIds)) {
+      const claim = latestClaimRow(
+        this.data.user_claim_data_locks.filter((row) => row.focus_lock_id === focusLockId)
+      );
+      if (claim) {
+        claims.set(focusLockId, claim);
+      }
+    }
+
+    return claims;
+  }
+
+  /**
+   * Find the stored claim of a focus lock
+   */
+  async findFocusLockClaim(
+    focusLockId: string,
+    token: TokenConfig
+  ): Promise<StoredClaimRecord<FocusLockUser, FocusLockClaimData> | null> {
+    const claim = latestClaimRow(
+      this.data.user_claim_data_locks.filter((row) => row.focus_lock_id === focusLockId)
+    );
+
+    if (!claim) {
+      log.warn({ focusLockId }, 'No claim data found for focus lock');
+      return null;
+    }
+
+    const lock = this.data.focus_locks.find((l) => l.id === focusLockId);
+    if (!lock) {
+      throw new Error(`Focus lock ${focusLockId} not found`);
+    }
+    requireRecordToken(`Focus lock ${focusLockId}`, lock, token, getFocusToken());
+
+    const address = await this.resolveWallet(lock.user_id);
+
+    return {
+      user: toFocusLockUser(lock, address, token),
+      pool: latestFocusLockPoolInfo(lock),
+      claim,
+    };
+  }
+
+  /**
+   * Fetch the rollover ledger of a pool type
+   */
+  async fetchRolloverEntries(poolType: string): Promise<RolloverEntry[]> {
+    return this.data.rollover_ledger
+      .filter((entry) => entry.pool_type === poolType)
+      .sort((a, b) => a.day - b.day || a.period - b.period)
+      .map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Insert or update a rollover ledger row
+   */
+  async saveRolloverEntry(entry: RolloverEntry): Promise<void> {
+    const index = this.data.rollover_ledger.findIndex(
+      (row) =>
+        row.pool_type === entry.pool_type && row.day === entry.day && row.period === entry.period
+    );
+
+    if (index === -1) {
+      this.data.rollover_ledger.push({ ...entry });
+    } else {
+      this.data.rollover_ledger[index] = { ...entry };
+    }
+    logDatabaseOperation('save_rollover_entry', 1, { day: entry.day, period: entry.period });
+
+    this.persist();
+  }
+
+  /**
+   * Find the journal entry of a pool run
+   */
+  async findJournalEntry(
+    poolType: string,
+    day: number,
+    period: 0 | 1
+  ): Promise<JournalEntry | null> {
+    const entry = this.data.processing_journal.find(
+      (row) => row.pool_type === poolType && row.day === day && row.period === period
+    );
+    return entry ? { ...entry } : null;
+  }
+
+  /**
+   * Insert or replace the journal entry of a pool run
+   */
+  async saveJournalEntry(entry: JournalEntry): Promise<void> {
+    const index = this.data.processing_journal.findIndex(
+      (row) =>
+        row.pool_type === entry.pool_type && row.day === entry.day && row.period === entry.period
+    );
+
+    if (index === -1) {
+      this.data.processing_journal.push({ ...entry });
+    } else {
+      this.data.processing_journal[index] = { ...entry };
+    }
+    logDatabaseOperation('save_journal_entry', 1, { day: entry.day, period: entry.period });
+
+    this.persist();
+  }
+
+  /**
+   * Fetch journal entries not yet stored
+   */
+  async fetchIncompleteJournalEntries(poolType?: string): Promise<JournalEntry[]> {
+    return this.data.processing_journal
+      .filter((entry) => entry.stage !== 'stored')
+      .filter((entry) => !poolType || entry.pool_type === poolType)
+      .sort((a, b) => a.day - b.day || a.period - b.period)
+      .map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Staked alarms of a pool, in all tokens (same filters as the Supabase backend)
+   */
+  private stakedAlarms(day: number, period: 0 | 1): DatabaseAlarmRecord[] {
+    const { periodStart, periodEnd } = calculateTimeRange(day, period);
+
+    return this.data.alarms.filter(
+      (alarm) =>
+        alarm.wakeup_time >= periodStart &&
+        alarm.wakeup_time < periodEnd &&
+        alarm.stake_amount > 0 &&
+        hasOnChainId(alarm.alarm_id) &&
+        !alarm.deleted
+    );
+  }
+
+  /**
+   * Staked focus locks of a pool, in all tokens (same filters as the Supabase backend)
+   */
+  private stakedFocusLocks(day: number, period: 0 | 1): DatabaseFocusLockRecord[] {
+    return this.data.focus_locks.filter(
+      (lock) =>
+        lock.day === day &&
+        lock.period === period &&
+        parseFloat(lock.stake_amount) > 0 &&
+        hasOnChainId(lock.lock_id)
+    );
+  }
+
+  /**
+   * Resolve a single user's deployed wallet address
+   * @throws {Error} If the user has no deployed wallet
+   */
+  private async resolveWallet(userId: string): Promise<string> {
+    const address = (await this.resolveWallets([userId])).get(userId);
+    if (!address) {
+      throw new Error(`No deployed wallet found for user ${userId}`);
+    }
+    return address;
+  }
+}
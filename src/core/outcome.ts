@@ -0,0 +1,88 @@
+/**
+ * Pool outcome assembly shared by all pool types
+ *
+ * From a pool's slashed total: the protocol fee and its split, the reward
+ * pot (the rest plus pots carried over from earlier pools), the winner
+ * rewards and, when nobody won, the pool type's rollover policy.
+ */
+
+import { PoolContractConfig } from '../types/common.js';
+import { PoolOutcome } from '../types/pool.js';
+import { PoolRollover } from '../types/rollover.js';
+import { calculateProtocolFee, splitProtocolFees } from './fees.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('outcome');
+
+/**
+ * Pool type specific reward allocation
+ */
+export interface RewardAllocators<TReward> {
+  distribute(rewardPot: bigint): TReward[]; // Winner rewards (empty if nobody won)
+  refund(rewardPot: bigint): TReward[]; // Slashed users' refunds (empty if nobody lost stake)
+}
+
+/**
+ * Compute a pool's outcome
+ *
+ * The protocol fee is charged here, on the slashed total only: carried
+ * pots were charged in the pool they were slashed in, and the allocators
+ * distribute the pot as given.
+ *
+ * Without winners the pot is handled per the rollover policy:
+ * - carry: nothing is added on-chain; the pot is ledgered for the next pool
+ * - refund: the pot stays in the pool, claimable by the slashed users
+ * - treasury: the pot is added to the protocol fees
+ *
+ * @param totalSlashed Slashed total under the deployment's slash schedule
+ * @param carriedIn Pots carried over from earlier pools of the same type
+ */
+export function computePoolOutcome<TReward>(
+  config: PoolContractConfig,
+  totalSlashed: bigint,
+  carriedIn: bigint,
+  allocators: RewardAllocators<TReward>
+): PoolOutcome<TReward> {
+  const { fee_bps, recipients } = config.protocol_fee;
+  let protocolFees = calculateProtocolFee(totalSlashed, fee_bps);
+  let newRewards = totalSlashed - protocolFees + carriedIn; // Remainder (+ carries) to winners
+  let rewards = allocators.distribute(newRewards);
+  let rollover: PoolRollover | null = null;
+
+  if (rewards.length === 0 && newRewards > 0n) {
+    const pot = newRewards;
+    let policy = config.rollover_policy;
+
+    if (policy === 'refund') {
+      rewards = allocators.refund(pot);
+      if (rewards.length === 0) {
+        log.warn({ pot: pot.toString() }, 'Nobody lost stake to refund, carrying the pot instead');
+        policy = 'carry';
+      }
+    }
+
+    if (policy === 'carry') {
+      newRewards = 0n;
+    } else if (policy === 'treasury') {
+      newRewards = 0n;
+      protocolFees += pot;
+    }
+
+    rollover = { policy, amount: pot.toString() };
+    log.info({ policy, pot: pot.toString() }, 'No winners, rolling the reward pot over');
+  }
+
+  return {
+    totalSlashed,
+    protocolFees,
+    newRewards,
+    rewards,
+    slashScheduleVersion: config.slash_schedule.version,
+    protocolFeeBps: fee_bps,
+    feeSplit: splitProtocolFees(protocolFees, recipients),
+    rewardAllocation: config.reward_allocation,
+    token: config.token,
+    carriedIn,
+    rollover,
+  };
+}
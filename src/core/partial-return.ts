@@ -0,0 +1,99 @@
+/**
+ * Partial-completion returns for failed focus locks
+ *
+ * A failed lock normally returns what the slash schedule gives one slash.
+ * With a partial return curve, it returns a part of the stake by how long
+ * it was held (locked seconds / lock duration):
+ *
+ *   FOCUS_PARTIAL_RETURN=linear              (held 40% → 40% returned)
+ *   FOCUS_PARTIAL_RETURN=25:10,50:30,75:60   (<min held %>:<return %> steps)
+ *
+ * The contract decides stake returns from the signed ClaimRequest, so the
+ * curve must match the deployed contract, which must accept the v2
+ * ClaimRequest (with locked_duration, see FOCUS_CLAIM_REQUEST).
+ */
+
+import { PartialReturnSchedule, PartialReturnStep } from '../types/slashing.js';
+
+const PERCENT_BASE = 100n;
+
+/**
+ * Parse a partial return spec (linear or <min held %>:<return %>,...)
+ *
+ * @throws {Error} If a step is malformed or the curve is not increasing
+ */
+export function parsePartialReturn(spec: string): PartialReturnSchedule {
+  if (spec.trim() === 'linear') {
+    return { kind: 'linear', description: 'Return pro rata to the time held' };
+  }
+
+  const steps: PartialReturnStep[] = spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = /^(\d+):(\d+)$/.exec(entry);
+      if (!match) {
+        throw new Error(
+          `Invalid partial return step "${entry}": expected linear or <min held %>:<return %>`
+        );
+      }
+      return { min_held_percent: Number(match[1]), return_percent: Number(match[2]) };
+    });
+
+  if (steps.length === 0) {
+    throw new Error('Partial return curve has no steps');
+  }
+
+  steps.forEach(({ min_held_percent, return_percent }, index) => {
+    if (min_held_percent > 100 || return_percent > 100) {
+      throw new Error(`Partial return step ${min_held_percent}:${return_percent} exceeds 100%`);
+    }
+
+    const previous = steps[index - 1];
+    if (
+      previous &&
+      (min_held_percent <= previous.min_held_percent ||
+        return_percent < previous.return_percent)
+    ) {
+      throw new Error(
+        `Partial return steps must be listed by increasing held % with non-decreasing returns (at ${min_held_percent})`
+      );
+    }
+  });
+
+  return {
+    kind: 'steps',
+    steps,
+    description: steps.map((s) => `${s.min_held_percent}%+ held ${s.return_percent}%`).join(', '),
+  };
+}
+
+/**
+ * Stake returned to a failed lock held for lockedDuration of duration seconds
+ * (rounded down; 0 below the first step)
+ */
+export function calculatePartialReturn(
+  stakeAmount: bigint,
+  lockedDuration: bigint,
+  duration: bigint,
+  schedule: PartialReturnSchedule
+): bigint {
+  if (duration <= 0n) {
+    return 0n;
+  }
+  const held = lockedDuration < 0n ? 0n : lockedDuration > duration ? duration : lockedDuration;
+
+  if (schedule.kind === 'linear') {
+    return (stakeAmount * held) / duration;
+  }
+
+  // Compare held / duration >= min % without rounding
+  let percent = 0;
+  for (const step of schedule.steps) {
+    if (held * PERCENT_BASE >= BigInt(step.min_held_percent) * duration) {
+      percent = step.return_percent;
+    }
+  }
+  return (stakeAmount * BigInt(percent)) / PERCENT_BASE;
+}
@@ -0,0 +1,1335 @@
+/**
+ * Generic pool processing pipeline
+ *
+ * Processes a single pool of any registered type through the complete flow:
+ * 1. Fetch users from database
+ * 2. Validate user data
+ * 3. Calculate rewards and protocol fees
+ * 4. Build merkle tree
+ * 5. Set merkle root on-chain (CRITICAL - must succeed!)
+ * 6. Sign claims, store results to database and update the rollover ledger
+ *
+ * In dry-run mode steps 5 and 6 are replaced by a report containing the
+ * exact calldata and signed claims; nothing is sent or written.
+ *
+ * Real runs are journaled (see journal.ts) so a crash between steps 5
+ * and 6 can be finished with resumePool() instead of being redone.
+ * Before step 5 the on-chain pool record is read: pools that are already
+ * finalized are reconciled (matching root, claims not stored yet) or
+ * skipped, never resubmitted.
+ * The transaction is then simulated with a fee estimate; a would-be revert
+ * or a fee above MAX_TRANSACTION_FEE aborts the run before anything is sent.
+ *
+ * Reward pots of pools without winners follow the pool type's rollover
+ * policy; carried pots are reserved in the rollover ledger (see
+ * rollover.ts) by the next pool that is ready to finalize.
+ *
+ * With multicall, steps 5 of several pools (any mix of pool types) share
+ * one transaction; journaling and root verification stay per pool.
+ */
+
+import {
+  BasePoolUser,
+  DryRunReport,
+  MerkleTree,
+  OnChainPoolInfo,
+  PoolContractConfig,
+  PoolInfo,
+  ProcessedPoolInfo,
+  ProcessingResult,
+  TransactionFeeEstimate,
+  TransactionFeeMode,
+  VerifierKey,
+} from '../types/common.js';
+import {
+  PoolType,
+  PoolOutcome,
+  AnyPoolType,
+  BatchProcessingResult,
+} from '../types/pool.js';
+import { MerkleRootTarget, SubmittedTransaction } from '../types/chain.js';
+import { RolloverEntry } from '../types/rollover.js';
+import { getCoreConfig } from './config.js';
+import { calculateTimeRange } from './database.js';
+import { validatePoolUsers } from './calculator.js';
+import { calculateExpiry } from './crypto.js';
+import { resolveSigningKey } from './verifier.js';
+import {
+  findCarriesFor,
+  sumRollovers,
+  reserveCarries,
+  releaseCarries,
+  recordPoolRollover,
+} from './rollover.js';
+import { getBlockchainService, buildSetMerkleRootCall } from './blockchain.js';
+import { JournalEntry } from '../types/journal.js';
+import {
+  readJournalEntry,
+  writeJournalEntry,
+  advanceJournalEntry,
+  rewindJournalEntry,
+  computeInputsHash,
+  listIncompleteJournalEntries,
+} from './journal.js';
+import { isRevertedTransactionError, isUnknownTransactionError } from './retry.js';
+import { getPoolType } from './registry.js';
+import { formatTokenAmount } from './tokens.js';
+import {
+  createModuleLogger,
+  logPoolProcessingStart,
+  logPoolProcessingSuccess,
+  logPoolProcessingFailure,
+} from './logger.js';
+
+const log = createModuleLogger('pipeline');
+
+/**
+ * Time buffer after period end before processing (30 minutes)
+ */
+const TIME_BUFFER_SECONDS = 30 * 60;
+
+/**
+ * Delay between processing pools in a batch (milliseconds)
+ */
+const INTER_POOL_DELAY_MS = 3000; // 3 seconds
+
+/**
+ * Maximum pools finalized by one multicall transaction
+ */
+const MULTICALL_MAX_POOLS = 10;
+
+/**
+ * Options for pool processing
+ */
+export interface ProcessPoolOptions {
+  force?: boolean; // Skip time buffer check
+  dryRun?: boolean; // Calculate and report only, no transaction or database writes
+  multicall?: boolean; // Batch/cron runs: finalize pools in one transaction instead of one each
+}
+
+/**
+ * Pool to process in a multicall run
+ */
+export interface MulticallPool {
+  poolType: AnyPoolType;
+  day: number;
+  period: 0 | 1;
+}
+
+/**
+ * Pool after calculation (steps 1-4), ready for finalization
+ */
+interface CalculatedPool<TUser extends BasePoolUser, TReward> {
+  users: TUser[];
+  outcome: PoolOutcome<TReward>;
+  merkleTree: MerkleTree;
+  carries: RolloverEntry[]; // Ledger rows of the pots carried into this pool
+}
+
+/**
+ * Pool that passed all checks and only needs finalization (steps 5-6)
+ */
+interface PreparedPool<TUser extends BasePoolUser, TReward> {
+  ready: true;
+  poolType: PoolType<TUser, TReward>;
+  day: number;
+  period: 0 | 1;
+  contractConfig: PoolContractConfig;
+  verifier: VerifierKey; // Key the contract accepts, resolved before finalization
+  calculated: CalculatedPool<TUser, TReward>;
+}
+
+/**
+ * Outcome of preparing a pool: ready to finalize, or a final result
+ */
+type PoolPreparation<TUser extends BasePoolUser, TReward> =
+  | PreparedPool<TUser, TReward>
+  | { ready: false; result: ProcessingResult };
+
+/**
+ * Process a single pool
+ *
+ * Every non-dry run is recorded in the processing journal so it can be
+ * resumed with `resume` if the process dies mid-way.
+ *
+ * @param poolType Registered pool type to process
+ * @param day Unix day
+ * @param period 0=AM, 1=PM
+ * @param options Force and dry-run flags
+ * @returns Processing result
+ */
+export async function processPool<TUser extends BasePoolUser, TReward>(
+  poolType: PoolType<TUser, TReward>,
+  day: number,
+  period: 0 | 1,
+  options: ProcessPoolOptions = {}
+): Promise<ProcessingResult> {
+  const prepared = await preparePool(poolType, day, period, options);
+
+  if (!prepared.ready) {
+    return prepared.result;
+  }
+
+  const [outcome] = await finalizePools([prepared]);
+
+  if (outcome!.status === 'rejected') {
+    throw outcome!.reason;
+  }
+  return outcome!.value;
+}
+
+/**
+ * Process several pools, bundling their on-chain finalization
+ *
+ * Each pool is prepared on its own (time buffer, calculation, on-chain
+ * state, dry run). Pools that are ready are then finalized together,
+ * up to MULTICALL_MAX_POOLS per transaction, with a single
+ * set_merkle_root_for_pool multicall. Every pool keeps its own journal
+ * entry and its root is verified individually after the transaction.
+ *
+ * A pre-flight or transaction failure fails every pool in the bundle;
+ * storage failures only fail the pool concerned.
+ *
+ * @param pools Pools to process (pool types may be mixed)
+ * @param options Force and dry-run flags applied to every pool
+ * @returns One settled result per pool, in input order
+ */
+export async function processPoolsMulticall(
+  pools: MulticallPool[],
+  options: ProcessPoolOptions = {}
+): Promise<PromiseSettledResult<ProcessingResult>[]> {
+  const outcomes: PromiseSettledResult<ProcessingResult>[] = [];
+  const ready: Array<{ index: number; prepared: PreparedPool<BasePoolUser, unknown> }> = [];
+
+  for (const [index, pool] of pools.entries()) {
+    try {
+      const prepared = await preparePool(pool.poolType, pool.day, pool.period, options);
+
+      if (prepared.ready) {
+        ready.push({ index, prepared });
+      } else {
+        outcomes[index] = { status: 'fulfilled', value: prepared.result };
+      }
+    } catch (error) {
+      outcomes[index] = { status: 'rejected', reason: error };
+    }
+  }
+
+  for (let start = 0; start < ready.length; start += MULTICALL_MAX_POOLS) {
+    const chunk = ready.slice(start, start + MULTICALL_MAX_POOLS);
+
+    log.info(
+      {
+        pools: chunk.map(({ prepared }) => ({
+          poolType: prepared.poolType.name,
+          day: prepared.day,
+          period: prepared.period,
+        })),
+      },
+      `Finalizing ${chunk.length} pool(s) in one transaction`
+    );
+
+    const chunkOutcomes = await finalizePools(chunk.map(({ prepared }) => prepared));
+    chunk.forEach(({ index }, i) => {
+      outcomes[index] = chunkOutcomes[i]!;
+    });
+
+    // Add delay between transactions (except after the last one)
+    if (start + MULTICALL_MAX_POOLS < ready.length) {
+      await delay(INTER_POOL_DELAY_MS);
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Check and calculate a pool up to the point of finalization
+ *
+ * Returns a final result when there is nothing to send (too early, no
+ * users, dry run, already finalized on-chain).
+ */
+async function preparePool<TUser extends BasePoolUser, TReward>(
+  poolType: PoolType<TUser, TReward>,
+  day: number,
+  period: 0 | 1,
+  options: ProcessPoolOptions
+): Promise<PoolPreparation<TUser, TReward>> {
+  const { force = false, dryRun = false } = options;
+  const label = poolType.displayName.toLowerCase();
+
+  logPoolProcessingStart(day, period);
+
+  try {
+    // Fails early if this pool type is not configured
+    const contractConfig = poolType.getContractConfig();
+
+    // Never start over a half-done run: it must be resumed instead
+    const existingEntry = await readJournalEntry(poolType.name, day, period);
+    if (!dryRun && existingEntry && existingEntry.stage !== 'stored') {
+      throw new Error(
+        `Pool has an unfinished run (stage: ${existingEntry.stage}). Run 'resume' to complete it.`
+      );
+    }
+
+    // Check time buffer (unless forced)
+    if (!force) {
+      const now = Math.floor(Date.now() / 1000);
+      const { periodEnd } = calculateTimeRange(day, period);
+      const readyTime = periodEnd + TIME_BUFFER_SECONDS;
+
+      if (now < readyTime) {
+        const delta = readyTime - now;
+        const readyDate = new Date(readyTime * 1000);
+
+        log.warn(
+          {
+            poolType: poolType.name,
+            pool: { day, period },
+            now,
+            readyTime,
+            deltaSeconds: delta,
+            readyDate: readyDate.toISOString(),
+          },
+          `Too early to process ${label} pool`
+        );
+
+        return {
+          ready: false,
+          result: {
+            success: false,
+            message: `Too early to process. Pool will be ready in ${delta}s at ${readyDate.toISOString()}`,
+          },
+        };
+      }
+    } else {
+      log.warn(
+        { poolType: poolType.name, pool: { day, period } },
+        `Forcing ${label} pool processing (buffer check skipped)`
+      );
+    }
+
+    // Steps 1-4: Fetch, validate, calculate, build merkle tree
+    const calculated = await calculatePool(poolType, day, period);
+
+    if (!calculated) {
+      return {
+        ready: false,
+        result: {
+          success: false,
+          message: `No users in ${label} pool`,
+        },
+      };
+    }
+
+    const { starknetChainId } = getCoreConfig();
+
+    // Dry runs never touch the chain: preview with the configured active key
+    if (dryRun) {
+      return {
+        ready: false,
+        result: await buildDryRunResult(
+          poolType,
+          day,
+          period,
+          calculated,
+          contractConfig,
+          contractConfig.verifier,
+          starknetChainId
+        ),
+      };
+    }
+
+    // Pick (and unlock) the verifier key the contract accepts before anything
+    // is sent on-chain: claims are only signed after finalization
+    const verifier = await resolveSigningKey(contractConfig);
+
+    // Never resubmit a pool that is already finalized on-chain
+    const onChainPool = await readOnChainPool(contractConfig, day, period);
+
+    if (onChainPool.is_finalized) {
+      if (onChainPool.merkle_root !== calculated.merkleTree.root) {
+        log.error(
+          {
+            poolType: poolType.name,
+            pool: { day, period },
+            onChainRoot: onChainPool.merkle_root,
+            computedRoot: calculated.merkleTree.root,
+          },
+          'Pool already finalized on-chain with a different merkle root'
+        );
+        return {
+          ready: false,
+          result: {
+            success: false,
+            message: `Pool already finalized on-chain with a different merkle root (on-chain: ${onChainPool.merkle_root}, computed: ${calculated.merkleTree.root})`,
+          },
+        };
+      }
+
+      // Claims of a stored run (e.g. a forced rerun) must not be written twice
+      if (existingEntry?.stage === 'stored' || (await poolType.hasStoredClaims(calculated.users))) {
+        log.info(
+          { poolType: poolType.name, pool: { day, period }, merkleRoot: onChainPool.merkle_root },
+          'Pool already finalized on-chain and stored, skipping'
+        );
+        return {
+          ready: false,
+          result: {
+            success: false,
+            message: 'Pool already finalized on-chain and its claims are stored',
+          },
+        };
+      }
+
+      // Root is on-chain but claims are missing: store them without resubmitting
+      log.warn(
+        { poolType: poolType.name, pool: { day, period }, merkleRoot: onChainPool.merkle_root },
+        'Pool already finalized on-chain with matching root, reconciling database'
+      );
+
+      await storePoolResults(
+        poolType,
+        day,
+        period,
+        calculated,
+        contractConfig,
+        verifier,
+        starknetChainId,
+        calculateExpiry()
+      );
+
+      return {
+        ready: false,
+        result: {
+          ...buildSuccessResult(day, period, calculated, '', 'reconciled'),
+          message: 'Merkle root already on-chain, database reconciled',
+        },
+      };
+    }
+
+    // Keep carried pots from being taken by another pool while this one finalizes
+    await reserveCarries(calculated.carries, day, period);
+
+    return { ready: true, poolType, day, period, contractConfig, verifier, calculated };
+  } catch (error) {
+    logPoolProcessingFailure(day, period, error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Pre-flight, journal and finalize prepared pools in one transaction,
+ * then store each pool's results
+ *
+ * @returns One settled result per pool, in input order
+ */
+async function finalizePools<TUser extends BasePoolUser, TReward>(
+  pools: PreparedPool<TUser, TReward>[]
+): Promise<PromiseSettledResult<ProcessingResult>[]> {
+  const { starknetChainId } = getCoreConfig();
+  const targets = pools.map(toMerkleRootTarget);
+
+  let feeEstimate: TransactionFeeEstimate;
+  let entries: JournalEntry[] | undefined;
+  let tx: SubmittedTransaction;
+
+  try {
+    // Simulate and estimate fee; aborts before anything is journaled or sent
+    feeEstimate = await preflightOnChain(targets);
+
+    // Fix expiry before anything is sent so a resumed run signs identically
+    const now = new Date().toISOString();
+    entries = await Promise.all(
+      pools.map(({ poolType, day, period, calculated }) =>
+        writeJournalEntry({
+        pool_type: poolType.name,
+        day,
+        period,
+        stage: 'computed',
+          inputs_hash: computeInputsHash(calculated.users),
+          merkle_root: calculated.merkleTree.root,
+          new_rewards: calculated.outcome.newRewards.toString(),
+          protocol_fees: calculated.outcome.protocolFees.toString(),
+          expiry: calculateExpiry(),
+          created_at: now,
+          updated_at: now,
+        })
+      )
+    );
+
+    // Step 5: Set merkle root(s) on-chain (CRITICAL!)
+    tx = await finalizeOnChain(targets, async (submitted) => {
+      entries = await Promise.all(
+        entries!.map((entry) =>
+          advanceJournalEntry(entry, 'submitted', {
+            tx_hash: submitted.transaction_hash,
+            fee_mode: submitted.fee_mode,
+          })
+        )
+      );
+    });
+    entries = await Promise.all(entries.map((entry) => advanceJournalEntry(entry, 'finalized')));
+  } catch (error) {
+    for (const { day, period, calculated } of pools) {
+      logPoolProcessingFailure(day, period, error as Error);
+      // Journaled runs keep their carries for resume
+      if (!entries) {
+        await releaseCarries(calculated.carries);
+      }
+    }
+    return pools.map(() => ({ status: 'rejected', reason: error }));
+  }
+
+  // Step 6: Sign claims and store results (only after blockchain success!)
+  const outcomes: PromiseSettledResult<ProcessingResult>[] = [];
+
+  for (const [i, pool] of pools.entries()) {
+    const { poolType, day, period, contractConfig, verifier, calculated } = pool;
+    const entry = entries[i]!;
+
+    try {
+      await storePoolResults(
+        poolType,
+        day,
+        period,
+        calculated,
+        contractConfig,
+        verifier,
+        starknetChainId,
+        entry.expiry
+      );
+      await advanceJournalEntry(entry, 'stored');
+
+      outcomes.push({
+        status: 'fulfilled',
+        value: {
+          ...buildSuccessResult(
+            day,
+            period,
+            calculated,
+            tx.transaction_hash,
+            'success',
+            tx.fee_mode
+          ),
+          fee_estimate: feeEstimate,
+        },
+      });
+    } catch (error) {
+      logPoolProcessingFailure(day, period, error as Error);
+      outcomes.push({ status: 'rejected', reason: error });
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Resume a pool run from its journal entry
+ *
+ * Recomputes the pool from current data, checks that inputs and merkle
+ * root match what was journaled, then continues from the recorded stage:
+ * - computed:  no transaction recorded, submit it (unless the pool is
+ *              already finalized on-chain with the journaled root)
+ * - submitted: wait for the recorded tx hash; if it reverted or was
+ *              dropped and the pool is not finalized, back to computed
+ * - finalized: only store results
+ *
+ * Claims are signed with the journaled expiry.
+ */
+export async function resumePool<TUser extends BasePoolUser, TReward>(
+  poolType: PoolType<TUser, TReward>,
+  journalEntry: JournalEntry
+): Promise<ProcessingResult> {
+  const { day, period } = journalEntry;
+  let entry = journalEntry;
+
+  log.info(
+    {
+      poolType: poolType.name,
+      pool: { day, period },
+      stage: entry.stage,
+      txHash: entry.tx_hash,
+    },
+    'Resuming pool run from journal'
+  );
+
+  try {
+    if (entry.stage === 'stored') {
+      return {
+        success: true,
+        message: 'Pool run already completed',
+      };
+    }
+
+    const contractConfig = poolType.getContractConfig();
+    const calculated = await calculatePool(poolType, day, period);
+
+    if (!calculated) {
+      throw new Error('Cannot resume: pool no longer has any users');
+    }
+
+    const inputsHash = computeInputsHash(calculated.users);
+    if (inputsHash !== entry.inputs_hash) {
+      throw new Error(
+        `Cannot resume: pool inputs changed since the run started (journal: ${entry.inputs_hash}, now: ${inputsHash})`
+      );
+    }
+
+    if (calculated.merkleTree.root !== entry.merkle_root) {
+      throw new Error(
+        `Cannot resume: recomputed merkle root ${calculated.merkleTree.root} does not match journal ${entry.merkle_root}`
+      );
+    }
+
+    // The contract's verifier may have been rotated since the run started
+    const verifier = await resolveSigningKey(contractConfig);
+    const target = toMerkleRootTarget({ contractConfig, day, period, calculated });
+
+    if (entry.stage === 'submitted') {
+      log.info(
+        { txHash: entry.tx_hash },
+        'Waiting for recorded transaction instead of resubmitting'
+      );
+      const blockchainService = getBlockchainService();
+      await blockchainService.initialize();
+
+      try {
+        // The tx may be a multicall: only this pool's root is verified
+        await blockchainService.confirmMerkleRoots(entry.tx_hash!, [target]);
+        entry = await advanceJournalEntry(entry, 'finalized');
+      } catch (error) {
+        if (!isRevertedTransactionError(error) && !isUnknownTransactionError(error)) {
+          throw error;
+        }
+
+        // Reverted or dropped: the pool may still have been finalized by another tx
+        const onChainPool = await readOnChainPool(contractConfig, day, period);
+        if (!onChainPool.is_finalized) {
+          entry = await rewindJournalEntry(entry);
+        } else if (onChainPool.merkle_root !== entry.merkle_root) {
+          throw new Error(
+            `Cannot resume: pool finalized on-chain with a different merkle root (on-chain: ${onChainPool.merkle_root}, journal: ${entry.merkle_root})`
+          );
+        } else {
+          log.warn('Recorded transaction failed but the pool is finalized with the journaled root');
+          entry = await advanceJournalEntry(entry, 'finalized');
+        }
+      }
+    }
+
+    if (entry.stage === 'computed') {
+      // The process may have died right after broadcasting: check the chain first
+      const onChainPool = await readOnChainPool(contractConfig, day, period);
+
+      if (onChainPool.is_finalized) {
+        if (onChainPool.merkle_root !== entry.merkle_root) {
+          throw new Error(
+            `Cannot resume: pool finalized on-chain with a different merkle root (on-chain: ${onChainPool.merkle_root}, journal: ${entry.merkle_root})`
+          );
+        }
+
+        log.warn('Pool already finalized on-chain with journaled root, skipping submission');
+        entry = await advanceJournalEntry(entry, 'finalized');
+      }
+    }
+
+    if (entry.stage === 'computed') {
+      log.warn('No transaction recorded for this run, submitting it now');
+      const targets = [target];
+      await preflightOnChain(targets);
+      await finalizeOnChain(targets, async (submitted) => {
+        entry = await advanceJournalEntry(entry, 'submitted', {
+          tx_hash: submitted.transaction_hash,
+          fee_mode: submitted.fee_mode,
+        });
+      });
+      entry = await advanceJournalEntry(entry, 'finalized');
+    }
+
+    const { starknetChainId } = getCoreConfig();
+    await storePoolResults(
+      poolType,
+      day,
+      period,
+      calculated,
+      contractConfig,
+      verifier,
+      starknetChainId,
+      entry.expiry
+    );
+    await advanceJournalEntry(entry, 'stored');
+
+    return buildSuccessResult(
+      day,
+      period,
+      calculated,
+      entry.tx_hash ?? '',
+      'success',
+      entry.fee_mode
+    );
+  } catch (error) {
+    logPoolProcessingFailure(day, period, error as Error);
+    throw error;
+  }
+}
+
+/**
+ * Steps 1-4: fetch users, validate, calculate rewards, build merkle tree
+ *
+ * @returns Calculated pool or null if the pool has no users
+ */
+async function calculatePool<TUser extends BasePoolUser, TReward>(
+  poolType: PoolType<TUser, TReward>,
+  day: number,
+  period: 0 | 1
+): Promise<CalculatedPool<TUser, TReward> | null> {
+  const label = poolType.displayName.toLowerCase();
+
+  // Step 1: Fetch users from database
+  log.info(`Step 1: Fetching ${label} users from database`);
+  const users = await poolType.fetchUsers(day, period);
+
+  if (users.length === 0) {
+    log.warn({ poolType: poolType.name, pool: { day, period } }, 'No users found in pool');
+    return null;
+  }
+
+  // Step 2: Validate user data
+  log.info({ userCount: users.length }, 'Step 2: Validating user data');
+  validatePoolUsers(users);
+  log.info('All user data validated successfully');
+
+  // Step 3: Calculate rewards and fees (reward pot includes carried-over pots)
+  log.info('Step 3: Calculating rewards and protocol fees');
+  const carries = await findCarriesFor(poolType.name, day, period);
+  const outcome = poolType.computeOutcomes(
+    users,
+    poolType.getContractConfig(),
+    sumRollovers(carries)
+  );
+  const winners = countWinners(outcome);
+  const format = (amount: bigint | string): string => formatTokenAmount(amount, outcome.token);
+
+  log.info(
+    {
+      totalSlashed: format(outcome.totalSlashed),
+      protocolFees: format(outcome.protocolFees),
+      newRewards: format(outcome.newRewards),
+      slashSchedule: outcome.slashScheduleVersion,
+      protocolFeeBps: outcome.protocolFeeBps,
+      feeSplit: outcome.feeSplit.map((share) => ({ ...share, amount: format(share.amount) })),
+      rewardAllocation: outcome.rewardAllocation,
+      carriedIn: format(outcome.carriedIn),
+      rollover: outcome.rollover && {
+        ...outcome.rollover,
+        amount: format(outcome.rollover.amount),
+      },
+      winnerCount: winners,
+      totalUsers: users.length,
+    },
+    'Rewards calculated'
+  );
+
+  // Step 4: Build merkle tree
+  log.info('Step 4: Building merkle tree');
+  const merkleTree = poolType.buildMerkleTree(users, outcome.rewards);
+
+  log.info(
+    {
+      merkleRoot: merkleTree.root,
+      proofCount: Object.keys(merkleTree.proofs).length,
+      winners,
+      nonWinners: users.length - winners,
+    },
+    'Merkle tree built'
+  );
+
+  return { users, outcome, merkleTree, carries };
+}
+
+/**
+ * Read the on-chain pool record before finalizing
+ */
+async function readOnChainPool(
+  contractConfig: PoolContractConfig,
+  day: number,
+  period: 0 | 1
+): Promise<OnChainPoolInfo> {
+  const blockchainService = getBlockchainService();
+  await blockchainService.initialize();
+
+  const poolInfo = await blockchainService.getPoolInfo(
+    contractConfig.contract_address,
+    day,
+    period
+  );
+
+  log.info(
+    {
+      pool: { day, period },
+      merkleRoot: poolInfo.merkle_root,
+      isFinalized: poolInfo.is_finalized,
+      poolReward: poolInfo.pool_reward.toString(),
+      userCount: poolInfo.user_count.toString(),
+      totalStaked: poolInfo.total_staked.toString(),
+    },
+    'On-chain pool state'
+  );
+
+  return poolInfo;
+}
+
+/**
+ * Pre-flight: simulate set_merkle_root_for_pool call(s) and check the fee cap
+ *
+ * @returns Fee estimate for the result
+ */
+async function preflightOnChain(targets: MerkleRootTarget[]): Promise<TransactionFeeEstimate> {
+  log.info({ poolCount: targets.length }, 'Pre-flight: simulating set_merkle_root_for_pool');
+
+  const { maxTransactionFee } = getCoreConfig();
+  const blockchainService = getBlockchainService();
+  await blockchainService.initialize();
+
+  const estimate = await blockchainService.preflightSetMerkleRoots(targets, maxTransactionFee);
+
+  return {
+    overall_fee: estimate.overall_fee.toString(),
+    unit: estimate.unit,
+    ...(maxTransactionFee !== undefined && { fee_cap: maxTransactionFee.toString() }),
+    ...(targets.length > 1 && { bundled_pools: targets.length }),
+  };
+}
+
+/**
+ * Step 5: set merkle root(s) on-chain and wait for confirmation
+ *
+ * @returns Transaction hash and fee mode used
+ */
+async function finalizeOnChain(
+  targets: MerkleRootTarget[],
+  onSubmitted: (tx: SubmittedTransaction) => Promise<void>
+): Promise<SubmittedTransaction> {
+  log.info({ poolCount: targets.length }, 'Step 5: Setting merkle root on-chain');
+
+  const blockchainService = getBlockchainService();
+  await blockchainService.initialize();
+
+  try {
+    const tx = await blockchainService.setMerkleRootsOnChain(targets, onSubmitted);
+
+    log.info(
+      { txHash: tx.transaction_hash, feeMode: tx.fee_mode, poolCount: targets.length },
+      'Merkle root set on-chain successfully'
+    );
+    return tx;
+  } catch (error) {
+    log.error(
+      {
+        error,
+        pools: targets.map(({ contract_address, day, period }) => ({
+          contractAddress: contract_address,
+          day,
+          period,
+        })),
+      },
+      'CRITICAL: Blockchain transaction failed'
+    );
+    throw new Error(
+      `Blockchain finalization required before database storage: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Contract call parameters for a calculated pool
+ */
+function toMerkleRootTarget<TUser extends BasePoolUser, TReward>(pool: {
+  contractConfig: PoolContractConfig;
+  day: number;
+  period: 0 | 1;
+  calculated: CalculatedPool<TUser, TReward>;
+}): MerkleRootTarget {
+  return {
+    contract_address: pool.contractConfig.contract_address,
+    day: pool.day,
+    period: pool.period,
+    merkle_root: pool.calculated.merkleTree.root,
+    new_rewards: pool.calculated.outcome.newRewards,
+    protocol_fees: pool.calculated.outcome.protocolFees,
+  };
+}
+
+/**
+ * Step 6: sign claims with the resolved verifier key, store results to
+ * database and update the rollover ledger
+ */
+async function storePoolResults<TUser extends BasePoolUser, TReward>(
+  poolType: PoolType<TUser, TReward>,
+  day: number,
+  period: 0 | 1,
+  calculated: CalculatedPool<TUser, TReward>,
+  contractConfig: PoolContractConfig,
+  verifier: VerifierKey,
+  chainId: string,
+  expiry: number
+): Promise<void> {
+  log.info('Step 6: Storing results to database');
+
+  const claims = await poolType.signClaims(
+    calculated.users,
+    calculated.outcome.rewards,
+    calculated.merkleTree,
+    contractConfig,
+    verifier,
+    chainId,
+    expiry
+  );
+  await poolType.persistResults(claims, expiry);
+  await recordPoolRollover(poolType.name, day, period, calculated.carries, calculated.outcome);
+
+  log.info('Results stored to database successfully');
+}
+
+/**
+ * Build the result for a fully processed pool
+ */
+function buildSuccessResult<TUser extends BasePoolUser, TReward>(
+  day: number,
+  period: 0 | 1,
+  calculated: CalculatedPool<TUser, TReward>,
+  txHash: string,
+  blockchainStatus: ProcessedPoolInfo['blockchain_status'] = 'success',
+  feeMode?: TransactionFeeMode
+): ProcessingResult {
+  const { users, outcome, merkleTree } = calculated;
+  const processedAt = new Date().toISOString();
+
+  logPoolProcessingSuccess(day, period, txHash, users.length, countWinners(outcome));
+
+  return {
+    success: true,
+    pool_info: {
+      day,
+      period,
+      merkle_root: merkleTree.root,
+      total_slashed_amount: outcome.totalSlashed.toString(),
+      new_rewards: outcome.newRewards.toString(),
+      protocol_fees: outcome.protocolFees.toString(),
+      transaction_hash: txHash,
+      total_users: users.length,
+      winners: countWinners(outcome),
+      processed_at: processedAt,
+      blockchain_status: blockchainStatus,
+      slash_schedule_version: outcome.slashScheduleVersion,
+      protocol_fee_bps: outcome.protocolFeeBps,
+      fee_split: outcome.feeSplit,
+      reward_allocation: outcome.rewardAllocation,
+      ...(outcome.rewardWeighting && { reward_weighting: outcome.rewardWeighting }),
+      token: outcome.token,
+      carried_in: outcome.carriedIn.toString(),
+      ...(outcome.rollover && { rollover: outcome.rollover }),
+      ...(feeMode && { fee_mode: feeMode }),
+    },
+    ...(txHash && { transaction_hash: txHash }),
+  };
+}
+
+/**
+ * Process all unprocessed pools of a pool type
+ *
+ * Pools that return an unsuccessful result (too early, no users) are
+ * counted as skipped; pools that throw are counted as failed.
+ *
+ * @param poolType Registered pool type to process
+ * @param options Force, dry-run and multicall flags applied to every pool
+ * @returns Batch processing result with success/fail/skip counts
+ */
+export async function processAllPools<TUser extends BasePoolUser, TReward>(
+  poolType: PoolType<TUser, TReward>,
+  options: ProcessPoolOptions = {}
+): Promise<BatchProcessingResult> {
+  if (options.multicall) {
+    const results = await processAllPoolsMulticall([poolType as AnyPoolType], options);
+    return results[poolType.name]!;
+  }
+
+  const label = poolType.displayName.toLowerCase();
+
+  log.info(`Starting batch processing of all unprocessed ${label} pools`);
+
+  const result = createBatchResult();
+
+  // Find all unprocessed pools
+  const pools = await poolType.findUnprocessedPools();
+
+  if (pools.length === 0) {
+    log.info(`No unprocessed ${label} pools found`);
+    return result;
+  }
+
+  result.total = pools.length;
+  log.info({ poolCount: pools.length }, `Found unprocessed ${label} pools`);
+
+  // Process each pool sequentially
+  for (let i = 0; i < pools.length; i++) {
+    const pool = pools[i]!;
+    const poolNumber = i + 1;
+
+    log.info(
+      {
+        poolType: poolType.name,
+        poolNumber,
+        total: pools.length,
+        day: pool.day,
+        period: pool.period,
+      },
+      `Processing ${label} pool ${poolNumber}/${pools.length}`
+    );
+
+    let outcome: PromiseSettledResult<ProcessingResult>;
+    try {
+      const poolResult = await processPool(poolType, pool.day, pool.period, options);
+      outcome = { status: 'fulfilled', value: poolResult };
+    } catch (error) {
+      outcome = { status: 'rejected', reason: error };
+    }
+    recordBatchOutcome(result, pool, outcome, `Pool ${poolNumber}/${pools.length}`);
+
+    // Add delay between pools (except for the last one)
+    if (i < pools.length - 1) {
+      log.debug(
+        { delayMs: INTER_POOL_DELAY_MS },
+        'Waiting before processing next pool'
+      );
+      await delay(INTER_POOL_DELAY_MS);
+    }
+  }
+
+  logBatchSummary(poolType.name, result);
+
+  return result;
+}
+
+/**
+ * Process all unprocessed pools of several pool types with multicall
+ *
+ * Backlog pools of all given types are finalized together, up to
+ * MULTICALL_MAX_POOLS per transaction (see processPoolsMulticall).
+ *
+ * @param poolTypes Registered pool types to process
+ * @param options Force and dry-run flags applied to every pool
+ * @returns Batch processing result per pool type name
+ */
+export async function processAllPoolsMulticall(
+  poolTypes: AnyPoolType[],
+  options: ProcessPoolOptions = {}
+): Promise<Record<string, BatchProcessingResult>> {
+  log.info(
+    { poolTypes: poolTypes.map((p) => p.name) },
+    'Starting multicall batch processing of all unprocessed pools'
+  );
+
+  const pools: MulticallPool[] = [];
+
+  for (const poolType of poolTypes) {
+    const unprocessed = await poolType.findUnprocessedPools();
+    log.info(
+      { poolType: poolType.name, poolCount: unprocessed.length },
+      `Found unprocessed ${poolType.displayName.toLowerCase()} pools`
+    );
+    pools.push(...unprocessed.map(({ day, period }) => ({ poolType, day, period })));
+  }
+
+  const results: Record<string, BatchProcessingResult> = Object.fromEntries(
+    poolTypes.map((poolType) => [poolType.name, createBatchResult()])
+  );
+
+  const outcomes = await processPoolsMulticall(pools, options);
+
+  pools.forEach((pool, i) => {
+    const result = results[pool.poolType.name]!;
+    result.total++;
+    recordBatchOutcome(
+      result,
+      pool,
+      outcomes[i]!,
+      `${pool.poolType.displayName} pool ${pool.day}/${pool.period}`
+    );
+  });
+
+  for (const poolType of poolTypes) {
+    logBatchSummary(poolType.name, results[poolType.name]!);
+  }
+
+  return results;
+}
+
+/**
+ * Empty batch result
+ */
+function createBatchResult(): BatchProcessingResult {
+  return {
+    total: 0,
+    success: 0,
+    failed: 0,
+    skipped: 0,
+    results: [],
+  };
+}
+
+/**
+ * Count a pool outcome in a batch result
+ *
+ * Unsuccessful results are skips, rejections are failures.
+ */
+function recordBatchOutcome(
+  result: BatchProcessingResult,
+  pool: PoolInfo,
+  outcome: PromiseSettledResult<ProcessingResult>,
+  poolLabel: string
+): void {
+  const { day, period } = pool;
+
+  if (outcome.status === 'rejected') {
+    result.failed++;
+    result.results.push({
+      day,
+      period,
+      success: false,
+      skipped: false,
+      message: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error',
+    });
+    log.error({ day, period, error: outcome.reason }, `${poolLabel} failed`);
+    return;
+  }
+
+  const poolResult = outcome.value;
+
+  if (poolResult.success) {
+    result.success++;
+    result.results.push({
+      day,
+      period,
+      success: true,
+      skipped: false,
+      ...(poolResult.transaction_hash && { txHash: poolResult.transaction_hash }),
+      ...(poolResult.dry_run_report && { report: poolResult.dry_run_report }),
+    });
+    log.info({ day, period }, `${poolLabel} processed successfully`);
+  } else {
+    result.skipped++;
+    result.results.push({
+      day,
+      period,
+      success: false,
+      skipped: true,
+      ...(poolResult.message && { message: poolResult.message }),
+    });
+    log.warn({ day, period, message: poolResult.message }, `${poolLabel} skipped`);
+  }
+}
+
+/**
+ * Log batch counts for a pool type
+ */
+function logBatchSummary(poolTypeName: string, result: BatchProcessingResult): void {
+  log.info(
+    {
+      poolType: poolTypeName,
+      total: result.total,
+      success: result.success,
+      failed: result.failed,
+      skipped: result.skipped,
+    },
+    'Batch processing completed'
+  );
+}
+
+/**
+ * Resume all unfinished journaled pool runs
+ *
+ * @param poolTypeName Optional pool type filter
+ * @returns Batch result with one entry per resumed run
+ */
+export async function resumeIncompletePools(
+  poolTypeName?: string
+): Promise<BatchProcessingResult> {
+  const entries = await listIncompleteJournalEntries(poolTypeName);
+
+  const result: BatchProcessingResult = {
+    total: entries.length,
+    success: 0,
+    failed: 0,
+    skipped: 0,
+    results: [],
+  };
+
+  if (entries.length === 0) {
+    log.info('No unfinished pool runs in journal');
+    return result;
+  }
+
+  log.info({ runCount: entries.length }, 'Found unfinished pool runs in journal');
+
+  for (const entry of entries) {
+    try {
+      const poolResult = await resumePool(getPoolType(entry.pool_type), entry);
+      result.success++;
+      result.results.push({
+        day: entry.day,
+        period: entry.period,
+        success: true,
+        skipped: false,
+        ...(poolResult.transaction_hash && { txHash: poolResult.transaction_hash }),
+      });
+    } catch (error) {
+      result.failed++;
+      result.results.push({
+        day: entry.day,
+        period: entry.period,
+        success: false,
+        skipped: false,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      log.error(
+        { error, poolType: entry.pool_type, pool: { day: entry.day, period: entry.period } },
+        'Failed to resume pool run'
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build the dry-run result for a fully calculated pool
+ *
+ * Signs all claims with a preview expiry so the report shows exactly
+ * what would be stored, and includes the calldata that would be sent.
+ */
+async function buildDryRunResult<TUser extends BasePoolUser, TReward>(
+  poolType: PoolType<TUser, TReward>,
+  day: number,
+  period: 0 | 1,
+  calculated: CalculatedPool<TUser, TReward>,
+  contractConfig: PoolContractConfig,
+  verifier: VerifierKey,
+  chainId: string
+): Promise<ProcessingResult> {
+  log.info('Dry run: skipping on-chain finalization and database storage');
+
+  const { users, merkleTree } = calculated;
+  const { rewards, ...totals } = calculated.outcome;
+  const expiry = calculateExpiry();
+  const claims = await poolType.signClaims(
+    users,
+    rewards,
+    merkleTree,
+    contractConfig,
+    verifier,
+    chainId,
+    expiry
+  );
+
+  const call = buildSetMerkleRootCall(
+    contractConfig.contract_address,
+    day,
+    period,
+    merkleTree.root,
+    totals.newRewards,
+    totals.protocolFees
+  );
+
+  const generatedAt = new Date().toISOString();
+
+  const report: DryRunReport = {
+    pool_type: poolType.name,
+    day,
+    period,
+    merkle_root: merkleTree.root,
+    total_slashed_amount: totals.totalSlashed.toString(),
+    new_rewards: totals.newRewards.toString(),
+    protocol_fees: totals.protocolFees.toString(),
+    total_users: users.length,
+    winners: countWinners(calculated.outcome),
+    slash_schedule_version: totals.slashScheduleVersion,
+    protocol_fee_bps: totals.protocolFeeBps,
+    fee_split: totals.feeSplit,
+    reward_allocation: totals.rewardAllocation,
+    ...(totals.rewardWeighting && { reward_weighting: totals.rewardWeighting }),
+    token: totals.token,
+    carried_in: totals.carriedIn.toString(),
+    ...(totals.rollover && { rollover: totals.rollover }),
+    expiry,
+    call: {
+      contract_address: call.contractAddress,
+      entrypoint: call.entrypoint,
+      calldata: (call.calldata as string[]).map((v) => v.toString()),
+    },
+    claims: claims.map((claim) => ({
+      uuid: claim.user.uuid,
+      id: claim.user.id,
+      address: claim.user.address,
+      reward_amount: claim.reward_amount,
+      merkle_proof: claim.merkle_proof,
+      message_hash: claim.signature.message_hash,
+      signature_r: claim.signature.signature_r,
+      signature_s: claim.signature.signature_s,
+      key_id: claim.signature.key_id,
+    })),
+    generated_at: generatedAt,
+  };
+
+  log.info(
+    {
+      poolType: poolType.name,
+      pool: { day, period },
+      merkleRoot: merkleTree.root,
+      claimCount: claims.length,
+    },
+    'Dry run completed'
+  );
+
+  return {
+    success: true,
+    message: 'Dry run - no transaction sent, nothing stored',
+    pool_info: {
+      day,
+      period,
+      merkle_root: merkleTree.root,
+      total_slashed_amount: totals.totalSlashed.toString(),
+      new_rewards: totals.newRewards.toString(),
+      protocol_fees: totals.protocolFees.toString(),
+      transaction_hash: '',
+      total_users: users.length,
+      winners: countWinners(calculated.outcome),
+      processed_at: generatedAt,
+      blockchain_status: 'dry_run',
+      slash_schedule_version: totals.slashScheduleVersion,
+      protocol_fee_bps: totals.protocolFeeBps,
+      fee_split: totals.feeSplit,
+      reward_allocation: totals.rewardAllocation,
+      ...(totals.rewardWeighting && { reward_weighting: totals.rewardWeighting }),
+      token: totals.token,
+      carried_in: totals.carriedIn.toString(),
+      ...(totals.rollover && { rollover: totals.rollover }),
+    },
+    dry_run_report: report,
+  };
+}
+
+/**
+ * Winners of a pool (refunded users of a rolled-over pot are not winners)
+ */
+function countWinners(outcome: PoolOutcome<unknown>): number {
+  return outcome.rollover ? 0 : outcome.rewards.length;
+}
+
+/**
+ * Delay helper
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
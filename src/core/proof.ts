@@ -0,0 +1,71 @@
+/**
+ * Stored claim proof verification
+ *
+ * Re-checks a claim stored in user_claim_data / user_claim_data_locks
+ * the way the contract does: rebuild the leaf from the stored claim,
+ * hash it up the stored proof and compare with the merkle root from
+ * get_pool_info. Used by support when a user's claim reverts.
+ */
+
+import { BasePoolUser } from '../types/common.js';
+import { PoolType, ProofVerification } from '../types/pool.js';
+import { computeMerkleRootFromProof } from './calculator.js';
+import { getBlockchainService } from './blockchain.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('proof');
+
+/**
+ * Verify a stored claim against the on-chain merkle root
+ *
+ * @param poolType Pool type the record belongs to
+ * @param id Record UUID (alarm / focus lock)
+ * @returns Verification result, or null if the record has no stored claim
+ */
+export async function verifyStoredClaim<TUser extends BasePoolUser, TReward>(
+  poolType: PoolType<TUser, TReward>,
+  id: string
+): Promise<ProofVerification | null> {
+  const claim = await poolType.fetchStoredClaim(id);
+
+  if (!claim) {
+    log.warn({ poolType: poolType.name, id }, 'No stored claim found');
+    return null;
+  }
+
+  const { contract_address } = poolType.getContractConfig();
+  const blockchainService = getBlockchainService();
+  await blockchainService.initialize();
+
+  const poolInfo = await blockchainService.getPoolInfo(
+    contract_address,
+    claim.day,
+    claim.period
+  );
+
+  const computedRoot = computeMerkleRootFromProof(claim.leaf, claim.merkle_proof);
+  const valid = poolInfo.is_finalized && BigInt(computedRoot) === BigInt(poolInfo.merkle_root);
+
+  log.info(
+    {
+      poolType: poolType.name,
+      id,
+      pool: { day: claim.day, period: claim.period },
+      leaf: claim.leaf,
+      proofLength: claim.merkle_proof.length,
+      computedRoot,
+      onChainRoot: poolInfo.merkle_root,
+      isFinalized: poolInfo.is_finalized,
+      valid,
+    },
+    valid ? 'Stored claim proof verified' : 'Stored claim proof does not verify'
+  );
+
+  return {
+    claim,
+    computed_root: computedRoot,
+    onchain_root: poolInfo.merkle_root,
+    is_finalized: poolInfo.is_finalized,
+    valid,
+  };
+}
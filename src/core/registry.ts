@@ -0,0 +1,58 @@
+/**
+ * Pool type registry
+ *
+ * Pool types register themselves here so the CLI and cron processor
+ * can iterate over every supported pool without knowing them upfront.
+ * Token sub-pools (see token-pools.ts) are not registered; they are
+ * derived from their pool type.
+ */
+
+import { AnyPoolType } from '../types/pool.js';
+import { getTokenPoolTypes } from './token-pools.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('registry');
+
+const poolTypes = new Map<string, AnyPoolType>();
+
+/**
+ * Register a pool type
+ * @throws {Error} If a pool type with the same name is already registered
+ */
+export function registerPoolType(poolType: AnyPoolType): void {
+  if (poolTypes.has(poolType.name)) {
+    throw new Error(`Pool type already registered: ${poolType.name}`);
+  }
+
+  poolTypes.set(poolType.name, poolType);
+  log.debug({ poolType: poolType.name }, 'Registered pool type');
+}
+
+/**
+ * Get a registered pool type or token sub-pool type by name (e.g. 'alarm-strk')
+ * @throws {Error} If the pool type is unknown
+ */
+export function getPoolType(name: string): AnyPoolType {
+  const poolType =
+    poolTypes.get(name) ?? getAllTokenPoolTypes().find((tokenPool) => tokenPool.name === name);
+  if (!poolType) {
+    throw new Error(
+      `Unknown pool type: ${name}. Registered: ${[...poolTypes.keys()].join(', ')}`
+    );
+  }
+  return poolType;
+}
+
+/**
+ * Get all registered pool types in registration order
+ */
+export function getPoolTypes(): AnyPoolType[] {
+  return [...poolTypes.values()];
+}
+
+/**
+ * Get every registered pool type followed by its token sub-pool types
+ */
+export function getAllTokenPoolTypes(): AnyPoolType[] {
+  return getPoolTypes().flatMap((poolType) => getTokenPoolTypes(poolType));
+}
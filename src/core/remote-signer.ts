@@ -0,0 +1,94 @@
+/**
+ * Remote signer client
+ *
+ * Talks to a signing service that holds the keys, so they never enter
+ * the processor. Protocol (JSON over HTTP, optional bearer token):
+ *
+ *   GET  /v1/keys/:keyId       -> { key_id, public_key }
+ *   POST /v1/keys/:keyId/sign  { message_hash } -> { r, s }
+ *
+ * Errors are returned as { error } with a 4xx/5xx status. Transient
+ * failures (network, 5xx) are retried with the RPC retry policy.
+ *
+ * src/signer-server.ts is a stand-in implementation of the service.
+ */
+
+import { Signer, StarkSignature } from '../types/signer.js';
+import { getRetryConfig } from './config.js';
+import { withRetry } from './retry.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('remote-signer');
+
+/**
+ * Timeout for a single signer request
+ */
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Signer backed by a remote signing service
+ */
+export class RemoteSigner implements Signer {
+  readonly name = 'remote';
+  private publicKey: string | null = null;
+
+  /**
+   * @param url Base URL of the signing service
+   * @param keyId Key to sign with
+   * @param token Bearer token, if the service requires one
+   */
+  constructor(
+    private readonly url: string,
+    private readonly keyId: string,
+    private readonly token?: string
+  ) {}
+
+  async getPublicKey(): Promise<string> {
+    if (!this.publicKey) {
+      const { public_key } = await this.request<{ public_key: string }>('GET', '');
+      this.publicKey = public_key;
+      log.info({ keyId: this.keyId, publicKey: public_key }, 'Remote signer key resolved');
+    }
+    return this.publicKey;
+  }
+
+  async signHash(messageHash: string): Promise<StarkSignature> {
+    const { r, s } = await this.request<StarkSignature>('POST', '/sign', {
+      message_hash: messageHash,
+    });
+    return { r, s };
+  }
+
+  /**
+   * Send a request for this key, retrying transient failures
+   */
+  private request<T>(method: 'GET' | 'POST', path: string, body?: object): Promise<T> {
+    const url = `${this.url.replace(/\/$/, '')}/v1/keys/${encodeURIComponent(this.keyId)}${path}`;
+
+    return withRetry(
+      `remote signer ${method} ${path || '/'}`,
+      async () => {
+        const response = await fetch(url, {
+          method,
+          headers: {
+            'content-type': 'application/json',
+            ...(this.token && { authorization: `Bearer ${this.token}` }),
+          },
+          ...(body && { body: JSON.stringify(body) }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        if (!response.ok) {
+          // Status in the message so 5xx responses are classified as transient
+          throw new Error(
+            `Remote signer request failed: ${response.status} ${payload.error ?? response.statusText}`
+          );
+        }
+
+        return payload as T;
+      },
+      getRetryConfig()
+    );
+  }
+}
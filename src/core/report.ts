@@ -0,0 +1,56 @@
+/**
+ * Dry-run report output
+ *
+ * Prints dry-run reports to stdout or writes them to a JSON file
+ * so ops can review a run before executing it for real.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { DryRunReport } from '../types/common.js';
+import { formatTokenAmount } from './tokens.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('report');
+
+/**
+ * One-line summary of a report with token-formatted amounts
+ */
+function summarizeReport(report: DryRunReport): string {
+  const format = (amount: string): string => formatTokenAmount(amount, report.token);
+  return (
+    `${report.pool_type} day ${report.day} period ${report.period}: ` +
+    `slashed ${format(report.total_slashed_amount)}, new rewards ${format(report.new_rewards)}, ` +
+    `protocol fees ${format(report.protocol_fees)}, ${report.winners}/${report.total_users} winners`
+  );
+}
+
+/**
+ * Output dry-run reports
+ *
+ * @param reports Reports to output (one per processed pool)
+ * @param reportPath Optional JSON file path; prints to stdout when omitted
+ */
+export function outputDryRunReports(
+  reports: DryRunReport[],
+  reportPath?: string
+): void {
+  const json = JSON.stringify(reports, null, 2);
+
+  if (!reportPath) {
+    console.log('\n=== Dry Run Report ===');
+    for (const report of reports) {
+      console.log(summarizeReport(report));
+    }
+    console.log(json);
+    return;
+  }
+
+  const absolutePath = resolve(reportPath);
+  writeFileSync(absolutePath, json + '\n', 'utf8');
+
+  log.info(
+    { path: absolutePath, reportCount: reports.length },
+    'Dry-run report written'
+  );
+}
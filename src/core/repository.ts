@@ -0,0 +1,54 @@
+/**
+ * Storage backend selection
+ *
+ * Backends:
+ * - supabase: production database (default)
+ * - memory:   in-process tables, empty on start
+ * - file:     in-process tables loaded from / saved to STORAGE_FILE
+ *
+ * Selected with STORAGE_BACKEND. Tests and scripts can inject a
+ * backend directly with setPoolRepository().
+ */
+
+import { PoolRepository } from '../types/repository.js';
+import { getStorageConfig } from './config.js';
+import { SupabasePoolRepository } from './supabase-repository.js';
+import { InMemoryPoolRepository } from './memory-repository.js';
+import { FilePoolRepository } from './file-repository.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('repository');
+
+let repository: PoolRepository | null = null;
+
+/**
+ * Get the configured pool repository (singleton)
+ */
+export function getPoolRepository(): PoolRepository {
+  if (!repository) {
+    const { backend, filePath } = getStorageConfig();
+
+    switch (backend) {
+      case 'memory':
+        repository = new InMemoryPoolRepository();
+        break;
+      case 'file':
+        repository = new FilePoolRepository(filePath);
+        break;
+      case 'supabase':
+        repository = new SupabasePoolRepository();
+        break;
+    }
+
+    log.info({ backend: repository.name }, 'Storage backend selected');
+  }
+  return repository;
+}
+
+/**
+ * Replace the pool repository (e.g. with a pre-seeded in-memory store)
+ */
+export function setPoolRepository(repo: PoolRepository): void {
+  repository = repo;
+  log.info({ backend: repo.name }, 'Storage backend set');
+}
@@ -0,0 +1,181 @@
+/**
+ * Retry with exponential backoff for blockchain calls
+ *
+ * Errors are classified as:
+ * - transient: network failures, timeouts, rate limits, 5xx responses
+ * - unsent:    transient errors proving the request never reached the node
+ *              (connection refused, DNS failure) or was refused (rate limit)
+ * - nonce:     the account nonce moved (nonce too low / invalid nonce)
+ * - anything else (reverts, validation errors) is never retried
+ *
+ * Callers decide which classes to retry; BlockchainService retries
+ * transient errors on reads, and only unsent and nonce errors when
+ * broadcasting: after a timeout or 5xx the transaction may be on its way.
+ */
+
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('retry');
+
+/**
+ * Retry policy
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one
+  baseDelayMs: number; // Delay before the first retry
+  maxDelayMs: number; // Upper bound for a single delay
+}
+
+/**
+ * Default policy (matches the RPC_RETRY_* config defaults)
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+/**
+ * Messages of errors worth retrying (network, timeouts, rate limits, 5xx)
+ */
+const TRANSIENT_ERROR_PATTERN =
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|ENOTFOUND|EPIPE|socket hang up|fetch failed|network|timed? ?out|rate limit|too many requests|\b429\b|\b50[234]\b|bad gateway|service unavailable|gateway timeout/i;
+
+/**
+ * Messages of requests that never reached the node or that it refused unhandled
+ */
+const UNSENT_ERROR_PATTERN = /ECONNREFUSED|ENOTFOUND|EAI_AGAIN|rate limit|too many requests|\b429\b/i;
+
+/**
+ * Messages of paymaster rejections (SNIP-29 errors, unsupported fee token,
+ * exhausted sponsoring, no paymaster): the paymaster broadcast nothing
+ */
+const PAYMASTER_REJECTION_PATTERN =
+  /TOKEN_NOT_SUPPORTED|INVALID_ADDRESS|INVALID_SIGNATURE|MAX_AMOUNT_TOO_LOW|CLASS_HASH_NOT_SUPPORTED|TRANSACTION_EXECUTION_ERROR|INVALID_TIME_BOUNDS|INVALID_DEPLOYMENT_DATA|INVALID_CLASS_HASH|not supported|rejected|quota|insufficient credits|paymaster not (configured|enabled)/i;
+
+/**
+ * Messages of rejected account nonces (RPC error 52 and node variants)
+ */
+const NONCE_ERROR_PATTERN = /invalid transaction nonce|nonce too low|nonce is too low|InvalidTransactionNonce/i;
+
+/**
+ * Messages of transactions included as reverted (see confirmMerkleRoots)
+ */
+const REVERTED_TRANSACTION_PATTERN = /Transaction failed with status: REVERTED/;
+
+/**
+ * Messages of transactions the node does not know (yet)
+ */
+const UNKNOWN_TRANSACTION_PATTERN = /transaction hash not found|TXN_HASH_NOT_FOUND/i;
+
+/**
+ * Check if an error is a transient RPC failure
+ */
+export function isTransientError(error: unknown): boolean {
+  return TRANSIENT_ERROR_PATTERN.test(errorMessage(error));
+}
+
+/**
+ * Check if an error proves a request was not handled by the node
+ *
+ * Only these transient errors are safe to retry when broadcasting.
+ */
+export function isUnsentError(error: unknown): boolean {
+  return UNSENT_ERROR_PATTERN.test(errorMessage(error));
+}
+
+/**
+ * Check if an error is the paymaster refusing a sponsored transaction
+ */
+export function isPaymasterRejection(error: unknown): boolean {
+  return PAYMASTER_REJECTION_PATTERN.test(errorMessage(error));
+}
+
+/**
+ * Check if an error is a rejected account nonce
+ */
+export function isNonceError(error: unknown): boolean {
+  return NONCE_ERROR_PATTERN.test(errorMessage(error));
+}
+
+/**
+ * Check if an error means the node does not know a transaction hash
+ *
+ * Right after broadcast a node may not have seen the tx yet.
+ */
+export function isUnknownTransactionError(error: unknown): boolean {
+  return UNKNOWN_TRANSACTION_PATTERN.test(errorMessage(error));
+}
+
+/**
+ * Check if an error means a transaction was included but reverted
+ */
+export function isRevertedTransactionError(error: unknown): boolean {
+  return REVERTED_TRANSACTION_PATTERN.test(errorMessage(error));
+}
+
+/**
+ * Delay before retry number `retry` (1-based): base * 2^(retry-1), capped
+ */
+export function backoffDelay(retry: number, policy: RetryPolicy): number {
+  return Math.min(policy.baseDelayMs * 2 ** (retry - 1), policy.maxDelayMs);
+}
+
+/**
+ * Run an operation, retrying with exponential backoff
+ *
+ * @param operation Operation name for logs
+ * @param fn Operation to run
+ * @param policy Attempts and delays
+ * @param shouldRetry Which errors to retry (default: transient errors)
+ * @throws The last error once attempts are exhausted or it is not retryable
+ */
+export async function withRetry<T>(
+  operation: string,
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  shouldRetry: (error: unknown) => boolean = isTransientError
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !shouldRetry(error)) {
+        if (attempt > 1) {
+          log.error(
+            { operation, attempt, error: errorMessage(error) },
+            'Operation failed after retries'
+          );
+        }
+        throw error;
+      }
+
+      const delayMs = backoffDelay(attempt, policy);
+      log.warn(
+        {
+          operation,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          delayMs,
+          error: errorMessage(error),
+        },
+        'Operation failed, retrying'
+      );
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Error message of an unknown thrown value
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Sleep helper
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,153 @@
+/**
+ * Rollover ledger
+ *
+ * Pools without winners record their reward pot here. A carried pot
+ * stays pending until the next processed pool of the same type takes it:
+ *
+ *   pending -> reserved (pool ready to finalize) -> applied (pool stored)
+ *
+ * The reservation keeps two pools from taking the same pot (e.g. in one
+ * multicall) and lets a resumed run recompute the same reward pot. It is
+ * released if the run fails before it is journaled. Refunded and
+ * treasury pots are recorded as settled with their own pool.
+ */
+
+import { PoolOutcome } from '../types/pool.js';
+import { RolloverEntry, RolloverStatus } from '../types/rollover.js';
+import { getPoolRepository } from './repository.js';
+import { formatTokenAmount } from './tokens.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('rollover');
+
+/**
+ * Carried pots a pool adds to its reward pot: pending carries from
+ * earlier pools, plus those already reserved for (or applied to) it
+ */
+export async function findCarriesFor(
+  poolType: string,
+  day: number,
+  period: 0 | 1
+): Promise<RolloverEntry[]> {
+  const entries = await getPoolRepository().fetchRolloverEntries(poolType);
+
+  return entries.filter(
+    (entry) =>
+      entry.policy === 'carry' &&
+      (entry.status === 'pending'
+        ? entry.day < day || (entry.day === day && entry.period < period)
+        : entry.applied_day === day && entry.applied_period === period)
+  );
+}
+
+/**
+ * Total of ledger entries
+ */
+export function sumRollovers(entries: RolloverEntry[]): bigint {
+  return entries.reduce((sum, entry) => sum + BigInt(entry.amount), 0n);
+}
+
+/**
+ * Reserve pending carries for a pool that is about to be finalized
+ */
+export async function reserveCarries(
+  entries: RolloverEntry[],
+  day: number,
+  period: 0 | 1
+): Promise<void> {
+  for (const entry of entries.filter((e) => e.status === 'pending')) {
+    await updateEntry(entry, 'reserved', day, period);
+  }
+}
+
+/**
+ * Undo reserveCarries() for the same entries (run failed before it was journaled)
+ */
+export async function releaseCarries(entries: RolloverEntry[]): Promise<void> {
+  for (const entry of entries.filter((e) => e.status === 'pending')) {
+    await updateEntry(entry, 'pending', null, null);
+  }
+}
+
+/**
+ * Update the ledger once a pool is stored: mark its carries applied and
+ * record its own rollover
+ *
+ * An existing row for the pool is kept, so reprocessing never re-opens a
+ * pot that a later pool already took.
+ */
+export async function recordPoolRollover(
+  poolType: string,
+  day: number,
+  period: 0 | 1,
+  carries: RolloverEntry[],
+  outcome: PoolOutcome<unknown>
+): Promise<void> {
+  const repository = getPoolRepository();
+
+  for (const entry of carries.filter((e) => e.status !== 'applied')) {
+    await updateEntry(entry, 'applied', day, period);
+  }
+
+  if (!outcome.rollover) {
+    return;
+  }
+
+  const existing = (await repository.fetchRolloverEntries(poolType)).find(
+    (entry) => entry.day === day && entry.period === period
+  );
+  if (existing) {
+    log.warn({ poolType, pool: { day, period } }, 'Rollover already recorded for pool');
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const { policy, amount } = outcome.rollover;
+
+  await repository.saveRolloverEntry({
+    pool_type: poolType,
+    day,
+    period,
+    policy,
+    amount,
+    status: policy === 'carry' ? 'pending' : 'settled',
+    applied_day: null,
+    applied_period: null,
+    created_at: now,
+    updated_at: now,
+  });
+
+  log.info(
+    { poolType, pool: { day, period }, policy, amount: formatTokenAmount(amount, outcome.token) },
+    'Rollover recorded'
+  );
+}
+
+/**
+ * Move a ledger row to a new status
+ */
+async function updateEntry(
+  entry: RolloverEntry,
+  status: RolloverStatus,
+  appliedDay: number | null,
+  appliedPeriod: 0 | 1 | null
+): Promise<void> {
+  await getPoolRepository().saveRolloverEntry({
+    ...entry,
+    status,
+    applied_day: appliedDay,
+    applied_period: appliedPeriod,
+    updated_at: new Date().toISOString(),
+  });
+
+  log.info(
+    {
+      poolType: entry.pool_type,
+      from: { day: entry.day, period: entry.period },
+      to: appliedDay === null ? null : { day: appliedDay, period: appliedPeriod },
+      amount: entry.amount,
+      status,
+    },
+    'Rollover ledger updated'
+  );
+}
@@ -0,0 +1,234 @@
+/**
+ * Starknet RPC chain client
+ *
+ * Handles:
+ * - Starknet RPC provider initialization
+ * - Deployer account transactions (self-paid or sponsored via AVNU paymaster),
+ *   signed through the configured deployer signer
+ * - Receipts, fee estimates and contract reads
+ */
+
+import {
+  Account,
+  RpcProvider,
+  PaymasterRpc,
+  Call,
+  Signature,
+  Signer as StarknetSigner,
+} from 'starknet';
+import { getCoreConfig, hasPaymasterConfig } from './config.js';
+import { getSigner, describeSigner } from './signer.js';
+import { createModuleLogger } from './logger.js';
+import { toHexString } from './calculator.js';
+import { OnChainPoolInfo } from '../types/common.js';
+import { ChainClient, ChainReceipt, ChainFeeEstimate } from '../types/chain.js';
+import { Signer } from '../types/signer.js';
+
+const log = createModuleLogger('blockchain');
+
+/**
+ * starknet.js signer that hands transaction hashes to a processor Signer
+ *
+ * starknet.js computes the transaction hashes; only the raw hash signing
+ * goes through the configured backend (env key, keystore or remote).
+ */
+class DelegatingSigner extends StarknetSigner {
+  constructor(private readonly signer: Signer) {
+    // The base class key is never used: getPubKey and signRaw are delegated
+    super();
+  }
+
+  override getPubKey(): Promise<string> {
+    return this.signer.getPublicKey();
+  }
+
+  protected override async signRaw(msgHash: string): Promise<Signature> {
+    const { r, s } = await this.signer.signHash(msgHash);
+    return [r, s];
+  }
+}
+
+/**
+ * Chain client backed by a Starknet RPC node
+ */
+export class RpcChainClient implements ChainClient {
+  readonly name = 'rpc';
+  private provider: RpcProvider | null = null;
+  private account: Account | null = null;
+  private sponsored = false;
+
+  /**
+   * Initialize Starknet provider and account
+   */
+  async initialize(): Promise<void> {
+    if (this.provider && this.account) {
+      return;
+    }
+
+    const config = getCoreConfig();
+    if (!config.starknetRpcUrl || !config.deployerAddress || !config.deployerSigner) {
+      throw new Error(
+        'RPC chain configuration not available. Set STARKNET_RPC_URL, DEPLOYER_ADDRESS and DEPLOYER_PRIVATE_KEY (or DEPLOYER_SIGNER) in .env'
+      );
+    }
+
+    // Initialize Starknet RPC provider
+    // Use 'latest' as blockIdentifier for Alchemy compatibility
+    this.provider = new RpcProvider({
+      nodeUrl: config.starknetRpcUrl,
+      // chainId will be auto-detected
+    });
+
+    log.info({ rpcUrl: config.starknetRpcUrl }, 'Starknet provider initialized');
+
+    // AVNU paymaster for sponsored transactions (only with an API key)
+    this.sponsored = hasPaymasterConfig();
+    const paymaster = this.sponsored
+      ? new PaymasterRpc({
+          nodeUrl: config.avnuPaymasterRpc,
+          headers: { 'x-paymaster-api-key': config.avnuPaymasterApiKey },
+        })
+      : undefined;
+
+    if (paymaster) {
+      log.info({ paymasterUrl: config.avnuPaymasterRpc }, 'AVNU paymaster configured');
+    }
+
+    // Initialize account for starknet.js v9
+    // The Account class takes an options object
+    this.account = new Account({
+      provider: this.provider,
+      address: config.deployerAddress,
+      signer: new DelegatingSigner(getSigner(config.deployerSigner)),
+      ...(paymaster && { paymaster }),
+    });
+
+    log.info(
+      { address: config.deployerAddress, signer: describeSigner(config.deployerSigner) },
+      'Deployer account initialized'
+    );
+  }
+
+  /**
+   * Ensure client is initialized
+   */
+  private connection(): { provider: RpcProvider; account: Account } {
+    if (!this.provider || !this.account) {
+      throw new Error('RPC chain client not initialized. Call initialize() first.');
+    }
+    return { provider: this.provider, account: this.account };
+  }
+
+  async getNonce(): Promise<string> {
+    // Get nonce explicitly (starknet.js v9 API)
+    const nonce = await this.connection().account.getNonce();
+    return nonce.toString();
+  }
+
+  async execute(calls: Call[], nonce: string): Promise<string> {
+    // Execute transaction with starknet.js v9 API
+    // execute(calls, details?) - details include nonce and fee settings
+    const result = await this.connection().account.execute(calls, { nonce });
+    return result.transaction_hash;
+  }
+
+  canSponsor(): boolean {
+    return this.sponsored;
+  }
+
+  async executeSponsored(calls: Call[]): Promise<string> {
+    if (!this.sponsored) {
+      throw new Error('AVNU paymaster not configured. Set AVNU_PAYMASTER_API_KEY in .env');
+    }
+
+    const result = await this.connection().account.executePaymasterTransaction(calls, {
+      feeMode: { mode: 'sponsored' },
+    });
+    return result.transaction_hash;
+  }
+
+  async waitForReceipt(txHash: string): Promise<ChainReceipt> {
+    const receipt = await this.connection().provider.waitForTransaction(txHash);
+
+    const status =
+      'execution_status' in receipt ? receipt.execution_status : 'SUCCEEDED';
+    const revertReason =
+      'revert_reason' in receipt && typeof receipt.revert_reason === 'string'
+        ? receipt.revert_reason
+        : undefined;
+
+    return {
+      transaction_hash: txHash,
+      execution_status: status === 'REVERTED' ? 'REVERTED' : 'SUCCEEDED',
+      ...(revertReason && { revert_reason: revertReason }),
+    };
+  }
+
+  async getPoolInfo(
+    contractAddress: string,
+    day: number,
+    period: 0 | 1
+  ): Promise<OnChainPoolInfo> {
+    const response = await this.connection().provider.callContract({
+      contractAddress,
+      entrypoint: 'get_pool_info',
+      calldata: [day.toString(), period.toString()],
+    });
+
+    return decodePoolInfo(response);
+  }
+
+  async getVerifierPublicKey(contractAddress: string): Promise<string> {
+    const response = await this.connection().provider.callContract({
+      contractAddress,
+      entrypoint: 'get_verifier_public_key',
+      calldata: [],
+    });
+
+    const [publicKey] = response;
+    if (publicKey === undefined) {
+      throw new Error('Unexpected get_verifier_public_key response: expected 1 felt, got 0');
+    }
+    return toHexString(BigInt(publicKey));
+  }
+
+  async estimateFee(calls: Call[]): Promise<ChainFeeEstimate> {
+    const estimate = await this.connection().account.estimateInvokeFee(calls);
+    return {
+      overall_fee: estimate.overall_fee,
+      unit: estimate.unit,
+    };
+  }
+}
+
+/**
+ * Decode a get_pool_info response
+ *
+ * Response layout (felts):
+ * (merkle_root, is_finalized, pool_reward.low, pool_reward.high,
+ *  user_count, total_staked.low, total_staked.high)
+ *
+ * @throws {Error} If the response is shorter than expected
+ */
+export function decodePoolInfo(response: unknown): OnChainPoolInfo {
+  const felts: string[] = Array.isArray(response)
+    ? response
+    : (response as { result?: string[] }).result ?? [];
+
+  if (felts.length < 7) {
+    throw new Error(
+      `Unexpected get_pool_info response: expected 7 felts, got ${felts.length}`
+    );
+  }
+
+  const [root, finalized, rewardLow, rewardHigh, userCount, stakedLow, stakedHigh] =
+    felts.map((felt) => BigInt(felt)) as [bigint, bigint, bigint, bigint, bigint, bigint, bigint];
+
+  return {
+    merkle_root: toHexString(root),
+    is_finalized: finalized !== 0n,
+    pool_reward: rewardLow + (rewardHigh << 128n),
+    user_count: userCount,
+    total_staked: stakedLow + (stakedHigh << 128n),
+  };
+}
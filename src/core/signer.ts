@@ -0,0 +1,73 @@
+/**
+ * Signer backend selection
+ *
+ * Backends:
+ * - env:      private key from the key's *_PRIVATE_KEY variable (default)
+ * - keystore: encrypted keystore file unlocked with KEYSTORE_PASSPHRASE
+ * - remote:   remote signing service at REMOTE_SIGNER_URL
+ *
+ * Selected per key with ALARM_VERIFIER_SIGNER, FOCUS_VERIFIER_SIGNER and
+ * DEPLOYER_SIGNER. Signers are created once per key, so a keystore is
+ * unlocked and a remote public key fetched only once per process.
+ */
+
+import { Signer, SignerConfig } from '../types/signer.js';
+import { PrivateKeySigner } from './key-signer.js';
+import { KeystoreSigner } from './keystore-signer.js';
+import { RemoteSigner } from './remote-signer.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('signer');
+
+const signers = new Map<string, Signer>();
+
+/**
+ * Get the signer for a key configuration (one instance per key)
+ */
+export function getSigner(config: SignerConfig): Signer {
+  const cacheKey = signerCacheKey(config);
+  let signer = signers.get(cacheKey);
+
+  if (!signer) {
+    switch (config.backend) {
+      case 'env':
+        signer = new PrivateKeySigner(config.private_key);
+        break;
+      case 'keystore':
+        signer = new KeystoreSigner(config.path, config.passphrase);
+        break;
+      case 'remote':
+        signer = new RemoteSigner(config.url, config.key_id, config.token);
+        break;
+    }
+
+    signers.set(cacheKey, signer);
+    log.info({ backend: signer.name, key: describeSigner(config) }, 'Signer created');
+  }
+  return signer;
+}
+
+/**
+ * Human readable key reference for logs and errors (never the key itself)
+ */
+export function describeSigner(config: SignerConfig): string {
+  switch (config.backend) {
+    case 'env':
+      return 'env';
+    case 'keystore':
+      return `keystore:${config.path}`;
+    case 'remote':
+      return `remote:${config.key_id}`;
+  }
+}
+
+/**
+ * Cache key identifying the key a configuration points to
+ */
+function signerCacheKey(config: SignerConfig): string {
+  return config.backend === 'env'
+    ? `env:${config.private_key}`
+    : config.backend === 'remote'
+      ? `remote:${config.url}:${config.key_id}`
+      : describeSigner(config);
+}
@@ -0,0 +1,96 @@
+/**
+ * Versioned slash schedules
+ *
+ * Built-in schedules are referenced by version. A contract deployment
+ * with different rules can use an inline table instead:
+ *
+ *   ALARM_SLASH_SCHEDULE=alarm-v1              (built-in)
+ *   ALARM_SLASH_SCHEDULE=alarm-v2:100,90,60,0  (<version>:<return % per slash count>)
+ *
+ * A released version must never change meaning: add a new version
+ * instead, so recorded pools stay reproducible.
+ */
+
+import { SlashSchedule, SlashScheduleTable } from '../types/slashing.js';
+
+/**
+ * Built-in schedules by version
+ */
+export const SLASH_SCHEDULES: Readonly<Record<string, SlashSchedule>> = {
+  'alarm-v1': {
+    version: 'alarm-v1',
+    kind: 'table',
+    return_percent: [100, 80, 50, 0],
+    description: '0 snoozes 100%, 1 snooze 80%, 2 snoozes 50%, 3+ snoozes 0%',
+  },
+  'focus-v1': {
+    version: 'focus-v1',
+    kind: 'table',
+    return_percent: [100, 0],
+    description: 'Completed 100%, failed 0%',
+  },
+};
+
+/**
+ * Resolve a schedule spec: built-in version or inline <version>:<percents>
+ *
+ * @throws {Error} If the version is unknown or the table is invalid
+ */
+export function getSlashSchedule(spec: string): SlashSchedule {
+  const separator = spec.indexOf(':');
+  if (separator === -1) {
+    const schedule = SLASH_SCHEDULES[spec];
+    if (!schedule) {
+      throw new Error(
+        `Unknown slash schedule ${spec} (built-in: ${Object.keys(SLASH_SCHEDULES).join(', ')})`
+      );
+    }
+    return schedule;
+  }
+
+  const version = spec.slice(0, separator);
+  if (SLASH_SCHEDULES[version]) {
+    throw new Error(`Slash schedule version ${version} is built-in and cannot be redefined`);
+  }
+
+  const table = spec.slice(separator + 1).replace(/\s/g, '');
+  if (!/^\d+(,\d+)*$/.test(table)) {
+    throw new Error(`Slash schedule ${version}: expected comma separated return percents`);
+  }
+  const returnPercent = table.split(',').map(Number);
+
+  return validateTable({
+    version,
+    kind: 'table',
+    return_percent: returnPercent,
+    description: `Inline table: ${returnPercent.join('/')}% by slash count`,
+  });
+}
+
+/**
+ * Check an inline table
+ *
+ * @throws {Error} If a percentage is out of range or increases with the slash count
+ */
+function validateTable(schedule: SlashScheduleTable): SlashScheduleTable {
+  const { version, return_percent } = schedule;
+
+  if (!/^[A-Za-z0-9._-]{1,64}$/.test(version)) {
+    throw new Error(`Invalid slash schedule version: ${version}`);
+  }
+
+  return_percent.forEach((percent, slashCount) => {
+    if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+      throw new Error(
+        `Slash schedule ${version}: return for slash count ${slashCount} must be an integer percent (0-100)`
+      );
+    }
+    if (slashCount > 0 && percent > return_percent[slashCount - 1]!) {
+      throw new Error(
+        `Slash schedule ${version}: return must not increase with the slash count (slash count ${slashCount})`
+      );
+    }
+  });
+
+  return schedule;
+}
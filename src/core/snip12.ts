@@ -0,0 +1,214 @@
+/**
+ * SNIP-12 typed data hashing
+ *
+ * Messages are declared as schemas; type hashes, struct hashes and
+ * message hashes are derived from the schema instead of being
+ * hard-coded:
+ *
+ *   type_hash    = starknet_keccak(encoded type)
+ *   struct_hash  = H([type_hash, ...encoded fields])
+ *   message_hash = H(['StarkNet Message', domain_hash, account, struct_hash])
+ *
+ * H is Poseidon for revision 1 and Pedersen for revision 0.
+ */
+
+import { hash, num, shortString } from 'starknet';
+import { Snip12DomainConfig } from '../types/common.js';
+
+/**
+ * Field types used by the claim messages
+ */
+export type Snip12FieldType = 'felt' | 'shortstring' | 'ContractAddress' | 'bool' | 'u8' | 'u64';
+
+/**
+ * Field of a SNIP-12 struct
+ */
+export interface Snip12Field {
+  name: string;
+  type: Snip12FieldType;
+}
+
+/**
+ * SNIP-12 struct schema
+ */
+export interface Snip12Schema {
+  name: string;
+  fields: Snip12Field[];
+  quoted: boolean; // Encode as "Name"("field":"type") (revision 1) instead of Name(field:type)
+}
+
+/**
+ * Field values of a message, by field name
+ */
+export type Snip12Message = Record<string, bigint | number | string | boolean>;
+
+/**
+ * Full signing domain (domain config + chain)
+ */
+export interface Snip12Domain extends Snip12DomainConfig {
+  chainId: string; // Chain ID (hex felt or short string, e.g. SN_SEPOLIA hex)
+}
+
+/**
+ * Domain struct per revision
+ */
+export const STARKNET_DOMAIN_SCHEMAS: Record<0 | 1, Snip12Schema> = {
+  0: {
+    name: 'StarkNetDomain',
+    fields: [
+      { name: 'name', type: 'felt' },
+      { name: 'version', type: 'felt' },
+      { name: 'chainId', type: 'felt' },
+    ],
+    quoted: false,
+  },
+  1: {
+    name: 'StarknetDomain',
+    fields: [
+      { name: 'name', type: 'shortstring' },
+      { name: 'version', type: 'shortstring' },
+      { name: 'chainId', type: 'shortstring' },
+      { name: 'revision', type: 'shortstring' },
+    ],
+    quoted: true,
+  },
+};
+
+/**
+ * Largest value of each unsigned integer type
+ */
+const UINT_MAX: Partial<Record<Snip12FieldType, bigint>> = {
+  u8: 2n ** 8n - 1n,
+  u64: 2n ** 64n - 1n,
+};
+
+/**
+ * Encoded type string of a schema
+ */
+export function encodeType(schema: Snip12Schema): string {
+  const quote = (value: string): string => (schema.quoted ? `"${value}"` : value);
+  const fields = schema.fields.map((field) => `${quote(field.name)}:${quote(field.type)}`);
+  return `${quote(schema.name)}(${fields.join(',')})`;
+}
+
+/**
+ * Type hash of a schema
+ */
+export function getTypeHash(schema: Snip12Schema): bigint {
+  return BigInt(hash.starknetKeccak(encodeType(schema)));
+}
+
+/**
+ * Derive a schema's type hash and check it against the constant the contract uses
+ *
+ * @throws {Error} If the schema no longer matches the contract
+ */
+export function checkTypeHash(schema: Snip12Schema, expected: bigint): bigint {
+  const typeHash = getTypeHash(schema);
+  if (typeHash !== expected) {
+    throw new Error(
+      `SNIP-12 type hash mismatch for ${encodeType(schema)}: ` +
+        `derived 0x${typeHash.toString(16)}, contract expects 0x${expected.toString(16)}`
+    );
+  }
+  return typeHash;
+}
+
+/**
+ * Struct hash of a message
+ *
+ * @throws {Error} If a field is missing or out of range for its type
+ */
+export function getStructHash(
+  schema: Snip12Schema,
+  message: Snip12Message,
+  revision: 0 | 1
+): bigint {
+  const elements = [
+    getTypeHash(schema),
+    ...schema.fields.map((field) => {
+      const value = message[field.name];
+      if (value === undefined) {
+        throw new Error(`Missing SNIP-12 field ${schema.name}.${field.name}`);
+      }
+      return encodeValue(schema, field, value);
+    }),
+  ];
+
+  return hashElements(elements, revision);
+}
+
+/**
+ * Domain hash of a signing domain
+ */
+export function getDomainHash(domain: Snip12Domain): bigint {
+  const { name, version, chainId, revision } = domain;
+  return getStructHash(
+    STARKNET_DOMAIN_SCHEMAS[revision],
+    { name, version, chainId, revision },
+    revision
+  );
+}
+
+/**
+ * Message hash a signer signs for an account
+ */
+export function getMessageHash(
+  schema: Snip12Schema,
+  message: Snip12Message,
+  domain: Snip12Domain,
+  account: string
+): bigint {
+  return hashElements(
+    [
+      BigInt(shortString.encodeShortString('StarkNet Message')),
+      getDomainHash(domain),
+      BigInt(account),
+      getStructHash(schema, message, domain.revision),
+    ],
+    domain.revision
+  );
+}
+
+/**
+ * Encode a field value as a felt
+ */
+function encodeValue(
+  schema: Snip12Schema,
+  field: Snip12Field,
+  value: bigint | number | string | boolean
+): bigint {
+  if (field.type === 'bool') {
+    if (typeof value !== 'boolean') {
+      throw new Error(`SNIP-12 field ${schema.name}.${field.name} must be a boolean`);
+    }
+    return value ? 1n : 0n; // bool to felt252
+  }
+
+  // Short strings: text is encoded ('1' -> 0x31), hex strings and numbers are taken as is
+  const isText = field.type === 'shortstring' || field.type === 'felt';
+  const encoded =
+    isText && typeof value === 'string' && !num.isHex(value)
+      ? BigInt(shortString.encodeShortString(value))
+      : BigInt(value);
+
+  const max = UINT_MAX[field.type];
+  if (encoded < 0n || (max !== undefined && encoded > max)) {
+    throw new Error(
+      `SNIP-12 field ${schema.name}.${field.name} out of range for ${field.type}: ${encoded}`
+    );
+  }
+
+  return encoded;
+}
+
+/**
+ * Hash elements with the revision's hash function
+ */
+function hashElements(elements: bigint[], revision: 0 | 1): bigint {
+  return BigInt(
+    revision === 1
+      ? hash.computePoseidonHashOnElements(elements)
+      : hash.computeHashOnElements(elements)
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Alarm streak multipliers
+ *
+ * A user's streak is the number of consecutive alarms they woke up to
+ * without snoozing, up to and including the current one (0 after a
+ * snooze). History comes from settled alarms (alarms with stored claim
+ * data). With a multiplier curve configured, a winner's reward weight
+ * is stake × multiplier of the highest threshold their streak reached:
+ *
+ *   ALARM_STREAK_MULTIPLIERS=3:11000,7:12500,14:15000
+ *   (3+ wake-ups: 1.1×, 7+: 1.25×, 14+: 1.5×; multipliers in bps)
+ */
+
+import { StreakMultiplier } from '../types/alarm.js';
+import { BPS_BASE } from './fees.js';
+
+/**
+ * Largest multiplier accepted (10×)
+ */
+const MAX_MULTIPLIER_BPS = 100_000;
+
+/**
+ * Settled alarms looked at per user when counting a streak
+ */
+export const MAX_STREAK_LOOKBACK = 365;
+
+/**
+ * Time window of settled alarms looked at when counting a streak (one year)
+ */
+export const STREAK_LOOKBACK_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * Parse a multiplier curve spec (<min streak>:<multiplier bps>,...);
+ * unset disables streaks
+ *
+ * @throws {Error} If an entry is malformed or the curve is not increasing
+ */
+export function parseStreakMultipliers(spec: string | undefined): StreakMultiplier[] {
+  if (!spec) {
+    return [];
+  }
+
+  const curve = spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = /^(\d+):(\d+)$/.exec(entry);
+      if (!match) {
+        throw new Error(
+          `Invalid streak multiplier "${entry}": expected <min streak>:<multiplier bps>`
+        );
+      }
+      return { min_streak: Number(match[1]), multiplier_bps: Number(match[2]) };
+    });
+
+  curve.forEach(({ min_streak, multiplier_bps }, index) => {
+    if (min_streak < 1) {
+      throw new Error('Streak multiplier thresholds start at a streak of 1');
+    }
+    if (multiplier_bps < Number(BPS_BASE) || multiplier_bps > MAX_MULTIPLIER_BPS) {
+      throw new Error(
+        `Streak multiplier for ${min_streak}+ must be ${BPS_BASE}-${MAX_MULTIPLIER_BPS} bps (1×-10×)`
+      );
+    }
+
+    const previous = curve[index - 1];
+    if (
+      previous &&
+      (min_streak <= previous.min_streak || multiplier_bps < previous.multiplier_bps)
+    ) {
+      throw new Error(
+        `Streak multipliers must be listed by increasing streak with non-decreasing multipliers (at ${min_streak})`
+      );
+    }
+  });
+
+  return curve;
+}
+
+/**
+ * Multiplier for a streak (1× below the first threshold)
+ */
+export function streakMultiplierBps(streak: number, curve: StreakMultiplier[]): number {
+  let multiplier = Number(BPS_BASE);
+  for (const step of curve) {
+    if (streak >= step.min_streak) {
+      multiplier = step.multiplier_bps;
+    }
+  }
+  return multiplier;
+}
+
+/**
+ * Reward weight of a stake with a streak (rounded down)
+ */
+export function calculateStreakWeight(
+  stakeAmount: bigint,
+  streak: number,
+  curve: StreakMultiplier[]
+): bigint {
+  return (stakeAmount * BigInt(streakMultiplierBps(streak, curve))) / BPS_BASE;
+}
+
+/**
+ * Streak of the newest settled alarms (newest first): wake-ups before the first snooze
+ */
+export function countStreak(history: Array<{ snooze_count: number }>): number {
+  const firstSnooze = history.findIndex((alarm) => alarm.snooze_count > 0);
+  return firstSnooze === -1 ? history.length : firstSnooze;
+}
@@ -0,0 +1,931 @@
+/**
+ * Supabase storage backend
+ *
+ * Handles:
+ * - Fetching alarm/focus lock data from pools
+ * - Finding unprocessed pools
+ * - Storing processing results (signatures, proofs, merkle roots)
+ * - Reading stored claims
+ * - Reading and writing the rollover ledger
+ * - Reading and writing the processing journal
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { PoolInfo } from '../types/index.js';
+import { AlarmUser, DatabaseAlarmRecord, ClaimDataInsert } from '../types/alarm.js';
+import {
+  FocusLockUser,
+  DatabaseFocusLockRecord,
+  FocusLockClaimData,
+} from '../types/focus.js';
+import { PoolClaim } from '../types/pool.js';
+import { RolloverEntry } from '../types/rollover.js';
+import { JournalEntry } from '../types/journal.js';
+import { TokenConfig } from '../types/token.js';
+import { PoolRepository, StoredClaimRecord } from '../types/repository.js';
+import { getAlarmConfig, getCoreConfig, getFocusToken } from './config.js';
+import {
+  calculatePoolInfo,
+  calculateTimeRange,
+  toAlarmUser,
+  toFocusLockUser,
+  requireRecordToken,
+  distinctTokenSymbols,
+  groupUnprocessedAlarmPools,
+  groupUnprocessedFocusLockPools,
+  latestFocusLockPoolInfo,
+  buildAlarmClaimRows,
+  buildFocusLockClaimRows,
+} from './database.js';
+import { countStreak } from './streaks.js';
+import { createModuleLogger, logDatabaseOperation } from './logger.js';
+
+const log = createModuleLogger('database');
+
+/**
+ * Rows per alarm history page (PostgREST's default max-rows)
+ */
+const HISTORY_PAGE_SIZE = 1000;
+
+/**
+ * PostgREST filter for records staked in a token (records without a
+ * token are in the default token), for use with .or()
+ */
+function tokenFilter(token: TokenConfig, defaultToken: TokenConfig): string {
+  const matches = `token.eq."${token.symbol}"`;
+  return token.symbol === defaultToken.symbol ? `token.is.null,${matches}` : matches;
+}
+
+/**
+ * Journal entry from a processing_journal row (null columns are left out)
+ */
+function fromJournalRow(row: unknown): JournalEntry {
+  const { tx_hash, fee_mode, ...entry } = row as JournalEntry & {
+    tx_hash: string | null;
+    fee_mode: JournalEntry['fee_mode'] | null;
+  };
+  return { ...entry, ...(tx_hash && { tx_hash }), ...(fee_mode && { fee_mode }) };
+}
+
+/**
+ * Pool repository backed by Supabase
+ */
+export class SupabasePoolRepository implements PoolRepository {
+  readonly name = 'supabase';
+  private client: SupabaseClient | null = null;
+
+  /**
+   * Initialize Supabase client (lazily, on first query)
+   */
+  private getClient(): SupabaseClient {
+    if (!this.client) {
+      const { supabaseUrl, supabaseServiceKey } = getCoreConfig();
+      if (!supabaseUrl || !supabaseServiceKey) {
+        throw new Error(
+          'Supabase configuration not available. Set SUPABASE_URL and SUPABASE_SERVICE_KEY in .env'
+        );
+      }
+      this.client = createClient(supabaseUrl, supabaseServiceKey);
+      log.info('Supabase client initialized');
+    }
+    return this.client;
+  }
+
+  /**
+   * Resolve deployed wallet addresses from wallets table (Privy wallets)
+   */
+  async resolveWallets(userIds: string[]): Promise<Map<string, string>> {
+    const supabase = this.getClient();
+
+    // Fetch wallet addresses from wallets table (deployed_address is the on-chain address)
+    const { data: wallets, error } = await supabase
+      .from('wallets')
+      .select('user_id, deployed_address')
+      .in('user_id', userIds)
+      .eq('is_deployed', true);
+
+    if (error) {
+      log.error({ error }, 'Failed to fetch wallet addresses');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    // Create a map of user_id -> deployed_address
+    const walletMap = new Map<string, string>();
+    wallets?.forEach((wallet) => {
+      if (wallet.deployed_address) {
+        walletMap.set(wallet.user_id, wallet.deployed_address);
+      }
+    });
+
+    return walletMap;
+  }
+
+  /**
+   * Fetch alarms from a specific pool
+   *
+   * Filters:
+   * - Time range (wakeup_time within period)
+   * - Only staked (stake_amount > 0)
+   * - Only blockchain (alarm_id IS NOT NULL)
+   * - Not deleted (deleted = false)
+   * - Staked in the token (token is null for the default token)
+   *
+   * @returns Array of alarm users
+   */
+  async fetchAlarmsFromPool(
+    day: number,
+    period: 0 | 1,
+    token: TokenConfig
+  ): Promise<AlarmUser[]> {
+    const supabase = this.getClient();
+    const { periodStart, periodEnd } = calculateTimeRange(day, period);
+
+    log.info(
+      {
+        day,
+        period,
+        periodStart,
+        periodEnd,
+        startDate: new Date(periodStart * 1000).toISOString(),
+        endDate: new Date(periodEnd * 1000).toISOString(),
+        token: token.symbol,
+      },
+      'Fetching alarms from pool'
+    );
+
+    // First fetch alarms
+    const { data: alarms, error } = await supabase
+      .from('alarms')
+      .select('*')
+      .gte('wakeup_time', periodStart)
+      .lt('wakeup_time', periodEnd)
+      .gt('stake_amount', 0)
+      .not('alarm_id', 'is', null)
+      .eq('deleted', false)
+      .or(tokenFilter(token, getAlarmConfig().token))
+      .order('wakeup_time');
+
+    if (error) {
+      log.error({ error }, 'Failed to fetch alarms from database');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    if (!alarms || alarms.length === 0) {
+      log.warn({ day, period }, 'No alarms found for pool');
+      return [];
+    }
+
+    const records = alarms as unknown as DatabaseAlarmRecord[];
+    const walletMap = await this.resolveWallets([
+      ...new Set(records.map((alarm) => alarm.user_id)),
+    ]);
+
+    // Only include alarms with valid wallet addresses
+    const transformedAlarms = records
+      .filter((alarm) => walletMap.has(alarm.user_id))
+      .map((alarm) => toAlarmUser(alarm, walletMap.get(alarm.user_id) ?? '', token));
+
+    logDatabaseOperation('fetch_alarms', transformedAlarms.length, {
+      day,
+      period,
+    });
+
+    return transformedAlarms;
+  }
+
+  /**
+   * Find all unprocessed alarm pools
+   *
+   * Returns pools with claim_ready = false, filtered to exclude
+   * pools older than 48h (legacy contracts)
+   */
+  async findUnprocessedAlarmPools(token: TokenConfig): Promise<PoolInfo[]> {
+    const supabase = this.getClient();
+
+    log.info({ token: token.symbol }, 'Finding unprocessed alarm pools');
+
+    const { data: alarms, error } = await supabase
+      .from('alarms')
+      .select('wakeup_time')
+      .eq('claim_ready', false)
+      .or(tokenFilter(token, getAlarmConfig().token))
+      .order('wakeup_time', { ascending: true });
+
+    if (error) {
+      log.error({ error }, 'Failed to find unprocessed pools');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    return groupUnprocessedAlarmPools(alarms ?? []);
+  }
+
+  /**
+   * Find the latest alarm pool with alarms
+   */
+  async findLatestAlarmPool(token: TokenConfig): Promise<PoolInfo | null> {
+    const supabase = this.getClient();
+
+    log.info({ token: token.symbol }, 'Finding latest alarm pool');
+
+    // Find the latest alarm with a valid alarm_id and stake
+    const { data: alarms, error } = await supabase
+      .from('alarms')
+      .select('wakeup_time, alarm_id')
+      .gt('stake_amount', 0)
+      .not('alarm_id', 'is', null)
+      .eq('deleted', false)
+      .or(tokenFilter(token, getAlarmConfig().token))
+      .order('wakeup_time', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      log.error({ error }, 'Failed to find latest alarm pool');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    if (!alarms || alarms.length === 0) {
+      log.warn('No alarms found in database');
+      return null;
+    }
+
+    const latestWakeupTime = alarms[0]!.wakeup_time;
+    const poolInfo = calculatePoolInfo(latestWakeupTime);
+
+    log.info(
+      {
+        day: poolInfo.day,
+        period: poolInfo.period,
+        latestWakeupTime,
+        alarmId: alarms[0]!.alarm_id,
+        date: new Date(latestWakeupTime * 1000).toISOString(),
+      },
+      'Found latest alarm pool'
+    );
+
+    return poolInfo;
+  }
+
+  /**
+   * Find the stake tokens of a pool's staked alarms (same filters as fetchAlarmsFromPool)
+   */
+  async findAlarmPoolTokens(day: number, period: 0 | 1): Promise<string[]> {
+    const supabase = this.getClient();
+    const { periodStart, periodEnd } = calculateTimeRange(day, period);
+
+    const { data: alarms, error } = await supabase
+      .from('alarms')
+      .select('token')
+      .gte('wakeup_time', periodStart)
+      .lt('wakeup_time', periodEnd)
+      .gt('stake_amount', 0)
+      .not('alarm_id', 'is', null)
+      .eq('deleted', false);
+
+    if (error) {
+      log.error({ error }, 'Failed to fetch alarm pool tokens');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    return distinctTokenSymbols(alarms ?? [], getAlarmConfig().token);
+  }
+
+  /**
+   * Store alarm processing results to database
+   *
+   * Steps:
+   * 1. Batch update alarms table (claim_ready = true, has_claimed = false)
+   * 2. Batch insert claim data with signatures and proofs
+   *
+   * IMPORTANT: Only call this AFTER blockchain transaction succeeds!
+   */
+  async storeAlarmResults(claims: PoolClaim<AlarmUser>[], expiry: number): Promise<void> {
+    const supabase = this.getClient();
+
+    log.info({ userCount: claims.length }, 'Storing alarm results to database');
+
+    const { updates, inserts } = await buildAlarmClaimRows(claims, expiry);
+
+    // Batch update alarms
+    log.info({ count: updates.length }, 'Updating alarm records');
+
+    for (const update of updates) {
+      const { error } = await supabase
+        .from('alarms')
+        .update({
+          claim_ready: update.claim_ready,
+          has_claimed: update.has_claimed,
+        })
+        .eq('id', update.id);
+
+      if (error) {
+        log.error({ error, alarmId: update.id }, 'Failed to update alarm');
+        throw new Error(`Failed to update alarm ${update.id}: ${error.message}`);
+      }
+    }
+
+    logDatabaseOperation('update_alarms', updates.length);
+
+    // Batch insert claim data
+    log.info({ count: inserts.length }, 'Inserting claim data');
+
+    const { error: insertError } = await supabase
+      .from('user_claim_data')
+      .insert(inserts);
+
+    if (insertError) {
+      log.error({ error: insertError }, 'Failed to insert claim data');
+      throw new Error(`Failed to insert claim data: ${insertError.message}`);
+    }
+
+    logDatabaseOperation('insert_claim_data', inserts.length);
+
+    log.info('Successfully stored all results to database');
+  }
+
+  /**
+   * Find the stored claim of an alarm (latest user_claim_data row)
+   */
+  async findAlarmClaim(
+    alarmId: string,
+    token: TokenConfig
+  ): Promise<StoredClaimRecord<AlarmUser, ClaimDataInsert> | null> {
+    const supabase = this.getClient();
+
+    const { data: claims, error } = await supabase
+      .from('user_claim_data')
+      .select('*')
+      .eq('alarm_id', alarmId)
+      .order('processed_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      log.error({ error, alarmId }, 'Failed to fetch claim data');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    const claim = (claims as unknown as ClaimDataInsert[] | null)?.[0];
+    if (!claim) {
+      log.warn({ alarmId }, 'No claim data found for alarm');
+      return null;
+    }
+
+    const { data: alarm, error: alarmError } = await supabase
+      .from('alarms')
+      .select('*')
+      .eq('id', alarmId)
+      .maybeSingle();
+
+    if (alarmError) {
+      log.error({ error: alarmError, alarmId }, 'Failed to fetch alarm');
+      throw new Error(`Database query failed: ${alarmError.message}`);
+    }
+
+    if (!alarm) {
+      throw new Error(`Alarm ${alarmId} not found`);
+    }
+
+    const record = alarm as unknown as DatabaseAlarmRecord;
+    requireRecordToken(`Alarm ${alarmId}`, record, token, getAlarmConfig().token);
+    const address = await this.resolveWallet(record.user_id);
+
+    return {
+      user: toAlarmUser(record, address, token),
+      pool: calculatePoolInfo(record.wakeup_time),
+      claim,
+    };
+  }
+
+  /**
+   * Latest stored claim row of each alarm (one user_claim_data query)
+   */
+  async fetchAlarmClaims(alarmIds: string[]): Promise<Map<string, ClaimDataInsert>> {
+    if (alarmIds.length === 0) {
+      return new Map();
+    }
+
+    const supabase = this.getClient();
+
+    const { data: rows, error } = await supabase
+      .from('user_claim_data')
+      .select('*')
+      .in('alarm_id', alarmIds);
+
+    if (error) {
+      log.error({ error }, 'Failed to fetch claim data');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    const claims = new Map<string, ClaimDataInsert>();
+    for (const row of (rows as unknown as ClaimDataInsert[] | null) ?? []) {
+      const latest = claims.get(row.alarm_id);
+      if (!latest || row.processed_at > latest.processed_at) {
+        claims.set(row.alarm_id, row);
+      }
+    }
+
+    logDatabaseOperation('fetch_claim_data', claims.size);
+
+    return claims;
+  }
+
+  /**
+   * Count alarm owners' streaks from settled alarms (claim_ready with a
+   * user_claim_data row): the owners' history is read in one paged query
+   * and counted per user in memory
+   */
+  async fetchAlarmStreaks(
+    alarmIds: string[],
+    since: number,
+    before: number,
+    limit: number
+  ): Promise<Map<string, number>> {
+    const supabase = this.getClient();
+
+    const { data: alarms, error } = await supabase
+      .from('alarms')
+      .select('id, user_id')
+      .in('id', alarmIds);
+
+    if (error) {
+      log.error({ error }, 'Failed to fetch alarm owners');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    const owners = (alarms as Array<{ id: string; user_id: string }> | null) ?? [];
+    const userIds = [...new Set(owners.map((alarm) => alarm.user_id))];
+
+    // Settled alarms of all owners, newest first (inner join keeps alarms with claim data)
+    const histories = new Map<string, Array<{ snooze_count: number }>>();
+    for (let from = 0; userIds.length > 0; from += HISTORY_PAGE_SIZE) {
+      const { data: history, error: historyError } = await supabase
+        .from('alarms')
+        .select('id, user_id, snooze_count, user_claim_data!inner(alarm_id)')
+        .in('user_id', userIds)
+        .gte('wakeup_time', since)
+        .lt('wakeup_time', before)
+        .gt('stake_amount', 0)
+        .eq('deleted', false)
+        .eq('claim_ready', true)
+        .order('wakeup_time', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, from + HISTORY_PAGE_SIZE - 1);
+
+      if (historyError) {
+        log.error({ error: historyError }, 'Failed to fetch alarm history');
+        throw new Error(`Database query failed: ${historyError.message}`);
+      }
+
+      const page =
+        (history as unknown as Array<{ user_id: string; snooze_count: number }> | null) ?? [];
+      for (const alarm of page) {
+        const settled = histories.get(alarm.user_id) ?? [];
+        if (settled.length < limit) {
+          settled.push(alarm);
+        }
+        histories.set(alarm.user_id, settled);
+      }
+
+      if (page.length < HISTORY_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const userStreaks = new Map(
+      userIds.map((userId) => [userId, countStreak(histories.get(userId) ?? [])])
+    );
+
+    logDatabaseOperation('fetch_alarm_streaks', userStreaks.size);
+
+    return new Map(owners.map((alarm) => [alarm.id, userStreaks.get(alarm.user_id) ?? 0]));
+  }
+
+  /**
+   * Fetch focus locks from a specific pool
+   *
+   * Filters by day and period columns (not time range) to match what was stored
+   * on-chain, even if period calculations differ.
+   *
+   * Only periods 0-1 are valid for 12-hour pools.
+   *
+   * @returns Array of focus lock users
+   */
+  async fetchFocusLocksFromPool(
+    day: number,
+    period: 0 | 1,
+    token: TokenConfig
+  ): Promise<FocusLockUser[]> {
+    const supabase = this.getClient();
+
+    log.info({ day, period, token: token.symbol }, 'Fetching focus locks from pool');
+
+    // Validate period (only 0-1 valid for 12-hour periods)
+    if (period >= 2) {
+      log.warn(
+        { day, period },
+        'Invalid period requested - only periods 0-1 are supported (12-hour pools)'
+      );
+      return [];
+    }
+
+    // First fetch focus locks
+    const { data: locks, error } = await supabase
+      .from('focus_locks')
+      .select('*')
+      .eq('day', day)
+      .eq('period', period)
+      .gt('stake_amount', 0)
+      .not('lock_id', 'is', null)
+      .or(tokenFilter(token, getFocusToken()))
+      .order('start_time');
+
+    if (error) {
+      log.error({ error }, 'Failed to fetch focus locks from database');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    if (!locks || locks.length === 0) {
+      log.warn({ day, period }, 'No focus locks found for pool');
+      return [];
+    }
+
+    const records = locks as unknown as DatabaseFocusLockRecord[];
+    const walletMap = await this.resolveWallets([
+      ...new Set(records.map((lock) => lock.user_id)),
+    ]);
+
+    // Only include locks with valid wallet addresses
+    const transformedLocks = records
+      .filter((lock) => walletMap.has(lock.user_id))
+      .map((lock) => toFocusLockUser(lock, walletMap.get(lock.user_id) ?? '', token));
+
+    logDatabaseOperation('fetch_focus_locks', transformedLocks.length, {
+      day,
+      period,
+    });
+
+    log.info(
+      { lockCount: transformedLocks.length },
+      'Successfully fetched and transformed focus locks'
+    );
+
+    return transformedLocks;
+  }
+
+  /**
+   * Find all unprocessed focus lock pools
+   *
+   * Returns pools with claim_ready = false, filtered to exclude
+   * pools older than 48h (contract limitation)
+   */
+  async findUnprocessedFocusLockPools(token: TokenConfig): Promise<PoolInfo[]> {
+    const supabase = this.getClient();
+
+    log.info({ token: token.symbol }, 'Finding unprocessed focus lock pools');
+
+    const { data: locks, error } = await supabase
+      .from('focus_locks')
+      .select('id, start_time, duration_minutes, day, period')
+      .eq('claim_ready', false)
+      .or(tokenFilter(token, getFocusToken()))
+      .order('start_time', { ascending: true });
+
+    if (error) {
+      log.error({ error }, 'Failed to find unprocessed focus lock pools');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    return groupUnprocessedFocusLockPools(locks ?? []);
+  }
+
+  /**
+   * Find the latest focus lock pool with locks
+   */
+  async findLatestFocusLockPool(token: TokenConfig): Promise<PoolInfo | null> {
+    const supabase = this.getClient();
+
+    log.info({ token: token.symbol }, 'Finding latest focus lock pool');
+
+    // Find the latest focus lock with a valid lock_id and stake
+    const { data: locks, error } = await supabase
+      .from('focus_locks')
+      .select('start_time, day, period, lock_id')
+      .gt('stake_amount', 0)
+      .not('lock_id', 'is', null)
+      .or(tokenFilter(token, getFocusToken()))
+      .order('start_time', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      log.error({ error }, 'Failed to find latest focus lock pool');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    if (!locks || locks.length === 0) {
+      log.warn('No focus locks found in database');
+      return null;
+    }
+
+    const latestLock = locks[0]!;
+    const poolInfo = latestFocusLockPoolInfo(latestLock);
+
+    log.info(
+      {
+        day: poolInfo.day,
+        period: poolInfo.period,
+        latestStartTime: latestLock.start_time,
+        lockId: latestLock.lock_id,
+        date: new Date(latestLock.start_time * 1000).toISOString(),
+      },
+      'Found latest focus lock pool'
+    );
+
+    return poolInfo;
+  }
+
+  /**
+   * Find the stake tokens of a pool's staked focus locks (same filters as
+   * fetchFocusLocksFromPool)
+   */
+  async findFocusLockPoolTokens(day: number, period: 0 | 1): Promise<string[]> {
+    const supabase = this.getClient();
+
+    const { data: locks, error } = await supabase
+      .from('focus_locks')
+      .select('token')
+      .eq('day', day)
+      .eq('period', period)
+      .gt('stake_amount', 0)
+      .not('lock_id', 'is', null);
+
+    if (error) {
+      log.error({ error }, 'Failed to fetch focus lock pool tokens');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    return distinctTokenSymbols(locks ?? [], getFocusToken());
+  }
+
+  /**
+   * Store focus lock processing results to database
+   *
+   * Steps:
+   * 1. Batch update focus_locks table (claim_ready = true, has_claimed = false)
+   * 2. Batch insert claim data with signatures and proofs
+   *
+   * IMPORTANT: Only call this AFTER blockchain transaction succeeds!
+   */
+  async storeFocusLockResults(
+    claims: PoolClaim<FocusLockUser>[],
+    expiry: number
+  ): Promise<void> {
+    const supabase = this.getClient();
+
+    log.info({ userCount: claims.length }, 'Storing focus lock results to database');
+
+    const { updates, inserts } = await buildFocusLockClaimRows(claims, expiry);
+
+    // Batch update focus_locks
+    log.info({ count: updates.length }, 'Updating focus lock records');
+
+    for (const update of updates) {
+      const { error } = await supabase
+        .from('focus_locks')
+        .update({
+          claim_ready: update.claim_ready,
+          has_claimed: update.has_claimed,
+        })
+        .eq('id', update.id);
+
+      if (error) {
+        log.error({ error, lockId: update.id }, 'Failed to update focus lock');
+        throw new Error(`Failed to update lock ${update.id}: ${error.message}`);
+      }
+    }
+
+    logDatabaseOperation('update_focus_locks', updates.length);
+
+    // Batch insert claim data
+    log.info({ count: inserts.length }, 'Inserting focus lock claim data');
+
+    const { error: insertError } = await supabase
+      .from('user_claim_data_locks')
+      .insert(inserts);
+
+    if (insertError) {
+      log.error({ error: insertError }, 'Failed to insert focus lock claim data');
+      throw new Error(`Failed to insert claim data: ${insertError.message}`);
+    }
+
+    logDatabaseOperation('insert_focus_lock_claim_data', inserts.length);
+
+    log.info('Successfully stored all focus lock results to database');
+  }
+
+  /**
+   * Latest user_claim_data_locks row of each focus lock
+   */
+  async fetchFocusLockClaims(focusLockIds: string[]): Promise<Map<string, FocusLockClaimData>> {
+    if (focusLockIds.length === 0) {
+      return new Map();
+    }
+
+    const supabase = this.getClient();
+
+    const { data: rows, error } = await supabase
+      .from('user_claim_data_locks')
+      .select('*')
+      .in('focus_lock_id', focusLockIds);
+
+    if (error) {
+      log.error({ error }, 'Failed to fetch focus lock claim data');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    const claims = new Map<string, FocusLockClaimData>();
+    for (const row of (rows as unknown as FocusLockClaimData[] | null) ?? []) {
+      const latest = claims.get(row.focus_lock_id);
+      if (!latest || row.processed_at > latest.processed_at) {
+        claims.set(row.focus_lock_id, row);
+      }
+    }
+
+    logDatabaseOperation('fetch_focus_lock_claim_data', claims.size);
+
+    return claims;
+  }
+
+  /**
+   * Find the stored claim of a focus lock (latest user_claim_data_locks row)
+   */
+  async findFocusLockClaim(
+    focusLockId: string,
+    token: TokenConfig
+  ): Promise<StoredClaimRecord<FocusLockUser, FocusLockClaimData> | null> {
+    const supabase = this.getClient();
+
+    const { data: claims, error } = await supabase
+      .from('user_claim_data_locks')
+      .select('*')
+      .eq('focus_lock_id', focusLockId)
+      .order('processed_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      log.error({ error, focusLockId }, 'Failed to fetch focus lock claim data');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    const claim = (claims as unknown as FocusLockClaimData[] | null)?.[0];
+    if (!claim) {
+      log.warn({ focusLockId }, 'No claim data found for focus lock');
+      return null;
+    }
+
+    const { data: lock, error: lockError } = await supabase
+      .from('focus_locks')
+      .select('*')
+      .eq('id', focusLockId)
+      .maybeSingle();
+
+    if (lockError) {
+      log.error({ error: lockError, focusLockId }, 'Failed to fetch focus lock');
+      throw new Error(`Database query failed: ${lockError.message}`);
+    }
+
+    if (!lock) {
+      throw new Error(`Focus lock ${focusLockId} not found`);
+    }
+
+    const record = lock as unknown as DatabaseFocusLockRecord;
+    requireRecordToken(`Focus lock ${focusLockId}`, record, token, getFocusToken());
+    const address = await this.resolveWallet(record.user_id);
+
+    return {
+      user: toFocusLockUser(record, address, token),
+      pool: latestFocusLockPoolInfo(record),
+      claim,
+    };
+  }
+
+  /**
+   * Fetch the rollover ledger of a pool type (rollover_ledger table)
+   */
+  async fetchRolloverEntries(poolType: string): Promise<RolloverEntry[]> {
+    const supabase = this.getClient();
+
+    const { data: entries, error } = await supabase
+      .from('rollover_ledger')
+      .select('*')
+      .eq('pool_type', poolType)
+      .order('day', { ascending: true })
+      .order('period', { ascending: true });
+
+    if (error) {
+      log.error({ error, poolType }, 'Failed to fetch rollover ledger');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    return (entries as unknown as RolloverEntry[] | null) ?? [];
+  }
+
+  /**
+   * Insert or update a rollover ledger row
+   */
+  async saveRolloverEntry(entry: RolloverEntry): Promise<void> {
+    const supabase = this.getClient();
+
+    const { error } = await supabase
+      .from('rollover_ledger')
+      .upsert(entry, { onConflict: 'pool_type,day,period' });
+
+    if (error) {
+      log.error({ error, entry }, 'Failed to save rollover entry');
+      throw new Error(`Failed to save rollover entry: ${error.message}`);
+    }
+
+    logDatabaseOperation('save_rollover_entry', 1, { day: entry.day, period: entry.period });
+  }
+
+  /**
+   * Find the journal entry of a pool run (processing_journal table)
+   */
+  async findJournalEntry(
+    poolType: string,
+    day: number,
+    period: 0 | 1
+  ): Promise<JournalEntry | null> {
+    const supabase = this.getClient();
+
+    const { data: entry, error } = await supabase
+      .from('processing_journal')
+      .select('*')
+      .eq('pool_type', poolType)
+      .eq('day', day)
+      .eq('period', period)
+      .maybeSingle();
+
+    if (error) {
+      log.error({ error, poolType, day, period }, 'Failed to fetch journal entry');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    return entry ? fromJournalRow(entry) : null;
+  }
+
+  /**
+   * Insert or replace the journal entry of a pool run
+   */
+  async saveJournalEntry(entry: JournalEntry): Promise<void> {
+    const supabase = this.getClient();
+
+    // Absent optional columns are written as null so a replaced row loses them
+    const { error } = await supabase
+      .from('processing_journal')
+      .upsert(
+        { ...entry, tx_hash: entry.tx_hash ?? null, fee_mode: entry.fee_mode ?? null },
+        { onConflict: 'pool_type,day,period' }
+      );
+
+    if (error) {
+      log.error({ error, entry }, 'Failed to save journal entry');
+      throw new Error(`Failed to save journal entry: ${error.message}`);
+    }
+
+    logDatabaseOperation('save_journal_entry', 1, { day: entry.day, period: entry.period });
+  }
+
+  /**
+   * Fetch journal entries not yet stored
+   */
+  async fetchIncompleteJournalEntries(poolType?: string): Promise<JournalEntry[]> {
+    const supabase = this.getClient();
+
+    let query = supabase.from('processing_journal').select('*').neq('stage', 'stored');
+    if (poolType) {
+      query = query.eq('pool_type', poolType);
+    }
+
+    const { data: entries, error } = await query
+      .order('day', { ascending: true })
+      .order('period', { ascending: true });
+
+    if (error) {
+      log.error({ error, poolType }, 'Failed to fetch journal entries');
+      throw new Error(`Database query failed: ${error.message}`);
+    }
+
+    return ((entries as unknown[] | null) ?? []).map(fromJournalRow);
+  }
+
+  /**
+   * Resolve a single user's deployed wallet address
+   * @throws {Error} If the user has no deployed wallet
+   */
+  private async resolveWallet(userId: string): Promise<string> {
+    const address = (await this.resolveWallets([userId])).get(userId);
+    if (!address) {
+      throw new Error(`No deployed wallet found for user ${userId}`);
+    }
+    return address;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Per-token sub-pools
+ *
+ * A pool type stakes its default token (ALARM_TOKEN / FOCUS_TOKEN) in its
+ * main contract and every further token (ALARM_TOKEN_POOLS /
+ * FOCUS_TOKEN_POOLS) in a contract of its own. The records of a day and
+ * period are split by their token column into sub-pools, each with its own
+ * slashing totals, rewards, merkle root, journal and rollover ledger.
+ *
+ * The default token's sub-pool is the pool type itself, so single-token
+ * deployments keep their names and recorded state. Further tokens are
+ * named '<pool type>-<symbol>' (e.g. 'alarm-strk'). Records without a
+ * token are in the default token.
+ */
+
+import { PoolContractConfig } from '../types/common.js';
+import { AnyPoolType } from '../types/pool.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('token-pools');
+
+/**
+ * Resolve a token of a pool type by symbol (case-insensitive)
+ *
+ * @returns Configured symbol of a further token, or null for the default token
+ * @throws {Error} If the pool type has no pool for the token
+ */
+export function resolveTokenPoolSymbol(
+  config: PoolContractConfig,
+  symbol: string
+): string | null {
+  const wanted = symbol.toUpperCase();
+  if (config.token.symbol.toUpperCase() === wanted) {
+    return null;
+  }
+
+  const pool = config.token_pools.find((p) => p.token.symbol.toUpperCase() === wanted);
+  if (!pool) {
+    const symbols = [config.token, ...config.token_pools.map((p) => p.token)].map(
+      (t) => t.symbol
+    );
+    throw new Error(`No ${symbol} pool configured (tokens: ${symbols.join(', ')})`);
+  }
+  return pool.token.symbol;
+}
+
+/**
+ * Contract configuration of a token's sub-pool
+ *
+ * @param symbol Configured symbol of a further token, or null for the default token
+ * @throws {Error} If the pool type has no pool for the token
+ */
+export function tokenPoolConfig<T extends PoolContractConfig>(
+  config: T,
+  symbol: string | null
+): T {
+  if (symbol === null) {
+    return config;
+  }
+
+  const pool = config.token_pools.find((p) => p.token.symbol === symbol);
+  if (!pool) {
+    throw new Error(`No ${symbol} pool configured`);
+  }
+  return {
+    ...config,
+    contract_address: pool.contract_address,
+    token: pool.token,
+    token_pools: [],
+  };
+}
+
+/**
+ * Registry key of a token's sub-pool (e.g. 'alarm-strk')
+ */
+export function tokenPoolName(name: string, symbol: string | null): string {
+  return symbol === null ? name : `${name}-${symbol.toLowerCase()}`;
+}
+
+/**
+ * Display name of a token's sub-pool (e.g. 'Alarm (STRK)')
+ */
+export function tokenPoolDisplayName(displayName: string, symbol: string | null): string {
+  return symbol === null ? displayName : `${displayName} (${symbol})`;
+}
+
+/**
+ * Contract configuration of a pool type, or null if it is not configured
+ */
+function findContractConfig(poolType: AnyPoolType): PoolContractConfig | null {
+  try {
+    return poolType.getContractConfig();
+  } catch {
+    return null; // Reported when the pool type is processed
+  }
+}
+
+/**
+ * All sub-pool types of a pool type: the pool type itself, then one per
+ * further token
+ */
+export function getTokenPoolTypes(poolType: AnyPoolType): AnyPoolType[] {
+  const config = findContractConfig(poolType);
+  return [
+    poolType,
+    ...(config?.token_pools ?? []).map((pool) => poolType.forToken(pool.token.symbol)),
+  ];
+}
+
+/**
+ * Sub-pool types to process for a pool
+ *
+ * The default token is always included (an empty pool is reported as
+ * before); further tokens only when staked in the pool. Tokens staked in
+ * the pool without a configured contract are logged and left unprocessed.
+ */
+export async function findTokenPoolTypes(
+  poolType: AnyPoolType,
+  day: number,
+  period: 0 | 1
+): Promise<AnyPoolType[]> {
+  const config = findContractConfig(poolType);
+  if (!config) {
+    return [poolType];
+  }
+
+  const present = new Set(await poolType.findPoolTokens(day, period));
+  const configured = new Set(
+    [config.token, ...config.token_pools.map((p) => p.token)].map((t) => t.symbol)
+  );
+
+  for (const symbol of present) {
+    if (!configured.has(symbol)) {
+      log.warn(
+        { poolType: poolType.name, day, period, token: symbol },
+        'Stake token has no pool contract configured, its records are not processed'
+      );
+    }
+  }
+
+  return [
+    poolType,
+    ...config.token_pools
+      .filter((pool) => present.has(pool.token.symbol))
+      .map((pool) => poolType.forToken(pool.token.symbol)),
+  ];
+}
@@ -0,0 +1,168 @@
+/**
+ * Token registry and exact amount conversion
+ *
+ * Stake tokens are selected per pool type by symbol (built-in) or as an
+ * inline <symbol>:<decimals>, with an optional contract address:
+ *
+ *   ALARM_TOKEN=USDC
+ *   FOCUS_TOKEN=STRK
+ *   FOCUS_TOKEN=XYZ:8   FOCUS_TOKEN_ADDRESS=0x...
+ *
+ * Further tokens of a pool type are staked into their own contract:
+ *
+ *   ALARM_TOKEN_POOLS=STRK=0x...,XYZ:8=0x...   (<token spec>=<pool contract>)
+ *
+ * Database amounts are decimal strings in whole tokens. They are converted
+ * to smallest units digit by digit, never through floating point.
+ */
+
+import { TokenConfig, TokenPool } from '../types/token.js';
+
+/**
+ * Built-in tokens by symbol (decimals)
+ */
+export const TOKENS: Readonly<Record<string, number>> = {
+  USDC: 6,
+  STRK: 18,
+  ETH: 18,
+};
+
+/**
+ * Largest supported number of decimals
+ */
+const MAX_DECIMALS = 36;
+
+/**
+ * Resolve a token spec: built-in symbol or inline <symbol>:<decimals>
+ *
+ * @throws {Error} If the symbol is unknown or the decimals are invalid
+ */
+export function getToken(spec: string, address?: string): TokenConfig {
+  const separator = spec.indexOf(':');
+  const symbol = separator === -1 ? spec : spec.slice(0, separator);
+
+  if (!/^[A-Za-z0-9._-]{1,16}$/.test(symbol)) {
+    throw new Error(`Invalid token symbol: ${symbol}`);
+  }
+
+  let decimals: number;
+  if (separator === -1) {
+    const builtIn = TOKENS[symbol];
+    if (builtIn === undefined) {
+      throw new Error(
+        `Unknown token ${symbol} (built-in: ${Object.keys(TOKENS).join(', ')}; or <symbol>:<decimals>)`
+      );
+    }
+    decimals = builtIn;
+  } else {
+    const decimalsSpec = spec.slice(separator + 1);
+    decimals = Number(decimalsSpec);
+    if (!/^\d+$/.test(decimalsSpec) || decimals > MAX_DECIMALS) {
+      throw new Error(`Token ${symbol}: decimals must be an integer (0-${MAX_DECIMALS})`);
+    }
+  }
+
+  return { symbol, decimals, address: address ?? null };
+}
+
+/**
+ * Parse further stake tokens and their pool contracts
+ *
+ * @param defaultToken Token of the pool type's main contract
+ * @throws {Error} If an entry is malformed or a token is listed twice
+ *   (or is the default token)
+ */
+export function parseTokenPools(spec: string, defaultToken: TokenConfig): TokenPool[] {
+  const pools: TokenPool[] = [];
+  const symbols = new Set([defaultToken.symbol.toUpperCase()]);
+
+  for (const entry of spec.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    const contractAddress = entry.slice(separator + 1);
+
+    if (separator <= 0 || !/^0x[0-9a-fA-F]+$/.test(contractAddress)) {
+      throw new Error(`Invalid token pool "${entry}": expected <token>=<0x pool contract>`);
+    }
+
+    const token = getToken(entry.slice(0, separator));
+    if (symbols.has(token.symbol.toUpperCase())) {
+      throw new Error(
+        token.symbol.toUpperCase() === defaultToken.symbol.toUpperCase()
+          ? `Token pool ${token.symbol} is the default token of the pool type`
+          : `Token pool ${token.symbol} is listed more than once`
+      );
+    }
+    symbols.add(token.symbol.toUpperCase());
+
+    pools.push({ token, contract_address: contractAddress });
+  }
+
+  return pools;
+}
+
+/**
+ * Convert a decimal token amount to smallest units, exactly
+ *
+ * Accepts a database NUMERIC as string or number (e.g. "50.00", 50.5).
+ *
+ * @throws {Error} If the amount is not a non-negative decimal or has more
+ *   fractional digits than the token
+ */
+export function parseTokenAmount(value: string | number, token: TokenConfig): bigint {
+  const text = typeof value === 'number' ? numberToDecimal(value) : value.trim();
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || text === '' || text === '.') {
+    throw new Error(`Invalid ${token.symbol} amount: ${String(value)}`);
+  }
+
+  const whole = match[1] || '0';
+  const fraction = (match[2] ?? '').replace(/0+$/, '');
+  if (fraction.length > token.decimals) {
+    throw new Error(
+      `${token.symbol} amount ${text} has more than ${token.decimals} decimal places`
+    );
+  }
+
+  return BigInt(whole + fraction.padEnd(token.decimals, '0'));
+}
+
+/**
+ * Format smallest units as a token amount (e.g. "12.5 USDC")
+ */
+export function formatTokenAmount(amount: bigint | string, token: TokenConfig): string {
+  const units = BigInt(amount);
+  const sign = units < 0n ? '-' : '';
+  const digits = (units < 0n ? -units : units).toString().padStart(token.decimals + 1, '0');
+
+  const whole = digits.slice(0, digits.length - token.decimals);
+  const fraction = digits.slice(digits.length - token.decimals).replace(/0+$/, '');
+
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''} ${token.symbol}`;
+}
+
+/**
+ * Plain decimal notation of a number (no exponent)
+ *
+ * The shortest round-trip string of a double is the decimal the database
+ * sent, so no digits are invented.
+ */
+function numberToDecimal(value: number): string {
+  if (!Number.isFinite(value) || value < 0) {
+    return String(value);
+  }
+
+  const text = String(value);
+  const exponentMatch = /^(\d)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+  if (!exponentMatch) {
+    return text;
+  }
+
+  const digits = exponentMatch[1]! + (exponentMatch[2] ?? '');
+  const exponent = Number(exponentMatch[3]);
+  const point = 1 + exponent;
+
+  return point <= 0
+    ? `0.${'0'.repeat(-point)}${digits}`
+    : digits.padEnd(point, '0').slice(0, point) +
+        (digits.length > point ? `.${digits.slice(point)}` : '');
+}
@@ -0,0 +1,131 @@
+/**
+ * Verifier key rotation
+ *
+ * A contract has an active verifier key and, during a rotation, a
+ * retiring one (the previous key). Claims are signed with whichever
+ * configured key the contract has registered, so a rotated key never
+ * produces signatures the contract rejects:
+ *
+ * 1. Configure the new key as active and the old one as retiring
+ *    (claims keep being signed with the old key)
+ * 2. Register the new key on the contract (claims switch to the new key)
+ * 3. Remove the retiring key once its last claims have expired (48h)
+ *
+ * Every claim row records the id and public key of the key that signed
+ * it, and stored claims are re-verified against that key.
+ */
+
+import { PoolContractConfig, SignatureVerification, VerifierKey } from '../types/common.js';
+import { getSigner } from './signer.js';
+import { getBlockchainService } from './blockchain.js';
+import { createModuleLogger } from './logger.js';
+
+const log = createModuleLogger('verifier');
+
+/**
+ * Configured verifier keys of a contract (active first)
+ */
+export function getVerifierKeys(config: PoolContractConfig): VerifierKey[] {
+  return config.retiring_verifier
+    ? [config.verifier, config.retiring_verifier]
+    : [config.verifier];
+}
+
+/**
+ * Public key of every configured verifier key, by key id
+ */
+export async function getVerifierPublicKeys(
+  config: PoolContractConfig
+): Promise<Map<string, string>> {
+  const publicKeys = new Map<string, string>();
+  for (const key of getVerifierKeys(config)) {
+    publicKeys.set(key.key_id, await getSigner(key.signer).getPublicKey());
+  }
+  return publicKeys;
+}
+
+/**
+ * Pick the configured key the contract currently accepts
+ *
+ * Reads the contract's registered verifier and returns the active key,
+ * or the retiring key while the contract has not been rotated yet.
+ *
+ * @throws {Error} If no configured key matches the contract's verifier
+ */
+export async function resolveSigningKey(config: PoolContractConfig): Promise<VerifierKey> {
+  const blockchainService = getBlockchainService();
+  await blockchainService.initialize();
+
+  const registered = await blockchainService.getVerifierPublicKey(config.contract_address);
+  const checked: string[] = [];
+
+  // Retiring key is only unlocked when the active key does not match
+  for (const key of getVerifierKeys(config)) {
+    const publicKey = await getSigner(key.signer).getPublicKey();
+    if (BigInt(publicKey) === BigInt(registered)) {
+      if (key !== config.verifier) {
+        log.warn(
+          {
+            contractAddress: config.contract_address,
+            keyId: key.key_id,
+            activeKeyId: config.verifier.key_id,
+          },
+          'Contract still registers the retiring verifier key, signing with it'
+        );
+      }
+      log.info(
+        { contractAddress: config.contract_address, keyId: key.key_id },
+        'Verifier key resolved'
+      );
+      return key;
+    }
+    checked.push(`${key.key_id} (${publicKey})`);
+  }
+
+  throw new Error(
+    `Contract ${config.contract_address} verifier ${registered} matches no configured verifier key: ${checked.join(', ')}`
+  );
+}
+
+/**
+ * Verify a stored claim signature against the key recorded on its row
+ *
+ * Rows from before key ids were recorded are checked against every
+ * configured key. A key id that is no longer configured never verifies.
+ *
+ * @param keyId Key id stored with the claim (null on older rows)
+ * @param verify Signature check against a public key
+ */
+export async function verifyWithRecordedKey(
+  config: PoolContractConfig,
+  keyId: string | null,
+  verify: (publicKey: string) => SignatureVerification
+): Promise<{ public_key: string | null; signature: SignatureVerification }> {
+  const publicKeys = await getVerifierPublicKeys(config);
+
+  if (keyId === null) {
+    const checks = [...publicKeys.values()].map((publicKey) => ({
+      public_key: publicKey,
+      signature: verify(publicKey),
+    }));
+    return checks.find((check) => check.signature.valid) ?? checks[0]!;
+  }
+
+  const publicKey = publicKeys.get(keyId);
+  if (!publicKey) {
+    log.warn({ keyId }, 'Claim was signed with a verifier key that is no longer configured');
+    // Message hash is still checked; the signature cannot be
+    const { expected_message_hash, message_hash_matches } = verify('0x0');
+    return {
+      public_key: null,
+      signature: {
+        expected_message_hash,
+        message_hash_matches,
+        signature_valid: false,
+        valid: false,
+      },
+    };
+  }
+
+  return { public_key: publicKey, signature: verify(publicKey) };
+}
@@ -1,30 +1,44 @@
 /**
- * Combined Cron Processor for Alarm and Focus Lock Pools
+ * Combined Cron Processor for all registered pool types
  *
  * Designed to run at:
  * - 0:30 UTC → Process Period 1 from previous day (12:00-23:59)
  * - 12:30 UTC → Process Period 0 from current day (00:00-11:59)
  *
  * The 30-minute delay after period end provides a safety buffer for late submissions.
+ *
+ * Every stake token of a pool type is processed as a sub-pool of its own
+ * (see core/token-pools.ts).
  */
 
 import { ProcessingResult, PoolInfo } from '../types/common.js';
-import { processAlarmPool } from '../alarm/processor.js';
-import { processFocusLockPool } from '../focus/processor.js';
-import { processAllAlarmPools } from '../alarm/batch-processor.js';
-import { processAllFocusLockPools } from '../focus/batch-processor.js';
+import { AnyPoolType, BatchProcessingResult } from '../types/pool.js';
+import { getPoolTypes, getAllTokenPoolTypes } from '../pools.js';
+import {
+  processPool,
+  processAllPools,
+  processPoolsMulticall,
+  processAllPoolsMulticall,
+  delay,
+  ProcessPoolOptions,
+} from '../core/pipeline.js';
+import { findTokenPoolTypes } from '../core/token-pools.js';
 import { createModuleLogger } from '../core/logger.js';
 
 const log = createModuleLogger('cron-processor');
 
+/**
+ * Delay between pool types to avoid overwhelming the system
+ */
+const INTER_POOL_TYPE_DELAY_MS = 3000;
+
 /**
  * Result of cron processing operation
  */
 export interface CronProcessingResult {
   success: boolean;
   pool: PoolInfo;
-  alarm: ProcessingResult;
-  focus: ProcessingResult;
+  results: Record<string, ProcessingResult>; // Keyed by pool type or token sub-pool name
   processed_at: string;
   error?: string;
 }
@@ -34,18 +48,7 @@ export interface CronProcessingResult {
  */
 export interface CronBatchResult {
   success: boolean;
-  alarm: {
-    total: number;
-    success: number;
-    failed: number;
-    skipped: number;
-  };
-  focus: {
-    total: number;
-    success: number;
-    failed: number;
-    skipped: number;
-  };
+  results: Record<string, BatchProcessingResult>; // Keyed by pool type or token sub-pool name
   processed_at: string;
 }
 
@@ -78,89 +81,117 @@ export function calculatePoolToProcess(): PoolInfo {
 }
 
 /**
- * Process both alarm and focus lock pools for the scheduled period
+ * Sub-pool types of every registered pool type for a pool (the default
+ * token, plus each further token staked in the pool)
+ */
+async function findCronPoolTypes(pool: PoolInfo): Promise<AnyPoolType[]> {
+  const tokenPoolTypes: AnyPoolType[] = [];
+
+  for (const poolType of getPoolTypes()) {
+    try {
+      tokenPoolTypes.push(...(await findTokenPoolTypes(poolType, pool.day, pool.period)));
+    } catch (error) {
+      // Processing the default token reports the failure
+      log.error({ error, pool, poolType: poolType.name }, 'Failed to find pool stake tokens');
+      tokenPoolTypes.push(poolType);
+    }
+  }
+
+  return tokenPoolTypes;
+}
+
+/**
+ * Process the scheduled pool for every registered pool type
  *
- * Runs sequentially: alarm first, then focus lock
- * Errors in one pool type don't prevent the other from processing
+ * Runs sequentially in registration order (alarm first, then focus lock),
+ * one run per stake token staked in the pool
+ * Errors in one pool type don't prevent the others from processing
+ * With multicall, all pool types are finalized in one transaction
  *
- * @param force Skip the 30-minute time buffer check
+ * @param options Force (skip the 30-minute time buffer), dry-run and multicall flags
  * @returns Combined processing result
  */
-export async function processCronPools(force = false): Promise<CronProcessingResult> {
+export async function processCronPools(
+  options: ProcessPoolOptions = {}
+): Promise<CronProcessingResult> {
   const pool = calculatePoolToProcess();
   const processedAt = new Date().toISOString();
+  const poolTypes = await findCronPoolTypes(pool);
 
   log.info(
     {
       pool,
-      force,
+      ...options,
+      poolTypes: poolTypes.map((p) => p.name),
       currentTime: processedAt,
     },
     'Starting cron pool processing'
   );
 
-  let alarmResult: ProcessingResult = {
-    success: false,
-    message: 'Not processed',
-  };
+  const outcomes: PromiseSettledResult<ProcessingResult>[] = [];
 
-  let focusResult: ProcessingResult = {
-    success: false,
-    message: 'Not processed',
-  };
-
-  // Process alarm pool
-  log.info({ pool }, 'Processing alarm pool');
-  try {
-    alarmResult = await processAlarmPool(pool.day, pool.period, force);
-    log.info(
-      {
-        success: alarmResult.success,
-        message: alarmResult.message,
-        txHash: alarmResult.transaction_hash,
-      },
-      'Alarm pool processing completed'
+  if (options.multicall) {
+    outcomes.push(
+      ...(await processPoolsMulticall(
+        poolTypes.map((poolType) => ({ poolType, day: pool.day, period: pool.period })),
+        options
+      ))
     );
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    log.error({ error: errorMessage, pool }, 'Alarm pool processing failed');
-    alarmResult = {
-      success: false,
-      message: `Alarm processing error: ${errorMessage}`,
-    };
-  }
+  } else {
+    for (let i = 0; i < poolTypes.length; i++) {
+      const poolType = poolTypes[i]!;
 
-  // Add delay between pool types to avoid overwhelming the system
-  await new Promise(resolve => setTimeout(resolve, 3000));
-
-  // Process focus lock pool
-  log.info({ pool }, 'Processing focus lock pool');
-  try {
-    focusResult = await processFocusLockPool(pool.day, pool.period, force);
-    log.info(
-      {
-        success: focusResult.success,
-        message: focusResult.message,
-        txHash: focusResult.transaction_hash,
-      },
-      'Focus lock pool processing completed'
-    );
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    log.error({ error: errorMessage, pool }, 'Focus lock pool processing failed');
-    focusResult = {
-      success: false,
-      message: `Focus lock processing error: ${errorMessage}`,
-    };
+      log.info({ pool, poolType: poolType.name }, `Processing ${poolType.displayName.toLowerCase()} pool`);
+      try {
+        const result = await processPool(poolType, pool.day, pool.period, options);
+        outcomes.push({ status: 'fulfilled', value: result });
+      } catch (error) {
+        outcomes.push({ status: 'rejected', reason: error });
+      }
+
+      // Add delay between pool types to avoid overwhelming the system
+      if (i < poolTypes.length - 1) {
+        await delay(INTER_POOL_TYPE_DELAY_MS);
+      }
+    }
   }
 
-  const overallSuccess = alarmResult.success || focusResult.success;
+  const results: Record<string, ProcessingResult> = {};
+
+  poolTypes.forEach((poolType, i) => {
+    const outcome = outcomes[i]!;
+
+    if (outcome.status === 'fulfilled') {
+      const result = outcome.value;
+      results[poolType.name] = result;
+      log.info(
+        {
+          poolType: poolType.name,
+          success: result.success,
+          message: result.message,
+          txHash: result.transaction_hash,
+        },
+        `${poolType.displayName} pool processing completed`
+      );
+    } else {
+      const errorMessage =
+        outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error';
+      log.error({ error: errorMessage, pool, poolType: poolType.name }, `${poolType.displayName} pool processing failed`);
+      results[poolType.name] = {
+        success: false,
+        message: `${poolType.displayName} processing error: ${errorMessage}`,
+      };
+    }
+  });
+
+  const overallSuccess = Object.values(results).some((r) => r.success);
 
   log.info(
     {
       pool,
-      alarmSuccess: alarmResult.success,
-      focusSuccess: focusResult.success,
+      results: Object.fromEntries(
+        Object.entries(results).map(([name, r]) => [name, r.success])
+      ),
       overallSuccess,
     },
     'Cron pool processing completed'
@@ -169,86 +200,73 @@ export async function processCronPools(force = false): Promise<CronProcessingRes
   return {
     success: overallSuccess,
     pool,
-    alarm: alarmResult,
-    focus: focusResult,
+    results,
     processed_at: processedAt,
   };
 }
 
 /**
- * Process all unprocessed pools for both alarm and focus lock
+ * Process all unprocessed pools for every registered pool type (and
+ * every configured stake token)
+ *
+ * With multicall, backlog pools of all pool types are bundled into
+ * shared transactions instead of one transaction per pool.
  *
- * @param force Skip the 30-minute time buffer check
+ * @param options Force (skip the 30-minute time buffer), dry-run and multicall flags
  * @returns Combined batch processing result
  */
-export async function processAllCronPools(force = false): Promise<CronBatchResult> {
+export async function processAllCronPools(
+  options: ProcessPoolOptions = {}
+): Promise<CronBatchResult> {
   const processedAt = new Date().toISOString();
+  const poolTypes = getAllTokenPoolTypes();
 
-  log.info({ force }, 'Starting batch cron processing for all unprocessed pools');
+  log.info(options, 'Starting batch cron processing for all unprocessed pools');
 
-  // Process all alarm pools
-  log.info('Processing all unprocessed alarm pools');
-  const alarmBatchResult = await processAllAlarmPools(force);
+  let results: CronBatchResult['results'] = {};
 
-  log.info(
-    {
-      total: alarmBatchResult.total,
-      success: alarmBatchResult.success,
-      failed: alarmBatchResult.failed,
-    },
-    'Alarm batch processing completed'
-  );
+  if (options.multicall) {
+    // One bundled backlog run across all pool types (no per-type delays)
+    results = await processAllPoolsMulticall(poolTypes, options);
+  } else {
+    for (let i = 0; i < poolTypes.length; i++) {
+      const poolType = poolTypes[i]!;
 
-  // Add delay between pool types
-  await new Promise(resolve => setTimeout(resolve, 3000));
+      log.info(`Processing all unprocessed ${poolType.displayName.toLowerCase()} pools`);
+      const batchResult = await processAllPools(poolType, options);
+      results[poolType.name] = batchResult;
 
-  // Process all focus lock pools
-  log.info('Processing all unprocessed focus lock pools');
-  const focusBatchResult = await processAllFocusLockPools(force);
+      const { total, success, failed, skipped } = batchResult;
+      log.info(
+        { poolType: poolType.name, total, success, failed, skipped },
+        `${poolType.displayName} batch processing completed`
+      );
 
-  log.info(
-    {
-      total: focusBatchResult.totalPools,
-      success: focusBatchResult.successCount,
-      failed: focusBatchResult.failCount,
-      skipped: focusBatchResult.skippedCount,
-    },
-    'Focus lock batch processing completed'
-  );
+      // Add delay between pool types
+      if (i < poolTypes.length - 1) {
+        await delay(INTER_POOL_TYPE_DELAY_MS);
+      }
+    }
+  }
 
-  const overallSuccess = alarmBatchResult.failed === 0 && focusBatchResult.failCount === 0;
+  const overallSuccess = Object.values(results).every((r) => r.failed === 0);
 
   log.info(
     {
       overallSuccess,
-      alarm: {
-        total: alarmBatchResult.total,
-        success: alarmBatchResult.success,
-        failed: alarmBatchResult.failed,
-      },
-      focus: {
-        total: focusBatchResult.totalPools,
-        success: focusBatchResult.successCount,
-        failed: focusBatchResult.failCount,
-      },
+      results: Object.fromEntries(
+        Object.entries(results).map(([name, r]) => [
+          name,
+          { total: r.total, success: r.success, failed: r.failed, skipped: r.skipped },
+        ])
+      ),
     },
     'Batch cron processing completed'
   );
 
   return {
     success: overallSuccess,
-    alarm: {
-      total: alarmBatchResult.total,
-      success: alarmBatchResult.success,
-      failed: alarmBatchResult.failed,
-      skipped: 0, // alarm batch processor doesn't track skipped
-    },
-    focus: {
-      total: focusBatchResult.totalPools,
-      success: focusBatchResult.successCount,
-      failed: focusBatchResult.failCount,
-      skipped: focusBatchResult.skippedCount,
-    },
+    results,
     processed_at: processedAt,
   };
 }
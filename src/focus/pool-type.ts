@@ -0,0 +1,246 @@
+/**
+ * Focus lock pool type registration
+ *
+ * Plugs focus lock data access, weighted rewards (selectable weighting),
+ * session-keyed merkle leaves and SNIP-12 claims into the generic
+ * pool pipeline. Each stake token is a sub-pool of its own (see
+ * core/token-pools.ts).
+ */
+
+import { FocusLockUser, FocusLockReward, FocusLockPoolConfig } from '../types/focus.js';
+import { PoolType } from '../types/pool.js';
+import { TokenConfig } from '../types/token.js';
+import { getFocusConfig, getFocusToken, getCoreConfig } from '../core/config.js';
+import { getPoolRepository } from '../core/repository.js';
+import { parseMerkleProof } from '../core/database.js';
+import {
+  calculateFocusTotalSlashed,
+  calculateFocusRewards,
+  calculateFocusRefunds,
+  buildMerkleTree,
+  createFocusMerkleLeaf,
+} from '../core/calculator.js';
+import { computePoolOutcome } from '../core/outcome.js';
+import {
+  resolveTokenPoolSymbol,
+  tokenPoolConfig,
+  tokenPoolDisplayName,
+  tokenPoolName,
+} from '../core/token-pools.js';
+import {
+  createFocusOutcomeSignature,
+  getClaimDomain,
+  verifyFocusClaimSignature,
+} from '../core/crypto.js';
+import { getSigner } from '../core/signer.js';
+import { verifyWithRecordedKey } from '../core/verifier.js';
+import { formatTokenAmount } from '../core/tokens.js';
+import { createModuleLogger } from '../core/logger.js';
+
+const log = createModuleLogger('focus-pool');
+
+/**
+ * Find the reward entry for a specific lock
+ */
+function findLockReward(
+  rewards: FocusLockReward[],
+  user: FocusLockUser
+): FocusLockReward | undefined {
+  return rewards.find(
+    (r) => r.address === user.address && BigInt(r.session_id) === user.session_id
+  );
+}
+
+/**
+ * Merkle leaf / proof key of a lock ("address_sessionid")
+ */
+function focusLeafKey(user: FocusLockUser): string {
+  return `${user.address}_${user.session_id}`;
+}
+
+/**
+ * Focus lock configuration
+ *
+ * @throws {Error} If focus locks are not configured
+ */
+function requireFocusConfig(): FocusLockPoolConfig {
+  const focusConfig = getFocusConfig();
+  if (!focusConfig) {
+    throw new Error(
+      'Focus lock configuration not available. Set FOCUS_CONTRACT_ADDRESS and FOCUS_VERIFIER_PRIVATE_KEY (or FOCUS_VERIFIER_SIGNER) in .env'
+    );
+  }
+  return focusConfig;
+}
+
+/**
+ * Focus lock pool type of one stake token
+ *
+ * @param symbol Further token of FOCUS_TOKEN_POOLS, or null for FOCUS_TOKEN
+ */
+function createFocusPoolType(symbol: string | null): PoolType<FocusLockUser, FocusLockReward> {
+  const getConfig = (): FocusLockPoolConfig => tokenPoolConfig(requireFocusConfig(), symbol);
+  // Pools are found without a configuration; processing them reports it missing
+  const getStakeToken = (): TokenConfig => (symbol === null ? getFocusToken() : getConfig().token);
+
+  return {
+    name: tokenPoolName('focus', symbol),
+    displayName: tokenPoolDisplayName('Focus Lock', symbol),
+
+    getContractConfig: getConfig,
+
+    fetchUsers: (day, period) =>
+      getPoolRepository().fetchFocusLocksFromPool(day, period, getStakeToken()),
+    findUnprocessedPools: () =>
+      getPoolRepository().findUnprocessedFocusLockPools(getStakeToken()),
+    findLatestPool: () => getPoolRepository().findLatestFocusLockPool(getStakeToken()),
+    findPoolTokens: (day, period) => getPoolRepository().findFocusLockPoolTokens(day, period),
+    forToken: (tokenSymbol) =>
+      createFocusPoolType(resolveTokenPoolSymbol(requireFocusConfig(), tokenSymbol)),
+
+    computeOutcomes(users, config, carriedIn) {
+      const { slash_schedule, reward_allocation, token } = config;
+      const { partial_return, weighting } = requireFocusConfig();
+      const totalSlashed = calculateFocusTotalSlashed(users, slash_schedule, partial_return);
+
+      const outcome = computePoolOutcome(config, totalSlashed, carriedIn, {
+        distribute: (rewardPot) =>
+          calculateFocusRewards(users, rewardPot, reward_allocation, weighting),
+        refund: (rewardPot) =>
+          calculateFocusRefunds(
+            users,
+            rewardPot,
+            slash_schedule,
+            partial_return,
+            reward_allocation
+          ),
+      });
+      const { rewards } = outcome;
+
+      // Log weighted distribution details (refunds are not weighted)
+      if (rewards.length > 0 && !outcome.rollover) {
+        log.info('Weighted distribution details (per lock):');
+        rewards.forEach((reward, index) => {
+          const weight = BigInt(reward.weight);
+          const stake = BigInt(reward.stake_amount);
+          const duration = BigInt(reward.duration);
+          const rewardAmount = BigInt(reward.reward_amount);
+
+          log.info(
+            {
+              lock: index + 1,
+              address: reward.address.slice(0, 10) + '...',
+              sessionId: reward.session_id.toString(),
+              stake: formatTokenAmount(stake, token),
+              durationHours: (Number(duration) / 3600).toFixed(1),
+              weight: weight.toString(),
+              reward: formatTokenAmount(rewardAmount, token),
+            },
+            'Winner lock distribution'
+          );
+        });
+      }
+
+      return { ...outcome, rewardWeighting: weighting };
+    },
+
+    buildMerkleTree(users, rewards) {
+      // Build leaves with one entry per lock (keyed by address_sessionid)
+      const leaves = users.map((user) => {
+        const userReward = findLockReward(rewards, user);
+        const rewardAmount = userReward ? BigInt(userReward.reward_amount) : 0n;
+
+        return {
+          key: focusLeafKey(user),
+          hash: createFocusMerkleLeaf(user.address, user.session_id, rewardAmount),
+        };
+      });
+
+      return buildMerkleTree(leaves);
+    },
+
+    signClaims(users, rewards, merkleTree, config, verifier, chainId, expiry) {
+      const domain = getClaimDomain(config, chainId);
+      const signer = getSigner(verifier.signer);
+      const { partial_return } = requireFocusConfig();
+
+      return Promise.all(
+        users.map(async (user) => {
+          // Find reward for this lock
+          const userReward = findLockReward(rewards, user);
+
+          // Generate SNIP-12 signature
+          const signature = await createFocusOutcomeSignature(
+            user.address,
+            user.session_id,
+            user.start_time,
+            user.duration,
+            user.completion_status,
+            BigInt(expiry),
+            domain,
+            signer,
+            // v2 ClaimRequest: the contract returns stake by the time held
+            partial_return ? user.locked_duration : undefined
+          );
+
+          return {
+            user,
+            reward_amount: userReward ? userReward.reward_amount : '0',
+            // Proofs are keyed by address_sessionid
+            merkle_proof: merkleTree.proofs[focusLeafKey(user)] ?? [],
+            signature: { ...signature, key_id: verifier.key_id },
+          };
+        })
+      );
+    },
+
+    persistResults: (claims, expiry) => getPoolRepository().storeFocusLockResults(claims, expiry),
+    async hasStoredClaims(users) {
+      const claims = await getPoolRepository().fetchFocusLockClaims(
+        users.map((user) => user.uuid)
+      );
+      return claims.size > 0;
+    },
+
+    async fetchStoredClaim(id) {
+      const config = getConfig();
+      const record = await getPoolRepository().findFocusLockClaim(id, config.token);
+      if (!record) {
+        return null;
+      }
+
+      const { user, pool, claim } = record;
+      const domain = getClaimDomain(config, getCoreConfig().starknetChainId);
+      const keyId = claim.key_id ?? null; // Absent from file stores written before key ids
+      const lockedDuration = claim.locked_duration ?? null; // Set on v2 ClaimRequest rows only
+      const { public_key, signature } = await verifyWithRecordedKey(config, keyId, (publicKey) =>
+        verifyFocusClaimSignature(
+          user,
+          BigInt(claim.expiry_time),
+          claim,
+          domain,
+          publicKey,
+          lockedDuration === null ? undefined : BigInt(lockedDuration)
+        )
+      );
+
+      return {
+        id,
+        day: pool.day,
+        period: pool.period,
+        address: user.address,
+        reward_amount: claim.reward_amount,
+        merkle_proof: parseMerkleProof(claim.merkle_proof),
+        leaf: createFocusMerkleLeaf(user.address, user.session_id, BigInt(claim.reward_amount)),
+        expiry: Number(claim.expiry_time),
+        message_hash: claim.message_hash,
+        key_id: keyId,
+        public_key,
+        signature,
+        processed_at: claim.processed_at,
+      };
+    },
+  };
+}
+
+export const focusPoolType = createFocusPoolType(null);
@@ -6,28 +6,34 @@
  * Provides command-line interface for processing alarm and focus lock pools
  */
 
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
 import { Command } from 'commander';
-import { processAlarmPool } from './alarm/processor.js';
-import { processAllAlarmPools } from './alarm/batch-processor.js';
+import { getPoolTypes, getAllTokenPoolTypes } from './pools.js';
 import {
-  findLatestAlarmPool,
-  getCurrentPoolInfo as getAlarmCurrentPoolInfo,
-  displayPoolInfo as displayAlarmPoolInfo,
-} from './alarm/finder.js';
-import { processFocusLockPool } from './focus/processor.js';
-import { processAllFocusLockPools } from './focus/batch-processor.js';
+  processPool,
+  processAllPools,
+  resumeIncompletePools,
+} from './core/pipeline.js';
+import { listIncompleteJournalEntries } from './core/journal.js';
+import { verifyStoredClaim } from './core/proof.js';
+import { auditPoolClaims } from './core/audit.js';
 import {
-  findLatestFocusLockPool,
-  getCurrentPoolInfo as getFocusCurrentPoolInfo,
-  displayPoolInfo as displayFocusPoolInfo,
-} from './focus/finder.js';
+  findLatestPool,
+  getCurrentPoolInfo,
+  displayPoolInfo,
+} from './core/finder.js';
 import {
   processCronPools,
   processAllCronPools,
   calculatePoolToProcess,
 } from './cron/processor.js';
+import { outputDryRunReports } from './core/report.js';
+import { encryptKeystore } from './core/keystore-signer.js';
 import { loadConfig } from './core/config.js';
+import { formatTokenAmount } from './core/tokens.js';
 import { logger } from './core/logger.js';
+import { DryRunReport } from './types/common.js';
+import { AnyPoolType } from './types/pool.js';
 
 const program = new Command();
 
@@ -36,239 +42,302 @@ program
   .description('Production TypeScript backend for processing reward pools')
   .version('1.0.0');
 
-// Alarm commands
-const alarmCommand = program
-  .command('alarm')
-  .description('Alarm pool processing commands');
+/**
+ * Pool type a command runs on: the --token sub-pool, or the pool type itself
+ */
+function selectTokenPool(poolType: AnyPoolType, token: string | undefined): AnyPoolType {
+  return token ? poolType.forToken(token) : poolType;
+}
+
+// Pool type commands (one command group per registered pool type)
+for (const registeredPoolType of getPoolTypes()) {
+  const label = registeredPoolType.displayName.toLowerCase();
+
+  const poolCommand = program
+    .command(registeredPoolType.name)
+    .description(`${registeredPoolType.displayName} pool processing commands`);
+
+  // Process single pool
+  poolCommand
+    .command('process [day] [period]')
+    .description(`Process specific ${label} pool (or current/auto/latest)`)
+    .option('-f, --force', 'Skip time buffer check')
+    .option('--dry-run', 'Calculate and report only (no transaction, no database writes)')
+    .option('--report <file>', 'Write the dry-run report to a JSON file')
+    .option('--token <symbol>', 'Stake token sub-pool (e.g. STRK, default: the main token)')
+    .action(async (day, period, options) => {
+      try {
+        // Load config to validate env vars
+        loadConfig();
+        const poolType = selectTokenPool(registeredPoolType, options.token);
+
+        let poolDay: number;
+        let poolPeriod: 0 | 1;
+
+        if (!day || day === 'current' || day === 'auto' || day === 'latest') {
+          // Auto-detect latest pool
+          logger.info(`Auto-detecting latest ${label} pool`);
+          const latestPool = await findLatestPool(poolType);
+
+          if (!latestPool) {
+            logger.warn(`No ${label} pools found, using current time`);
+            const currentPool = getCurrentPoolInfo();
+            poolDay = currentPool.day;
+            poolPeriod = currentPool.period;
+          } else {
+            poolDay = latestPool.day;
+            poolPeriod = latestPool.period;
+          }
+        } else {
+          poolDay = parseInt(day);
+          poolPeriod = parseInt(period) as 0 | 1;
 
-// Process single alarm pool
-alarmCommand
-  .command('process [day] [period]')
-  .description('Process specific alarm pool (or current/auto/latest)')
-  .option('-f, --force', 'Skip time buffer check')
-  .action(async (day, period, options) => {
-    try {
-      // Load config to validate env vars
-      loadConfig();
+          if (isNaN(poolDay) || isNaN(poolPeriod) || poolPeriod < 0 || poolPeriod > 1) {
+            logger.error('Invalid day/period. Period must be 0 (AM) or 1 (PM)');
+            process.exit(1);
+          }
+        }
 
-      let poolDay: number;
-      let poolPeriod: 0 | 1;
+        logger.info({ day: poolDay, period: poolPeriod }, `Processing ${label} pool`);
 
-      if (!day || day === 'current' || day === 'auto' || day === 'latest') {
-        // Auto-detect latest pool
-        logger.info('Auto-detecting latest alarm pool');
-        const latestPool = await findLatestAlarmPool();
+        const result = await processPool(poolType, poolDay, poolPeriod, {
+          force: options.force,
+          dryRun: options.dryRun,
+        });
 
-        if (!latestPool) {
-          logger.warn('No alarm pools found, using current time');
-          const currentPool = getAlarmCurrentPoolInfo();
-          poolDay = currentPool.day;
-          poolPeriod = currentPool.period;
-        } else {
-          poolDay = latestPool.day;
-          poolPeriod = latestPool.period;
+        if (result.dry_run_report) {
+          outputDryRunReports([result.dry_run_report], options.report);
         }
-      } else {
-        poolDay = parseInt(day);
-        poolPeriod = parseInt(period) as 0 | 1;
 
-        if (isNaN(poolDay) || isNaN(poolPeriod) || poolPeriod < 0 || poolPeriod > 1) {
-          logger.error('Invalid day/period. Period must be 0 (AM) or 1 (PM)');
-          process.exit(1);
+        if (result.success) {
+          logger.info(
+            { result: result.pool_info, feeEstimate: result.fee_estimate },
+            `${poolType.displayName} pool processed successfully`
+          );
+          process.exit(0);
+        } else {
+          logger.warn({ message: result.message }, `${poolType.displayName} pool processing completed with issues`);
+          process.exit(result.message?.includes('Too early') ? 2 : 1);
         }
+      } catch (error) {
+        logger.error({ error }, `${registeredPoolType.displayName} pool processing failed`);
+        process.exit(1);
       }
+    });
+
+  // Process all unprocessed pools
+  poolCommand
+    .command('process-all')
+    .description(`Process all unprocessed ${label} pools`)
+    .option('-f, --force', 'Skip time buffer check for all pools')
+    .option('--dry-run', 'Calculate and report only (no transactions, no database writes)')
+    .option('--report <file>', 'Write the dry-run report to a JSON file')
+    .option('--multicall', 'Finalize pools in shared multicall transactions')
+    .option('--token <symbol>', 'Stake token sub-pool (e.g. STRK, default: the main token)')
+    .action(async (options) => {
+      try {
+        loadConfig();
+        const poolType = selectTokenPool(registeredPoolType, options.token);
+
+        logger.info(`Processing all unprocessed ${label} pools`);
+        const result = await processAllPools(poolType, {
+          force: options.force,
+          dryRun: options.dryRun,
+          multicall: options.multicall,
+        });
+
+        if (options.dryRun) {
+          outputDryRunReports(
+            result.results.flatMap((r) => (r.report ? [r.report] : [])),
+            options.report
+          );
+        }
 
-      logger.info({ day: poolDay, period: poolPeriod }, 'Processing alarm pool');
-
-      const result = await processAlarmPool(poolDay, poolPeriod, options.force);
-
-      if (result.success) {
-        logger.info({ result: result.pool_info }, 'Pool processed successfully');
-        process.exit(0);
-      } else {
-        logger.warn({ message: result.message }, 'Pool processing completed with issues');
-        process.exit(result.message?.includes('Too early') ? 2 : 1);
+        logger.info(
+          {
+            total: result.total,
+            success: result.success,
+            failed: result.failed,
+            skipped: result.skipped,
+          },
+          'Batch processing completed'
+        );
+
+        process.exit(result.failed > 0 ? 1 : 0);
+      } catch (error) {
+        logger.error({ error }, 'Batch processing failed');
+        process.exit(1);
       }
-    } catch (error) {
-      logger.error({ error }, 'Pool processing failed');
-      process.exit(1);
-    }
-  });
-
-// Process all unprocessed alarm pools
-alarmCommand
-  .command('process-all')
-  .description('Process all unprocessed alarm pools')
-  .option('-f, --force', 'Skip time buffer check for all pools')
-  .action(async (options) => {
-    try {
-      loadConfig();
-
-      logger.info('Processing all unprocessed alarm pools');
-      const result = await processAllAlarmPools(options.force);
-
-      logger.info(
-        {
-          total: result.total,
-          success: result.success,
-          failed: result.failed,
-        },
-        'Batch processing completed'
-      );
+    });
 
-      process.exit(result.failed > 0 ? 1 : 0);
-    } catch (error) {
-      logger.error({ error }, 'Batch processing failed');
-      process.exit(1);
-    }
-  });
+  // Find latest pool
+  poolCommand
+    .command('find-latest')
+    .description(`Find latest ${label} pool with users`)
+    .option('--token <symbol>', 'Stake token sub-pool (e.g. STRK, default: the main token)')
+    .action(async (options) => {
+      try {
+        loadConfig();
+        const poolType = selectTokenPool(registeredPoolType, options.token);
 
-// Find latest alarm pool
-alarmCommand
-  .command('find-latest')
-  .description('Find latest alarm pool with alarms')
-  .action(async () => {
-    try {
-      loadConfig();
+        const latestPool = await findLatestPool(poolType);
 
-      const latestPool = await findLatestAlarmPool();
+        if (!latestPool) {
+          logger.warn(`No ${label} pools found`);
+          process.exit(1);
+        }
 
-      if (!latestPool) {
-        logger.warn('No alarm pools found');
+        console.log(`\nLatest ${poolType.displayName} Pool:`);
+        console.log(displayPoolInfo(latestPool));
+        process.exit(0);
+      } catch (error) {
+        logger.error({ error }, `Failed to find latest ${label} pool`);
         process.exit(1);
       }
+    });
+
+  // Re-verify a stored claim against the on-chain merkle root
+  poolCommand
+    .command('verify-proof <id>')
+    .description(`Verify the stored merkle proof of a ${label} claim against the on-chain root`)
+    .option('--token <symbol>', 'Stake token sub-pool (e.g. STRK, default: the main token)')
+    .action(async (id, options) => {
+      try {
+        loadConfig();
+        const poolType = selectTokenPool(registeredPoolType, options.token);
+
+        const verification = await verifyStoredClaim(poolType, id);
+
+        if (!verification) {
+          logger.warn({ id }, `No stored claim found for ${label} ${id}`);
+          process.exit(1);
+        }
 
-      console.log('\nLatest Alarm Pool:');
-      console.log(displayAlarmPoolInfo(latestPool));
-      process.exit(0);
-    } catch (error) {
-      logger.error({ error }, 'Failed to find latest pool');
-      process.exit(1);
-    }
-  });
-
-// Focus lock commands
-const focusCommand = program
-  .command('focus')
-  .description('Focus lock pool processing commands');
-
-// Process single focus lock pool
-focusCommand
-  .command('process [day] [period]')
-  .description('Process specific focus lock pool (or current/auto/latest)')
-  .option('-f, --force', 'Skip time buffer check')
-  .action(async (day, period, options) => {
-    try {
-      // Load config to validate env vars
-      loadConfig();
-
-      let poolDay: number;
-      let poolPeriod: 0 | 1;
+        const { claim } = verification;
+        console.log(`\n=== ${poolType.displayName} Claim Proof ===`);
+        console.log(`ID: ${claim.id}`);
+        console.log(`Pool: Day ${claim.day}, Period ${claim.period}`);
+        console.log(`Address: ${claim.address}`);
+        const { token } = poolType.getContractConfig();
+        console.log(`Reward: ${formatTokenAmount(claim.reward_amount, token)}`);
+        console.log(`Processed at: ${claim.processed_at}`);
+        console.log(`Verifier key: ${claim.key_id ?? '(not recorded)'}`);
+        console.log(`Signature valid: ${claim.signature.valid}`);
+        console.log(`Leaf: ${claim.leaf}`);
+        console.log(`Proof length: ${claim.merkle_proof.length}`);
+        console.log(`Computed root: ${verification.computed_root}`);
+        console.log(`On-chain root: ${verification.onchain_root}`);
+        console.log(`Finalized: ${verification.is_finalized}`);
+        console.log(`Valid: ${verification.valid}`);
+
+        process.exit(verification.valid ? 0 : 1);
+      } catch (error) {
+        logger.error({ error }, `Failed to verify ${label} claim proof`);
+        process.exit(1);
+      }
+    });
 
-      if (!day || day === 'current' || day === 'auto' || day === 'latest') {
-        // Auto-detect latest pool
-        logger.info('Auto-detecting latest focus lock pool');
-        const latestPool = await findLatestFocusLockPool();
+  // Re-verify the signatures of all stored claims of a pool
+  poolCommand
+    .command('audit-claims <day> <period>')
+    .description(`Verify the stored claim signatures of a ${label} pool against the verifier key`)
+    .option('--token <symbol>', 'Stake token sub-pool (e.g. STRK, default: the main token)')
+    .action(async (day, period, options) => {
+      try {
+        loadConfig();
+        const poolType = selectTokenPool(registeredPoolType, options.token);
 
-        if (!latestPool) {
-          logger.warn('No focus lock pools found, using current time');
-          const currentPool = getFocusCurrentPoolInfo();
-          poolDay = currentPool.day;
-          poolPeriod = currentPool.period;
-        } else {
-          poolDay = latestPool.day;
-          poolPeriod = latestPool.period;
-        }
-      } else {
-        poolDay = parseInt(day);
-        poolPeriod = parseInt(period) as 0 | 1;
+        const poolDay = parseInt(day);
+        const poolPeriod = parseInt(period) as 0 | 1;
 
         if (isNaN(poolDay) || isNaN(poolPeriod) || poolPeriod < 0 || poolPeriod > 1) {
           logger.error('Invalid day/period. Period must be 0 (AM) or 1 (PM)');
           process.exit(1);
         }
-      }
 
-      logger.info({ day: poolDay, period: poolPeriod }, 'Processing focus lock pool');
+        const audit = await auditPoolClaims(poolType, poolDay, poolPeriod);
 
-      const result = await processFocusLockPool(poolDay, poolPeriod, options.force);
+        console.log(`\n=== ${poolType.displayName} Claim Signature Audit ===`);
+        console.log(`Pool: Day ${audit.day}, Period ${audit.period}`);
+        for (const [keyId, publicKey] of Object.entries(audit.public_keys)) {
+          console.log(`Verifier key ${keyId}: ${publicKey}`);
+        }
+        console.log(`Claims: ${audit.total} (valid: ${audit.valid}, invalid: ${audit.invalid})`);
+        console.log(`Records without a claim: ${audit.missing}`);
+
+        for (const claim of audit.claims.filter((c) => !c.signature.valid)) {
+          console.log(`\nInvalid: ${claim.id}`);
+          console.log(`  Address: ${claim.address}`);
+          console.log(`  Key id: ${claim.key_id ?? '(not recorded)'}`);
+          console.log(`  Stored message hash: ${claim.message_hash}`);
+          console.log(`  Expected message hash: ${claim.signature.expected_message_hash}`);
+          console.log(`  Signature valid: ${claim.signature.signature_valid}`);
+        }
 
-      if (result.success) {
-        logger.info({ result: result.pool_info }, 'Focus lock pool processed successfully');
-        process.exit(0);
-      } else {
-        logger.warn({ message: result.message }, 'Focus lock pool processing completed with issues');
-        process.exit(result.message?.includes('Too early') ? 2 : 1);
+        process.exit(audit.invalid > 0 ? 1 : 0);
+      } catch (error) {
+        logger.error({ error }, `Failed to audit ${label} claim signatures`);
+        process.exit(1);
       }
-    } catch (error) {
-      logger.error({ error }, 'Focus lock pool processing failed');
-      process.exit(1);
-    }
-  });
+    });
+}
 
-// Process all unprocessed focus lock pools
-focusCommand
-  .command('process-all')
-  .description('Process all unprocessed focus lock pools')
-  .option('-f, --force', 'Skip time buffer check for all pools')
-  .action(async (options) => {
+// Resume half-done pool runs from the processing journal
+program
+  .command('resume [poolType]')
+  .description('Finish pool runs that stopped between on-chain finalization and database storage')
+  .option('--list', 'Only list unfinished runs')
+  .action(async (poolType, options) => {
     try {
       loadConfig();
 
-      logger.info('Processing all unprocessed focus lock pools');
-      const result = await processAllFocusLockPools(options.force);
+      if (options.list) {
+        const entries = await listIncompleteJournalEntries(poolType);
+
+        console.log('\n=== Unfinished Pool Runs ===');
+        if (entries.length === 0) {
+          console.log('None');
+        }
+        for (const entry of entries) {
+          console.log(
+            `${entry.pool_type} Day ${entry.day}, Period ${entry.period}: ${entry.stage}` +
+              (entry.tx_hash ? ` (tx ${entry.tx_hash})` : '')
+          );
+        }
+        process.exit(0);
+      }
+
+      const result = await resumeIncompletePools(poolType);
 
       logger.info(
         {
-          total: result.totalPools,
-          success: result.successCount,
-          failed: result.failCount,
-          skipped: result.skippedCount,
+          total: result.total,
+          success: result.success,
+          failed: result.failed,
         },
-        'Batch processing completed'
+        'Resume completed'
       );
 
-      process.exit(result.failCount > 0 ? 1 : 0);
-    } catch (error) {
-      logger.error({ error }, 'Batch processing failed');
-      process.exit(1);
-    }
-  });
-
-// Find latest focus lock pool
-focusCommand
-  .command('find-latest')
-  .description('Find latest focus lock pool with locks')
-  .action(async () => {
-    try {
-      loadConfig();
-
-      const latestPool = await findLatestFocusLockPool();
-
-      if (!latestPool) {
-        logger.warn('No focus lock pools found');
-        process.exit(1);
-      }
-
-      console.log('\nLatest Focus Lock Pool:');
-      console.log(displayFocusPoolInfo(latestPool));
-      process.exit(0);
+      process.exit(result.failed > 0 ? 1 : 0);
     } catch (error) {
-      logger.error({ error }, 'Failed to find latest focus lock pool');
+      logger.error({ error }, 'Resume failed');
       process.exit(1);
     }
   });
 
-// Cron commands (combined alarm + focus processing)
+// Cron commands (combined processing for all pool types)
 const cronCommand = program
   .command('cron')
-  .description('Combined cron processing for both alarm and focus lock pools');
+  .description('Combined cron processing for all registered pool types');
 
-// Process current cron pool (both alarm and focus)
+// Process current cron pool (all pool types)
 cronCommand
   .command('process')
-  .description('Process current scheduled pool (both alarm and focus lock)')
+  .description('Process current scheduled pool (all pool types)')
   .option('-f, --force', 'Skip time buffer check')
+  .option('--dry-run', 'Calculate and report only (no transactions, no database writes)')
+  .option('--report <file>', 'Write the dry-run report to a JSON file')
+  .option('--multicall', 'Finalize all pool types in one multicall transaction')
   .action(async (options) => {
     try {
       loadConfig();
@@ -279,34 +348,72 @@ cronCommand
           day: pool.day,
           period: pool.period,
           force: options.force,
+          dryRun: options.dryRun,
+          multicall: options.multicall,
         },
-        'Processing cron pool (alarm + focus)'
+        'Processing cron pool (all pool types)'
       );
 
-      const result = await processCronPools(options.force);
+      const result = await processCronPools({
+        force: options.force,
+        dryRun: options.dryRun,
+        multicall: options.multicall,
+      });
+
+      if (options.dryRun) {
+        const reports: DryRunReport[] = Object.values(result.results).flatMap(
+          (r) => (r.dry_run_report ? [r.dry_run_report] : [])
+        );
+        outputDryRunReports(reports, options.report);
+      }
 
       console.log('\n=== Cron Processing Results ===');
       console.log(`Pool: Day ${result.pool.day}, Period ${result.pool.period}`);
       console.log(`Processed at: ${result.processed_at}`);
       console.log('');
-      console.log('Alarm Pool:');
-      console.log(`  Success: ${result.alarm.success}`);
-      if (result.alarm.message) {
-        console.log(`  Message: ${result.alarm.message}`);
-      }
-      if (result.alarm.transaction_hash) {
-        console.log(`  TX Hash: ${result.alarm.transaction_hash}`);
-      }
-      console.log('');
-      console.log('Focus Lock Pool:');
-      console.log(`  Success: ${result.focus.success}`);
-      if (result.focus.message) {
-        console.log(`  Message: ${result.focus.message}`);
-      }
-      if (result.focus.transaction_hash) {
-        console.log(`  TX Hash: ${result.focus.transaction_hash}`);
+      for (const poolType of getAllTokenPoolTypes()) {
+        const poolResult = result.results[poolType.name];
+        if (!poolResult) {
+          continue;
+        }
+
+        console.log(`${poolType.displayName} Pool:`);
+        console.log(`  Success: ${poolResult.success}`);
+        if (poolResult.message) {
+          console.log(`  Message: ${poolResult.message}`);
+        }
+        if (poolResult.transaction_hash) {
+          console.log(`  TX Hash: ${poolResult.transaction_hash}`);
+        }
+        if (poolResult.pool_info) {
+          const { protocol_fees, protocol_fee_bps, fee_split, token } = poolResult.pool_info;
+          const format = (amount: string): string => formatTokenAmount(amount, token);
+          console.log(`  Protocol Fees: ${format(protocol_fees)} (${protocol_fee_bps} bps)`);
+          for (const share of fee_split) {
+            console.log(`    ${share.recipient}: ${format(share.amount)} (${share.share_bps} bps)`);
+          }
+          const { reward_weighting } = poolResult.pool_info;
+          if (reward_weighting) {
+            const cap = reward_weighting.max_user_reward_bps;
+            const capNote = cap === null ? '' : ` (max ${cap} bps per user)`;
+            console.log(`  Weighting: ${reward_weighting.strategy}${capNote}`);
+          }
+          const { carried_in, rollover } = poolResult.pool_info;
+          if (carried_in !== '0') {
+            console.log(`  Carried In: ${format(carried_in)}`);
+          }
+          if (rollover) {
+            console.log(`  Rollover: ${format(rollover.amount)} (${rollover.policy})`);
+          }
+        }
+        if (poolResult.pool_info?.fee_mode) {
+          console.log(`  Fee Mode: ${poolResult.pool_info.fee_mode}`);
+        }
+        if (poolResult.fee_estimate) {
+          console.log(`  Fee Estimate: ${poolResult.fee_estimate.overall_fee} ${poolResult.fee_estimate.unit}`);
+        }
+        console.log('');
       }
-      console.log('');
       console.log(`Overall Success: ${result.success}`);
 
       process.exit(result.success ? 0 : 1);
@@ -316,33 +423,52 @@ cronCommand
     }
   });
 
-// Process all unprocessed pools (both alarm and focus)
+// Process all unprocessed pools (all pool types)
 cronCommand
   .command('process-all')
-  .description('Process all unprocessed pools (both alarm and focus lock)')
+  .description('Process all unprocessed pools (all pool types)')
   .option('-f, --force', 'Skip time buffer check for all pools')
+  .option('--dry-run', 'Calculate and report only (no transactions, no database writes)')
+  .option('--report <file>', 'Write the dry-run report to a JSON file')
+  .option('--multicall', 'Finalize pools in shared multicall transactions')
   .action(async (options) => {
     try {
       loadConfig();
 
-      logger.info({ force: options.force }, 'Processing all unprocessed pools (alarm + focus)');
+      logger.info(
+        { force: options.force, dryRun: options.dryRun, multicall: options.multicall },
+        'Processing all unprocessed pools (all pool types)'
+      );
 
-      const result = await processAllCronPools(options.force);
+      const result = await processAllCronPools({
+        force: options.force,
+        dryRun: options.dryRun,
+        multicall: options.multicall,
+      });
+
+      if (options.dryRun) {
+        const reports: DryRunReport[] = Object.values(result.results).flatMap(
+          (batch) => batch.results.flatMap((r) => (r.report ? [r.report] : []))
+        );
+        outputDryRunReports(reports, options.report);
+      }
 
       console.log('\n=== Batch Cron Processing Results ===');
       console.log(`Processed at: ${result.processed_at}`);
       console.log('');
-      console.log('Alarm Pools:');
-      console.log(`  Total: ${result.alarm.total}`);
-      console.log(`  Success: ${result.alarm.success}`);
-      console.log(`  Failed: ${result.alarm.failed}`);
-      console.log('');
-      console.log('Focus Lock Pools:');
-      console.log(`  Total: ${result.focus.total}`);
-      console.log(`  Success: ${result.focus.success}`);
-      console.log(`  Failed: ${result.focus.failed}`);
-      console.log(`  Skipped: ${result.focus.skipped}`);
-      console.log('');
+      for (const poolType of getAllTokenPoolTypes()) {
+        const poolResult = result.results[poolType.name];
+        if (!poolResult) {
+          continue;
+        }
+
+        console.log(`${poolType.displayName} Pools:`);
+        console.log(`  Total: ${poolResult.total}`);
+        console.log(`  Success: ${poolResult.success}`);
+        console.log(`  Failed: ${poolResult.failed}`);
+        console.log(`  Skipped: ${poolResult.skipped}`);
+        console.log('');
+      }
       console.log(`Overall Success: ${result.success}`);
 
       process.exit(result.success ? 0 : 1);
@@ -376,5 +502,49 @@ cronCommand
     process.exit(0);
   });
 
+// Encrypted keystores for the keystore signer
+const keystoreCommand = program
+  .command('keystore')
+  .description('Encrypted signer keystore commands');
+
+keystoreCommand
+  .command('create <file>')
+  .description(
+    'Encrypt a private key into a keystore (reads the key, then the passphrase, one per line from stdin; the passphrase defaults to KEYSTORE_PASSPHRASE)'
+  )
+  .option('--force', 'Overwrite an existing keystore file')
+  .action(async (file, options) => {
+    try {
+      if (existsSync(file) && !options.force) {
+        logger.error({ file }, 'Keystore file already exists (use --force to overwrite)');
+        process.exit(1);
+      }
+
+      const [privateKey, passphrase = process.env.KEYSTORE_PASSPHRASE] = readFileSync(0, 'utf8')
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean);
+
+      if (!privateKey || !/^0x[0-9a-fA-F]+$/.test(privateKey)) {
+        logger.error('Expected a 0x private key on the first line of stdin');
+        process.exit(1);
+      }
+      if (!passphrase) {
+        logger.error('Expected a passphrase on the second line of stdin or in KEYSTORE_PASSPHRASE');
+        process.exit(1);
+      }
+
+      const keystore = await encryptKeystore(privateKey, passphrase);
+      writeFileSync(file, JSON.stringify(keystore, null, 2) + '\n', { mode: 0o600 });
+
+      console.log(`Keystore written to ${file}`);
+      console.log(`Public key: ${keystore.public_key}`);
+      process.exit(0);
+    } catch (error) {
+      logger.error({ error }, 'Failed to create keystore');
+      process.exit(1);
+    }
+  });
+
 program.parse();
 
@@ -0,0 +1,15 @@
+/**
+ * Built-in pool type registrations
+ *
+ * Import this module before looking up pool types from the registry.
+ * New pool types only need a PoolType implementation and a line here.
+ */
+
+import { registerPoolType } from './core/registry.js';
+import { alarmPoolType } from './alarm/pool-type.js';
+import { focusPoolType } from './focus/pool-type.js';
+
+registerPoolType(alarmPoolType);
+registerPoolType(focusPoolType);
+
+export { getPoolType, getPoolTypes, getAllTokenPoolTypes } from './core/registry.js';
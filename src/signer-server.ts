@@ -0,0 +1,221 @@
+#!/usr/bin/env node
+
+/**
+ * Stand-in remote signing service
+ *
+ * Serves the remote signer protocol (see src/core/remote-signer.ts) for
+ * local development and CI, so the processor itself never holds a key.
+ *
+ * Keys come from SIGNER_SERVER_KEYS, a comma separated list of
+ * <key id>=<0x private key | keystore:<file>>, e.g.
+ *
+ *   SIGNER_SERVER_KEYS=alarm-verifier=keystore:./keys/alarm.json,deployer=0x...
+ *
+ * Keystore files are unlocked with KEYSTORE_PASSPHRASE. Listens on
+ * SIGNER_SERVER_HOST:SIGNER_SERVER_PORT (default 127.0.0.1:8787) and
+ * requires SIGNER_SERVER_TOKEN as bearer token when set.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { z } from 'zod';
+import dotenv from 'dotenv';
+import { Signer, SignerConfig } from './types/signer.js';
+import { getSigner } from './core/signer.js';
+import { createModuleLogger } from './core/logger.js';
+
+dotenv.config();
+
+const log = createModuleLogger('signer-server');
+
+/**
+ * Largest hash the STARK curve signs (exclusive)
+ */
+const MAX_MESSAGE_HASH = 2n ** 251n;
+
+/**
+ * Largest accepted request body
+ */
+const MAX_BODY_BYTES = 4096;
+
+/**
+ * Error with an HTTP status
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Signer server configuration schema
+ */
+const serverConfigSchema = z.object({
+  SIGNER_SERVER_KEYS: z.string().min(1, 'SIGNER_SERVER_KEYS is required'),
+  SIGNER_SERVER_HOST: z.string().optional().default('127.0.0.1'),
+  SIGNER_SERVER_PORT: z.coerce.number().int().min(1).max(65535).optional().default(8787),
+  SIGNER_SERVER_TOKEN: z.string().optional(),
+  KEYSTORE_PASSPHRASE: z.string().optional(),
+});
+
+type ServerConfig = z.infer<typeof serverConfigSchema>;
+
+/**
+ * Parse SIGNER_SERVER_KEYS into signers by key id
+ */
+function loadSigners(cfg: ServerConfig): Map<string, Signer> {
+  const signers = new Map<string, Signer>();
+
+  for (const entry of cfg.SIGNER_SERVER_KEYS.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    const keyId = entry.slice(0, separator);
+    const source = entry.slice(separator + 1);
+
+    if (separator <= 0 || !source) {
+      throw new Error(`Invalid SIGNER_SERVER_KEYS entry "${entry}": expected <key id>=<key>`);
+    }
+
+    let signerConfig: SignerConfig;
+    if (source.startsWith('keystore:')) {
+      if (!cfg.KEYSTORE_PASSPHRASE) {
+        throw new Error(`KEYSTORE_PASSPHRASE is required for keystore key ${keyId}`);
+      }
+      signerConfig = {
+        backend: 'keystore',
+        path: source.slice('keystore:'.length),
+        passphrase: cfg.KEYSTORE_PASSPHRASE,
+      };
+    } else if (/^0x[0-9a-fA-F]+$/.test(source)) {
+      signerConfig = { backend: 'env', private_key: source };
+    } else {
+      throw new Error(`Invalid key for ${keyId}: expected a 0x private key or keystore:<file>`);
+    }
+
+    signers.set(keyId, getSigner(signerConfig));
+  }
+
+  return signers;
+}
+
+/**
+ * Read a JSON request body
+ */
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+/**
+ * Send a JSON response
+ */
+function send(res: ServerResponse, status: number, payload: object): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+/**
+ * Handle one protocol request
+ */
+async function handle(
+  req: IncomingMessage,
+  signers: Map<string, Signer>,
+  token: string | undefined
+): Promise<object> {
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+
+  const match = /^\/v1\/keys\/([^/]+)(\/sign)?$/.exec(req.url ?? '');
+  if (!match) {
+    throw new HttpError(404, 'Not found');
+  }
+
+  const keyId = decodeURIComponent(match[1] ?? '');
+  const signer = signers.get(keyId);
+  if (!signer) {
+    throw new HttpError(404, `Unknown key ${keyId}`);
+  }
+
+  if (!match[2]) {
+    if (req.method !== 'GET') {
+      throw new HttpError(405, 'Method not allowed');
+    }
+    return { key_id: keyId, public_key: await signer.getPublicKey() };
+  }
+
+  if (req.method !== 'POST') {
+    throw new HttpError(405, 'Method not allowed');
+  }
+
+  const body = (await readJson(req)) as { message_hash?: unknown };
+  const messageHash = body.message_hash;
+  if (
+    typeof messageHash !== 'string' ||
+    !/^0x[0-9a-fA-F]{1,64}$/.test(messageHash) ||
+    BigInt(messageHash) >= MAX_MESSAGE_HASH
+  ) {
+    throw new HttpError(400, 'message_hash must be a 0x hex felt below 2^251');
+  }
+
+  const signature = await signer.signHash(messageHash);
+
+  // Audit trail of everything this service signed
+  log.info({ keyId, messageHash }, 'Message hash signed');
+
+  return signature;
+}
+
+/**
+ * Start the server
+ */
+function main(): void {
+  const parsed = serverConfigSchema.safeParse(process.env);
+  if (!parsed.success) {
+    const messages = parsed.error.errors.map((err) => `${err.path.join('.')}: ${err.message}`);
+    log.fatal({ errors: messages }, 'Invalid signer server configuration');
+    process.exit(1);
+  }
+
+  const cfg = parsed.data;
+  const signers = loadSigners(cfg);
+
+  const server = createServer((req, res) => {
+    handle(req, signers, cfg.SIGNER_SERVER_TOKEN)
+      .then((payload) => send(res, 200, payload))
+      .catch((error: unknown) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : String(error);
+        if (status >= 500) {
+          log.error({ error, url: req.url }, 'Signer request failed');
+        }
+        send(res, status, { error: message });
+      });
+  });
+
+  server.listen(cfg.SIGNER_SERVER_PORT, cfg.SIGNER_SERVER_HOST, () => {
+    log.info(
+      {
+        host: cfg.SIGNER_SERVER_HOST,
+        port: cfg.SIGNER_SERVER_PORT,
+        keys: [...signers.keys()],
+        auth: !!cfg.SIGNER_SERVER_TOKEN,
+      },
+      'Signer server listening'
+    );
+  });
+}
+
+main();
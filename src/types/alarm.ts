@@ -2,7 +2,16 @@
  * Alarm-specific types for alarm pool processing
  */
 
-import { BasePoolUser, PoolContractConfig } from './common.js';
+import {
+  BasePoolUser,
+  PoolContractConfig,
+  RewardAllocationMode,
+  Snip12DomainConfig,
+  VerifierKey,
+} from './common.js';
+import { SlashSchedule } from './slashing.js';
+import { ProtocolFeeConfig } from './fees.js';
+import { RolloverPolicy } from './rollover.js';
 
 /**
  * Alarm user data from database
@@ -12,6 +21,15 @@ export interface AlarmUser extends BasePoolUser {
   snooze_count: number; // Number of snoozes (0 = winner, 1+ = loser)
   alarm_uuid: string; // Database UUID (same as uuid)
   alarm_id: string; // On-chain alarm ID as u64 string (same as id)
+  streak?: number; // Consecutive wake-ups without snoozing, incl. this alarm (set when streaks are enabled)
+}
+
+/**
+ * Step of the streak multiplier curve
+ */
+export interface StreakMultiplier {
+  min_streak: number; // Streak from which the multiplier applies
+  multiplier_bps: number; // Reward weight multiplier (10000 = 1×)
 }
 
 /**
@@ -22,7 +40,11 @@ export interface AlarmClaimData {
   signature_r: string; // SNIP-12 signature r component
   signature_s: string; // SNIP-12 signature s component
   message_hash: string; // SNIP-12 message hash
+  public_key: string | null; // Verifier public key that signed (null on rows from before key ids)
+  key_id: string | null; // Verifier key id that signed (null on rows from before key ids)
   reward_amount: string; // Reward amount for this user
+  reward_weight: string | null; // Weight the reward was allocated by (null if no reward share)
+  streak_length: number | null; // Streak at this alarm (null when streaks are disabled)
   merkle_proof: string; // JSON string of merkle proof array
   expiry_time: number; // Signature expiry timestamp (48h from processing)
   processed_at: string; // ISO timestamp when processed
@@ -33,7 +55,14 @@ export interface AlarmClaimData {
  */
 export interface AlarmPoolConfig extends PoolContractConfig {
   contract_address: string;
-  verifier_private_key: string;
+  verifier: VerifierKey;
+  retiring_verifier?: VerifierKey;
+  domain: Snip12DomainConfig;
+  slash_schedule: SlashSchedule;
+  protocol_fee: ProtocolFeeConfig;
+  reward_allocation: RewardAllocationMode;
+  rollover_policy: RolloverPolicy;
+  streak_multipliers: StreakMultiplier[]; // Empty = rewards weighted by stake only
 }
 
 /**
@@ -53,9 +82,10 @@ export interface DatabaseAlarmRecord {
   id: string; // UUID
   user_id: string;
   wakeup_time: number;
-  stake_amount: number; // USDC with 2 decimals (e.g., 50.00)
+  stake_amount: number; // Whole stake tokens, NUMERIC(10,2) (e.g., 50.00)
   snooze_count: number;
   alarm_id: bigint | null; // On-chain ID
+  token: string | null; // Stake token symbol (null = the default ALARM_TOKEN)
   deleted: boolean;
   claim_ready: boolean;
   has_claimed: boolean;
@@ -78,7 +108,11 @@ export interface ClaimDataInsert {
   signature_r: string;
   signature_s: string;
   message_hash: string;
+  public_key: string | null; // Verifier public key (null on rows from before key ids)
+  key_id: string | null; // Verifier key id (null on rows from before key ids)
   reward_amount: string;
+  reward_weight: string | null; // Weight the reward was allocated by (null if no reward share)
+  streak_length: number | null; // Streak at this alarm (null when streaks are disabled)
   merkle_proof: string; // JSON string
   expiry_time: number;
   processed_at: string;
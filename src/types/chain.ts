@@ -0,0 +1,95 @@
+/**
+ * Chain adapter contract
+ *
+ * BlockchainService talks to Starknet only through a ChainClient so
+ * the full pool flow can run against a live RPC node or the in-process
+ * fake chain.
+ */
+
+import { Call } from 'starknet';
+import { OnChainPoolInfo, TransactionFeeMode } from './common.js';
+
+/**
+ * Transaction execution status (mirrors Starknet receipt execution_status)
+ */
+export type ChainExecutionStatus = 'SUCCEEDED' | 'REVERTED';
+
+/**
+ * Transaction receipt (subset of the Starknet receipt used by the processor)
+ */
+export interface ChainReceipt {
+  transaction_hash: string;
+  execution_status: ChainExecutionStatus;
+  revert_reason?: string; // Set when execution_status = REVERTED
+}
+
+/**
+ * One pool to finalize with set_merkle_root_for_pool
+ */
+export interface MerkleRootTarget {
+  contract_address: string;
+  day: number;
+  period: 0 | 1;
+  merkle_root: string;
+  new_rewards: bigint;
+  protocol_fees: bigint;
+}
+
+/**
+ * A broadcast transaction and how its fee is paid
+ */
+export interface SubmittedTransaction {
+  transaction_hash: string;
+  fee_mode: TransactionFeeMode;
+}
+
+/**
+ * Fee estimate for a set of calls
+ */
+export interface ChainFeeEstimate {
+  overall_fee: bigint; // In the smallest unit of the fee token
+  unit: 'WEI' | 'FRI'; // WEI = ETH, FRI = STRK
+}
+
+/**
+ * Starknet access used by the processor
+ */
+export interface ChainClient {
+  /** Backend name for logs (e.g. 'rpc') */
+  readonly name: string;
+
+  initialize(): Promise<void>;
+
+  /** Current nonce of the deployer account */
+  getNonce(): Promise<string>;
+
+  /**
+   * Sign and broadcast calls from the deployer account
+   * @returns Transaction hash
+   */
+  execute(calls: Call[], nonce: string): Promise<string>;
+
+  /** Whether sponsored (paymaster) execution is available */
+  canSponsor(): boolean;
+
+  /**
+   * Broadcast calls through the paymaster with the fee sponsored
+   * @returns Transaction hash
+   */
+  executeSponsored(calls: Call[]): Promise<string>;
+
+  /** Wait until a broadcast transaction is included and return its receipt */
+  waitForReceipt(txHash: string): Promise<ChainReceipt>;
+
+  /** Read and decode get_pool_info(day, period) */
+  getPoolInfo(contractAddress: string, day: number, period: 0 | 1): Promise<OnChainPoolInfo>;
+
+  /** Read get_verifier_public_key(): Stark public key claims must be signed with */
+  getVerifierPublicKey(contractAddress: string): Promise<string>;
+
+  /**
+   * Estimate the fee of executing calls from the deployer account
+   * @throws {Error} If the calls would revert
+   */
+  estimateFee(calls: Call[]): Promise<ChainFeeEstimate>;
+}
@@ -2,6 +2,12 @@
  * Common types shared across all pool types (alarms, focus locks, etc.)
  */
 
+import { SignerConfig } from './signer.js';
+import { SlashSchedule } from './slashing.js';
+import { FeeSplitEntry, ProtocolFeeConfig } from './fees.js';
+import { PoolRollover, RolloverPolicy } from './rollover.js';
+import { TokenConfig, TokenPool } from './token.js';
+
 /**
  * Pool information identifying a specific 12-hour period
  */
@@ -23,15 +29,64 @@ export interface PoolTimeRange {
  */
 export interface RewardData {
   address: string; // User's wallet address (0x...)
+  uuid: string; // Record the reward was allocated to (e.g. alarm UUID)
   reward_amount: string; // Reward amount as string (u256)
+  weight?: string; // Weight the reward was allocated by (if recorded)
 }
 
 /**
- * Merkle tree with root and proofs for all addresses
+ * How the reward pool is divided among winners
+ * - floor: proportional shares rounded down (leftover units are not allocated)
+ * - largest-remainder: leftover units go to the largest rounding remainders,
+ *   so the rewards add up to the reward pool exactly
+ */
+export type RewardAllocationMode = 'floor' | 'largest-remainder';
+
+/**
+ * Reward weighting a pool was distributed with (pool types with selectable weighting)
+ */
+export interface RewardWeighting {
+  strategy: string; // Weighting strategy (e.g. 'sqrt-stake')
+  duration_cap?: number; // Seconds counted at most per lock (capped-duration)
+  max_user_reward_bps: number | null; // Largest share of winner rewards per address (null = no cap)
+}
+
+/**
+ * Merkle tree leaf: lookup key and precomputed leaf hash
+ */
+export interface MerkleLeaf {
+  key: string; // Proof lookup key (e.g. address, "address_sessionid")
+  hash: string; // Poseidon leaf hash (0x...)
+}
+
+/**
+ * Merkle tree with root and proofs for all leaves
  */
 export interface MerkleTree {
   root: string; // Merkle root hash (0x...)
-  proofs: Record<string, string[]>; // Address -> array of sibling hashes
+  proofs: Record<string, string[]>; // Leaf key -> array of sibling hashes
+  layers: string[][]; // Layer 0 = leaf hashes, last layer = [root]; empty for no leaves
+}
+
+/**
+ * SNIP-12 claim signature (shared by all pool types)
+ */
+export interface ClaimSignature {
+  message_hash: string;
+  signature_r: string;
+  signature_s: string;
+  public_key: string; // Verifier public key that signed the claim
+  key_id: string; // Verifier key id that signed the claim
+}
+
+/**
+ * Result of re-verifying a claim signature
+ */
+export interface SignatureVerification {
+  expected_message_hash: string; // Recomputed from the claim inputs
+  message_hash_matches: boolean; // Stored message_hash equals the recomputed one
+  signature_valid: boolean; // r/s valid for the recomputed hash and verifier key
+  valid: boolean; // Both checks passed
 }
 
 /**
@@ -42,6 +97,17 @@ export interface U256Parts {
   high: string; // Upper 128 bits
 }
 
+/**
+ * Decoded on-chain pool record from get_pool_info
+ */
+export interface OnChainPoolInfo {
+  merkle_root: string; // 0x0 if not set
+  is_finalized: boolean;
+  pool_reward: bigint; // u256
+  user_count: bigint;
+  total_staked: bigint; // u256
+}
+
 /**
  * Result of pool processing operation
  */
@@ -50,6 +116,18 @@ export interface ProcessingResult {
   pool_info?: ProcessedPoolInfo;
   transaction_hash?: string;
   message?: string;
+  dry_run_report?: DryRunReport; // Only set for dry runs
+  fee_estimate?: TransactionFeeEstimate; // Pre-flight estimate (only set when a tx was sent)
+}
+
+/**
+ * Pre-flight fee estimate for the set_merkle_root_for_pool transaction
+ */
+export interface TransactionFeeEstimate {
+  overall_fee: string; // Smallest unit of the fee token (whole transaction)
+  unit: 'WEI' | 'FRI'; // WEI = ETH, FRI = STRK
+  fee_cap?: string; // Configured MAX_TRANSACTION_FEE, if any
+  bundled_pools?: number; // Pools finalized by the transaction (only set for multicalls)
 }
 
 /**
@@ -66,7 +144,67 @@ export interface ProcessedPoolInfo {
   total_users: number;
   winners: number;
   processed_at: string;
-  blockchain_status: 'success' | 'failed';
+  blockchain_status: 'success' | 'failed' | 'dry_run' | 'reconciled';
+  slash_schedule_version: string; // Slash schedule the stake returns were calculated with
+  protocol_fee_bps: number; // Protocol fee rate applied to the slashed amount
+  fee_split: FeeSplitEntry[]; // Protocol fees by recipient
+  reward_allocation: RewardAllocationMode; // How winner rewards were rounded
+  reward_weighting?: RewardWeighting; // How winners were weighted (pool types that record it)
+  token: TokenConfig; // Stake token of the amounts (smallest units)
+  carried_in: string; // Pots carried over from earlier pools, included in new_rewards
+  rollover?: PoolRollover; // Set when nobody won the reward pot
+  fee_mode?: TransactionFeeMode; // How the set_merkle_root tx was paid (unset if none was sent)
+}
+
+/**
+ * How a transaction fee was paid
+ * - sponsored: paid by the AVNU paymaster
+ * - self-paid: paid by the deployer account
+ */
+export type TransactionFeeMode = 'sponsored' | 'self-paid';
+
+/**
+ * Complete preview of a pool run produced by --dry-run
+ *
+ * Contains everything a real run would send on-chain and store,
+ * without touching the chain or writing to the database
+ */
+export interface DryRunReport {
+  pool_type: string;
+  day: number;
+  period: 0 | 1;
+  merkle_root: string;
+  total_slashed_amount: string;
+  new_rewards: string;
+  protocol_fees: string;
+  total_users: number;
+  winners: number;
+  slash_schedule_version: string;
+  protocol_fee_bps: number;
+  fee_split: FeeSplitEntry[];
+  reward_allocation: RewardAllocationMode;
+  reward_weighting?: RewardWeighting;
+  token: TokenConfig;
+  carried_in: string;
+  rollover?: PoolRollover;
+  expiry: number; // Expiry used for the preview signatures
+  call: {
+    contract_address: string;
+    entrypoint: string;
+    calldata: string[]; // Exact calldata setMerkleRootsOnChain would send
+  };
+  claims: Array<{
+    uuid: string; // Database UUID
+    id: string; // On-chain ID
+    address: string;
+    reward_amount: string;
+    merkle_proof: string[];
+    message_hash: string;
+    signature_r: string;
+    signature_s: string;
+    key_id: string; // Verifier key that signed the claim
+  }>;
+  generated_at: string;
 }
 
 /**
@@ -74,7 +212,7 @@ export interface ProcessedPoolInfo {
  */
 export interface BasePoolUser {
   address: string; // Wallet address
-  stake_amount: string; // Staked amount in smallest unit (e.g., 6 decimals for USDC)
+  stake_amount: string; // Staked amount in the stake token's smallest unit
   uuid: string; // Database UUID
   id: string; // On-chain ID (u64 as string)
 }
@@ -84,6 +222,31 @@ export interface BasePoolUser {
  */
 export interface PoolContractConfig {
   contract_address: string;
-  verifier_private_key: string;
+  verifier: VerifierKey; // Active verifier key
+  retiring_verifier?: VerifierKey; // Previous verifier key, kept while the contract is rotated
+  domain: Snip12DomainConfig; // SNIP-12 domain the contract verifies claims with
+  slash_schedule: SlashSchedule; // Stake return rules of this deployment
+  protocol_fee: ProtocolFeeConfig; // Fee rate and recipient split of this deployment
+  reward_allocation: RewardAllocationMode; // How winner rewards are rounded
+  rollover_policy: RolloverPolicy; // Where the reward pot of a pool without winners goes
+  token: TokenConfig; // Stake token of this deployment
+  token_pools: TokenPool[]; // Contracts of further stake tokens (one sub-pool per token)
+}
+
+/**
+ * Configured verifier key of a contract
+ */
+export interface VerifierKey {
+  key_id: string; // Label recorded on every claim the key signs (e.g. 'v2')
+  signer: SignerConfig;
+}
+
+/**
+ * SNIP-12 domain of a contract (the chain ID comes from STARKNET_CHAIN_ID)
+ */
+export interface Snip12DomainConfig {
+  name: string; // Short string (max 31 chars)
+  version: string; // Short string (max 31 chars)
+  revision: 0 | 1; // 1 = Poseidon / StarknetDomain, 0 = Pedersen / StarkNetDomain
 }
 
@@ -0,0 +1,32 @@
+/**
+ * Protocol fee types
+ *
+ * The protocol keeps a share of every pool's slashed stakes, in basis
+ * points. The fee can be split across named recipients (treasury,
+ * charity, referral fund, ...); the split is recorded per pool.
+ */
+
+/**
+ * Named recipient of a share of the protocol fees
+ */
+export interface FeeRecipient {
+  name: string; // e.g. 'treasury'
+  share_bps: number; // Share of the protocol fees (all recipients sum to 10000)
+}
+
+/**
+ * Protocol fee rules of a contract deployment
+ */
+export interface ProtocolFeeConfig {
+  fee_bps: number; // Fee on the slashed amount (1000 = 10%)
+  recipients: FeeRecipient[];
+}
+
+/**
+ * Amount of a pool's protocol fees owed to one recipient
+ */
+export interface FeeSplitEntry {
+  recipient: string;
+  share_bps: number;
+  amount: string; // Smallest token unit
+}
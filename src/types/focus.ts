@@ -2,7 +2,17 @@
  * Focus lock-specific types for pool processing
  */
 
-import { BasePoolUser, PoolContractConfig } from './common.js';
+import {
+  BasePoolUser,
+  PoolContractConfig,
+  RewardAllocationMode,
+  RewardWeighting,
+  Snip12DomainConfig,
+  VerifierKey,
+} from './common.js';
+import { PartialReturnSchedule, SlashSchedule } from './slashing.js';
+import { ProtocolFeeConfig } from './fees.js';
+import { RolloverPolicy } from './rollover.js';
 
 /**
  * Focus lock user data from database
@@ -12,6 +22,7 @@ export interface FocusLockUser extends BasePoolUser {
   start_time: bigint; // Lock start timestamp
   duration: bigint; // Lock duration in seconds
   completion_status: boolean; // Whether the lock was completed successfully
+  locked_duration: bigint; // Seconds the lock was held (duration when completed)
   focus_lock_id: string; // UUID from focus_locks.id for database relations
 }
 
@@ -23,7 +34,8 @@ export interface DatabaseFocusLockRecord {
   user_id: string;
   habit_name: string;
   duration_minutes: number;
-  stake_amount: string; // NUMERIC in DB (STRK)
+  stake_amount: string; // Whole stake tokens, NUMERIC in DB (e.g., "1.00")
+  token: string | null; // Stake token symbol (null = the default FOCUS_TOKEN)
   start_time: number; // bigint in DB
   end_time: number;
   completion_status: boolean | null;
@@ -57,18 +69,45 @@ export interface FocusLockClaimData {
   signature_r: string;
   signature_s: string;
   message_hash: string;
+  public_key: string | null; // Verifier public key (null on rows from before key ids)
+  key_id: string | null; // Verifier key id (null on rows from before key ids)
+  locked_duration: string | null; // Signed locked duration (v2 ClaimRequest only)
   reward_amount: string;
   merkle_proof: string; // JSON stringified array
   expiry_time: number;
   processed_at: string;
 }
 
+/**
+ * Focus lock weighting strategy
+ * - linear: stake × duration
+ * - sqrt-stake: √stake × duration
+ * - capped-duration: stake × min(duration, cap)
+ * - log-stake: log2(1 + stake) × duration
+ */
+export type FocusWeightingStrategy = 'linear' | 'sqrt-stake' | 'capped-duration' | 'log-stake';
+
+/**
+ * Focus lock weighting and per-user reward cap
+ */
+export interface FocusWeighting extends RewardWeighting {
+  strategy: FocusWeightingStrategy;
+}
+
 /**
  * Focus lock pool configuration
  */
 export interface FocusLockPoolConfig extends PoolContractConfig {
   contract_address: string;
-  verifier_private_key: string;
+  verifier: VerifierKey;
+  retiring_verifier?: VerifierKey;
+  domain: Snip12DomainConfig;
+  slash_schedule: SlashSchedule;
+  partial_return: PartialReturnSchedule | null; // Set with the v2 ClaimRequest only
+  protocol_fee: ProtocolFeeConfig;
+  reward_allocation: RewardAllocationMode;
+  rollover_policy: RolloverPolicy;
+  weighting: FocusWeighting;
 }
 
 /**
@@ -78,7 +117,7 @@ export interface FocusLockReward {
   address: string;
   session_id: bigint;
   reward_amount: string;
-  weight: string; // stake_amount * duration
+  weight: string; // Lock weight under the weighting strategy
   stake_amount: string;
   duration: string;
 }
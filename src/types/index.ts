@@ -8,6 +8,33 @@ export * from './common.js';
 // Alarm-specific types
 export * from './alarm.js';
 
-// Focus lock-specific types (future)
+// Focus lock-specific types
 export * from './focus.js';
 
+// Pool type plugin contract
+export * from './pool.js';
+
+
+// Storage repository contract
+export * from './repository.js';
+
+// Chain adapter contract
+export * from './chain.js';
+
+// Signer contract
+export * from './signer.js';
+
+// Slash schedules
+export * from './slashing.js';
+
+// Protocol fees
+export * from './fees.js';
+
+// Reward rollover
+export * from './rollover.js';
+
+// Processing journal
+export * from './journal.js';
+
+// Stake tokens
+export * from './token.js';
@@ -0,0 +1,36 @@
+/**
+ * Processing journal types
+ *
+ * Every pool run is journaled in the storage backend so a run that dies
+ * between on-chain finalization and database storage can be resumed.
+ */
+
+import { TransactionFeeMode } from './common.js';
+
+/**
+ * Journal stage of a pool run
+ * - computed: merkle root and expiry fixed, nothing sent yet
+ * - submitted: transaction broadcast, hash known
+ * - finalized: merkle root confirmed on-chain
+ * - stored: claims stored to database (run complete)
+ */
+export type JournalStage = 'computed' | 'submitted' | 'finalized' | 'stored';
+
+/**
+ * Persisted state of a single pool run (processing_journal row)
+ */
+export interface JournalEntry {
+  pool_type: string;
+  day: number;
+  period: 0 | 1;
+  stage: JournalStage;
+  inputs_hash: string; // sha256 of the fetched pool users
+  merkle_root: string;
+  new_rewards: string;
+  protocol_fees: string;
+  expiry: number; // Signature expiry used for all claims of this run
+  tx_hash?: string; // Set once the transaction is broadcast
+  fee_mode?: TransactionFeeMode; // Set with tx_hash
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,203 @@
+/**
+ * Pool type plugin contract
+ *
+ * Every pool type (alarms, focus locks, ...) registers one PoolType
+ * implementation. The generic pipeline in core/pipeline.ts drives any
+ * registered type through the same fetch → validate → calculate →
+ * merkle → on-chain → store flow.
+ */
+
+import {
+  BasePoolUser,
+  ClaimSignature,
+  DryRunReport,
+  MerkleTree,
+  PoolContractConfig,
+  PoolInfo,
+  RewardAllocationMode,
+  RewardWeighting,
+  SignatureVerification,
+  VerifierKey,
+} from './common.js';
+import { FeeSplitEntry } from './fees.js';
+import { PoolRollover } from './rollover.js';
+import { TokenConfig } from './token.js';
+
+/**
+ * Result of the reward calculation step for a pool
+ */
+export interface PoolOutcome<TReward> {
+  totalSlashed: bigint; // Total slashed from losers
+  protocolFees: bigint; // Protocol share of the slashed amount
+  newRewards: bigint; // Amount added to the on-chain reward pool (0 if the pot rolled over)
+  rewards: TReward[]; // One entry per winner
+  slashScheduleVersion: string; // Slash schedule the stake returns were calculated with
+  protocolFeeBps: number; // Fee rate protocolFees was calculated with
+  feeSplit: FeeSplitEntry[]; // protocolFees by recipient
+  rewardAllocation: RewardAllocationMode; // How rewards were rounded
+  rewardWeighting?: RewardWeighting; // How winners were weighted (pool types that record it)
+  token: TokenConfig; // Stake token the amounts are in (smallest units)
+  carriedIn: bigint; // Pots carried over from earlier pools, included in the reward pot
+  rollover: PoolRollover | null; // Set when nobody won the reward pot
+}
+
+/**
+ * Signed claim for a single pool user, ready to be persisted
+ */
+export interface PoolClaim<TUser extends BasePoolUser> {
+  user: TUser;
+  reward_amount: string; // Reward amount for this user
+  merkle_proof: string[]; // Sibling hashes for the user's leaf
+  signature: ClaimSignature;
+  reward_weight?: string; // Weight behind reward_amount (pool types that record it)
+}
+
+/**
+ * Claim stored in the database, with the merkle leaf it proves and its
+ * re-verified signature
+ */
+export interface StoredClaim {
+  id: string; // Record UUID (alarm / focus lock)
+  day: number;
+  period: 0 | 1;
+  address: string; // Claimant wallet address
+  reward_amount: string; // Stored reward amount
+  merkle_proof: string[]; // Stored sibling hashes
+  leaf: string; // Leaf hash rebuilt from the stored claim
+  expiry: number; // Stored signature expiry (Unix timestamp)
+  message_hash: string; // Stored SNIP-12 message hash
+  key_id: string | null; // Stored verifier key id (null on rows from before key ids)
+  public_key: string | null; // Verifier key the signature was checked against (null if not configured)
+  signature: SignatureVerification; // Stored r/s checked against the verifier key
+  processed_at: string;
+}
+
+/**
+ * Signature audit of all stored claims of a pool
+ */
+export interface ClaimAuditResult {
+  pool_type: string;
+  day: number;
+  period: 0 | 1;
+  public_keys: Record<string, string>; // Configured verifier key id -> public key
+  total: number; // Pool records with a stored claim
+  valid: number;
+  invalid: number;
+  missing: number; // Pool records without a stored claim
+  claims: StoredClaim[];
+}
+
+/**
+ * Result of re-verifying a stored claim against the on-chain root
+ */
+export interface ProofVerification {
+  claim: StoredClaim;
+  computed_root: string; // Root reached by hashing the leaf up the stored proof
+  onchain_root: string; // get_pool_info merkle root (0x0 if not set)
+  is_finalized: boolean;
+  valid: boolean; // Computed root matches the on-chain root
+}
+
+/**
+ * Plugin contract implemented by every pool type
+ */
+export interface PoolType<
+  TUser extends BasePoolUser = BasePoolUser,
+  TReward = unknown,
+> {
+  /** Registry key, also used as CLI command name (e.g. 'alarm') */
+  name: string;
+
+  /** Human readable name for logs and CLI output (e.g. 'Focus Lock') */
+  displayName: string;
+
+  /**
+   * Contract configuration for this pool type
+   * @throws {Error} If the pool type is not configured
+   */
+  getContractConfig(): PoolContractConfig;
+
+  /** Fetch all users participating in a pool */
+  fetchUsers(day: number, period: 0 | 1): Promise<TUser[]>;
+
+  /** Find all pools that still need processing */
+  findUnprocessedPools(): Promise<PoolInfo[]>;
+
+  /** Find the latest pool that has users */
+  findLatestPool(): Promise<PoolInfo | null>;
+
+  /**
+   * Symbols of the stake tokens staked in a pool, across all tokens of the
+   * pool type (records without a token count as the default token)
+   */
+  findPoolTokens(day: number, period: 0 | 1): Promise<string[]>;
+
+  /**
+   * Sub-pool type of one stake token of this pool type (see core/token-pools.ts)
+   * @param symbol Token symbol (case-insensitive); the default token returns the main pool type
+   * @throws {Error} If no pool contract is configured for the token
+   */
+  forToken(symbol: string): PoolType<TUser, TReward>;
+
+  /**
+   * Calculate slashing (with the contract's slash schedule), protocol fees and their
+   * split, and winner rewards (see core/outcome.ts)
+   * @param carriedIn Reward pots carried over from earlier pools of this type
+   */
+  computeOutcomes(
+    users: TUser[],
+    config: PoolContractConfig,
+    carriedIn: bigint
+  ): PoolOutcome<TReward>;
+
+  /** Encode merkle leaves for all users and build the tree */
+  buildMerkleTree(users: TUser[], rewards: TReward[]): MerkleTree;
+
+  /** Sign a SNIP-12 claim for every user with a verifier key and attach reward and proof */
+  signClaims(
+    users: TUser[],
+    rewards: TReward[],
+    merkleTree: MerkleTree,
+    config: PoolContractConfig,
+    verifier: VerifierKey,
+    chainId: string,
+    expiry: number
+  ): Promise<PoolClaim<TUser>[]>;
+
+  /** Persist signed claims (only called after on-chain finalization) */
+  persistResults(claims: PoolClaim<TUser>[], expiry: number): Promise<void>;
+
+  /** Whether any of the users' records already has stored claim data */
+  hasStoredClaims(users: TUser[]): Promise<boolean>;
+
+  /**
+   * Load a stored claim, rebuild its merkle leaf and re-verify its signature
+   * @param id Record UUID (alarm / focus lock)
+   * @returns Stored claim or null if the record has no claim
+   */
+  fetchStoredClaim(id: string): Promise<StoredClaim | null>;
+}
+
+/**
+ * Type-erased pool type as stored in the registry
+ */
+export type AnyPoolType = PoolType<BasePoolUser, unknown>;
+
+/**
+ * Result of processing all unprocessed pools of one type
+ */
+export interface BatchProcessingResult {
+  total: number;
+  success: number;
+  failed: number;
+  skipped: number;
+  results: Array<{
+    day: number;
+    period: 0 | 1;
+    success: boolean;
+    skipped: boolean;
+    message?: string;
+    txHash?: string;
+    report?: DryRunReport; // Only set for dry runs
+  }>;
+}
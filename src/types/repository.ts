@@ -0,0 +1,157 @@
+/**
+ * Storage repository contract
+ *
+ * All pool data access goes through a PoolRepository so the processor
+ * can run against Supabase, an in-memory store or a local JSON file.
+ */
+
+import { BasePoolUser, PoolInfo } from './common.js';
+import { AlarmUser, DatabaseAlarmRecord, ClaimDataInsert } from './alarm.js';
+import { FocusLockUser, DatabaseFocusLockRecord, FocusLockClaimData } from './focus.js';
+import { PoolClaim } from './pool.js';
+import { TokenConfig } from './token.js';
+import { RolloverEntry } from './rollover.js';
+import { JournalEntry } from './journal.js';
+
+/**
+ * Wallet record from wallets table (Privy wallets)
+ */
+export interface DatabaseWalletRecord {
+  user_id: string;
+  deployed_address: string | null; // On-chain address
+  is_deployed: boolean;
+}
+
+/**
+ * Stored claim row with the user and pool it belongs to
+ */
+export interface StoredClaimRecord<TUser extends BasePoolUser, TClaim> {
+  user: TUser;
+  pool: PoolInfo;
+  claim: TClaim; // Latest claim row (by processed_at)
+}
+
+/**
+ * Table contents of the in-memory and file backends
+ *
+ * Mirrors the Supabase tables the processor reads and writes.
+ */
+export interface PoolDataSnapshot {
+  alarms: DatabaseAlarmRecord[];
+  focus_locks: DatabaseFocusLockRecord[];
+  wallets: DatabaseWalletRecord[];
+  user_claim_data: ClaimDataInsert[];
+  user_claim_data_locks: FocusLockClaimData[];
+  rollover_ledger: RolloverEntry[];
+  processing_journal: JournalEntry[];
+}
+
+/**
+ * Storage backend for pool data
+ *
+ * Pool queries take the stake token of the sub-pool they serve; records
+ * without a token column value are in the pool type's default token.
+ */
+export interface PoolRepository {
+  /** Backend name for logs (e.g. 'supabase') */
+  readonly name: string;
+
+  // Alarms
+  fetchAlarmsFromPool(day: number, period: 0 | 1, token: TokenConfig): Promise<AlarmUser[]>;
+  findUnprocessedAlarmPools(token: TokenConfig): Promise<PoolInfo[]>;
+  findLatestAlarmPool(token: TokenConfig): Promise<PoolInfo | null>;
+
+  /** Symbols of the stake tokens of a pool's staked alarms */
+  findAlarmPoolTokens(day: number, period: 0 | 1): Promise<string[]>;
+
+  storeAlarmResults(claims: PoolClaim<AlarmUser>[], expiry: number): Promise<void>;
+
+  /**
+   * Find the stored claim of an alarm
+   * @returns Claim with its user and pool, or null if the alarm has no claim
+   * @throws {Error} If the alarm or its owner's wallet cannot be found, or
+   *   the alarm is staked in another token
+   */
+  findAlarmClaim(
+    alarmId: string,
+    token: TokenConfig
+  ): Promise<StoredClaimRecord<AlarmUser, ClaimDataInsert> | null>;
+
+  /**
+   * Latest stored claim row of each alarm
+   * @param alarmIds Alarm UUIDs
+   * @returns Map of alarm UUID -> latest claim row (alarms without claim data are omitted)
+   */
+  fetchAlarmClaims(alarmIds: string[]): Promise<Map<string, ClaimDataInsert>>;
+
+  /**
+   * Count each alarm owner's streak of settled alarms without snoozes
+   * in a time window (newest first, alarms with stored claim data only)
+   * @param alarmIds Alarm UUIDs
+   * @param since Only alarms waking up at or after this Unix timestamp
+   * @param before Only alarms waking up before this Unix timestamp
+   * @param limit Settled alarms looked at per user
+   * @returns Map of alarm UUID -> streak of its owner
+   */
+  fetchAlarmStreaks(
+    alarmIds: string[],
+    since: number,
+    before: number,
+    limit: number
+  ): Promise<Map<string, number>>;
+
+  // Focus locks
+  fetchFocusLocksFromPool(
+    day: number,
+    period: 0 | 1,
+    token: TokenConfig
+  ): Promise<FocusLockUser[]>;
+  findUnprocessedFocusLockPools(token: TokenConfig): Promise<PoolInfo[]>;
+  findLatestFocusLockPool(token: TokenConfig): Promise<PoolInfo | null>;
+
+  /** Symbols of the stake tokens of a pool's staked focus locks */
+  findFocusLockPoolTokens(day: number, period: 0 | 1): Promise<string[]>;
+
+  storeFocusLockResults(claims: PoolClaim<FocusLockUser>[], expiry: number): Promise<void>;
+
+  /**
+   * Find the stored claim of a focus lock
+   * @returns Claim with its user and pool, or null if the lock has no claim
+   * @throws {Error} If the lock or its owner's wallet cannot be found, or
+   *   the lock is staked in another token
+   */
+  findFocusLockClaim(
+    focusLockId: string,
+    token: TokenConfig
+  ): Promise<StoredClaimRecord<FocusLockUser, FocusLockClaimData> | null>;
+
+  /**
+   * Latest stored claim row of each focus lock
+   * @param focusLockIds Focus lock UUIDs
+   * @returns Map of focus lock UUID -> latest claim row (locks without claim data are omitted)
+   */
+  fetchFocusLockClaims(focusLockIds: string[]): Promise<Map<string, FocusLockClaimData>>;
+
+  // Rollover ledger
+  /** All ledger rows of a pool type, oldest pool first */
+  fetchRolloverEntries(poolType: string): Promise<RolloverEntry[]>;
+
+  /** Insert or update the ledger row of a pool (keyed by pool type, day and period) */
+  saveRolloverEntry(entry: RolloverEntry): Promise<void>;
+
+  // Processing journal
+  /** Journal entry of a pool run, or null if the pool has none */
+  findJournalEntry(poolType: string, day: number, period: 0 | 1): Promise<JournalEntry | null>;
+
+  /** Insert or replace the journal entry of a pool run (keyed by pool type, day and period) */
+  saveJournalEntry(entry: JournalEntry): Promise<void>;
+
+  /** Journal entries not yet at the 'stored' stage, oldest pool first */
+  fetchIncompleteJournalEntries(poolType?: string): Promise<JournalEntry[]>;
+
+  /**
+   * Resolve deployed wallet addresses for users
+   * @returns Map of user_id -> deployed_address (users without a deployed wallet are omitted)
+   */
+  resolveWallets(userIds: string[]): Promise<Map<string, string>>;
+}
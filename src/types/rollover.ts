@@ -0,0 +1,48 @@
+/**
+ * Reward rollover types
+ *
+ * When nobody wins a pool, its reward pot has no claimants. The pool
+ * type's rollover policy decides where the pot goes, and every such pot
+ * is recorded in the rollover ledger.
+ */
+
+/**
+ * Where the reward pot of a pool without winners goes
+ * - carry: added to the reward pot of the next processed pool of the same type
+ * - refund: returned to the pool's slashed users, pro rata to what they lost
+ * - treasury: added to the pool's protocol fees
+ */
+export type RolloverPolicy = 'carry' | 'refund' | 'treasury';
+
+/**
+ * Ledger state of a rollover
+ * - pending: carried pot waiting for the next pool
+ * - reserved: carried pot taken by a pool whose run has not been stored yet
+ * - applied: carried pot added to a stored pool
+ * - settled: refunded or sent to the treasury with its own pool
+ */
+export type RolloverStatus = 'pending' | 'reserved' | 'applied' | 'settled';
+
+/**
+ * Rollover ledger row, one per pool without winners
+ */
+export interface RolloverEntry {
+  pool_type: string;
+  day: number; // Pool the pot rolled over from
+  period: 0 | 1;
+  policy: RolloverPolicy;
+  amount: string; // Unclaimed reward pot (smallest token unit)
+  status: RolloverStatus;
+  applied_day: number | null; // Pool the carried pot was reserved for / added to
+  applied_period: 0 | 1 | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Pot of a pool without winners and the policy applied to it
+ */
+export interface PoolRollover {
+  policy: RolloverPolicy;
+  amount: string;
+}
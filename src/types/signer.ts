@@ -0,0 +1,48 @@
+/**
+ * Signer contract
+ *
+ * Verifier and deployer keys are only used through a Signer, so a key
+ * can live in the environment, in an encrypted keystore file or in a
+ * remote signing service that never hands it out.
+ */
+
+/**
+ * Signer backend
+ * - env:      private key from an environment variable (default)
+ * - keystore: scrypt + AES-256-GCM encrypted key file, unlocked by passphrase
+ * - remote:   remote signing service (the key never enters this process)
+ */
+export type SignerBackend = 'env' | 'keystore' | 'remote';
+
+/**
+ * Resolved signer configuration for one key
+ */
+export type SignerConfig =
+  | { backend: 'env'; private_key: string }
+  | { backend: 'keystore'; path: string; passphrase: string }
+  | { backend: 'remote'; url: string; key_id: string; token?: string };
+
+/**
+ * STARK curve signature
+ */
+export interface StarkSignature {
+  r: string; // 0x-prefixed hex
+  s: string; // 0x-prefixed hex
+}
+
+/**
+ * Signs message hashes with one Stark key
+ */
+export interface Signer {
+  /** Backend name for logs (e.g. 'env') */
+  readonly name: string;
+
+  /** Stark public key (x coordinate, 0x-prefixed hex) */
+  getPublicKey(): Promise<string>;
+
+  /**
+   * Sign a message hash (felt, 0x-prefixed hex)
+   * @throws {Error} If the key cannot be unlocked or reached
+   */
+  signHash(messageHash: string): Promise<StarkSignature>;
+}
@@ -0,0 +1,51 @@
+/**
+ * Slash schedule types
+ *
+ * A slash schedule decides how much of a stake is returned for a given
+ * slash count (snoozes for alarms, 1 for a failed focus lock). Schedules
+ * are versioned so every processed pool records which rules it used.
+ */
+
+/**
+ * Fields shared by all schedule kinds
+ */
+interface SlashScheduleBase {
+  version: string; // Unique schedule version (e.g. 'alarm-v1'), recorded per pool
+  description: string;
+}
+
+/**
+ * Schedule given as a table of return percentages
+ */
+export interface SlashScheduleTable extends SlashScheduleBase {
+  kind: 'table';
+  return_percent: number[]; // Index = slash count; counts past the end use the last entry
+}
+
+/**
+ * Schedule given as a function
+ */
+export interface SlashScheduleFunction extends SlashScheduleBase {
+  kind: 'function';
+  stake_return: (stakeAmount: bigint, slashCount: number) => bigint; // Must be 0..stakeAmount
+}
+
+/**
+ * Stake return rules applied to a pool
+ */
+export type SlashSchedule = SlashScheduleTable | SlashScheduleFunction;
+
+/**
+ * Step of a partial-completion return curve
+ */
+export interface PartialReturnStep {
+  min_held_percent: number; // Share of the lock duration held (0-100)
+  return_percent: number; // Stake returned from that share on
+}
+
+/**
+ * Stake return of a failed focus lock by the share of its duration held
+ */
+export type PartialReturnSchedule =
+  | { kind: 'linear'; description: string }
+  | { kind: 'steps'; steps: PartialReturnStep[]; description: string };
@@ -0,0 +1,24 @@
+/**
+ * Stake token types
+ *
+ * Every pool type stakes a default token, and optionally further tokens
+ * with a pool contract each. Amounts are handled in the token's smallest
+ * unit (10^decimals per token) and only formatted for display.
+ */
+
+/**
+ * Stake token of a pool type
+ */
+export interface TokenConfig {
+  symbol: string; // e.g. 'USDC'
+  decimals: number; // Smallest units per token = 10^decimals
+  address: string | null; // Token contract address (null = not configured)
+}
+
+/**
+ * Further stake token of a pool type and the contract holding its pools
+ */
+export interface TokenPool {
+  token: TokenConfig;
+  contract_address: string; // Pool contract of this token
+}
@@ -0,0 +1,21 @@
+/**
+ * Test environment: in-memory storage, fake chain and test keys
+ *
+ * Imported first by every test so the configuration loads from these
+ * values (variables already set in the environment are kept).
+ */
+
+const defaults: Record<string, string> = {
+  LOG_LEVEL: 'fatal',
+  STORAGE_BACKEND: 'memory',
+  CHAIN_BACKEND: 'fake',
+  ALARM_CONTRACT_ADDRESS: '0x123',
+  ALARM_VERIFIER_PRIVATE_KEY: '0x1234',
+  FOCUS_CONTRACT_ADDRESS: '0x456',
+  FOCUS_VERIFIER_PRIVATE_KEY: '0x5678',
+  RPC_RETRY_BASE_DELAY_MS: '1',
+};
+
+for (const [name, value] of Object.entries(defaults)) {
+  process.env[name] ??= value;
+}
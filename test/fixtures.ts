@@ -0,0 +1,139 @@
+/**
+ * Shared test fixtures: pool users for the calculators, alarm pools on
+ * memory storage, proof checks
+ */
+
+import assert from 'node:assert/strict';
+
+import { InMemoryPoolRepository } from '../src/core/memory-repository.js';
+import { verifyStoredClaim } from '../src/core/proof.js';
+import { getPoolType } from '../src/pools.js';
+import { AlarmUser, DatabaseAlarmRecord } from '../src/types/alarm.js';
+import { FocusLockUser } from '../src/types/focus.js';
+import { PoolDataSnapshot } from '../src/types/repository.js';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+let nextDay = Math.floor(Date.now() / 1000 / DAY_SECONDS) - 30;
+
+/**
+ * A day not used by any earlier test of the file (every test finalizes
+ * its own pool on the shared fake chain)
+ */
+export function nextPoolDay(): number {
+  return nextDay++;
+}
+
+/**
+ * Alarm with the given stake (a winner unless it snoozed)
+ */
+export function alarmUser(id: number, stake: bigint, snoozeCount = 0): AlarmUser {
+  return {
+    address: `0x${(0xa00 + id).toString(16)}`,
+    stake_amount: stake.toString(),
+    uuid: `alarm-${id}`,
+    id: id.toString(),
+    wake_up_time: '0',
+    snooze_count: snoozeCount,
+    alarm_uuid: `alarm-${id}`,
+    alarm_id: id.toString(),
+  };
+}
+
+/**
+ * Focus lock with the given stake and duration (failed when held for less)
+ */
+export function focusLockUser(
+  id: number,
+  stake: bigint,
+  duration: bigint,
+  lockedDuration = duration
+): FocusLockUser {
+  return {
+    address: `0x${(0xf00 + id).toString(16)}`,
+    stake_amount: stake.toString(),
+    uuid: `lock-${id}`,
+    id: id.toString(),
+    session_id: BigInt(id),
+    start_time: 0n,
+    duration,
+    completion_status: lockedDuration >= duration,
+    locked_duration: lockedDuration,
+    focus_lock_id: `lock-${id}`,
+  };
+}
+
+/**
+ * Staked on-chain alarm in period 0 of a day
+ */
+function alarm(
+  day: number,
+  id: string,
+  userId: string,
+  snoozeCount: number,
+  stake = 10
+): DatabaseAlarmRecord {
+  return {
+    id,
+    user_id: userId,
+    wakeup_time: day * DAY_SECONDS + 60,
+    stake_amount: stake,
+    snooze_count: snoozeCount,
+    alarm_id: BigInt(id.replace(/\D/g, '')),
+    deleted: false,
+    claim_ready: false,
+    has_claimed: false,
+    token: null,
+  };
+}
+
+/**
+ * Pool of one day: user 1 wins twice, user 2 wins once, user 3 snoozes
+ */
+export function poolData(day: number): Partial<PoolDataSnapshot> {
+  return withWallets([
+    alarm(day, 'alarm-1', 'user-1', 0),
+    alarm(day, 'alarm-2', 'user-1', 0),
+    alarm(day, 'alarm-3', 'user-2', 0),
+    alarm(day, 'alarm-4', 'user-3', 2),
+  ]);
+}
+
+/**
+ * Pool of one day where user 1 wins with stakes 10 and 30 and snoozes a
+ * third alarm, next to a winner and a loser of other users
+ */
+export function mixedPoolData(day: number): Partial<PoolDataSnapshot> {
+  return withWallets([
+    alarm(day, 'alarm-1', 'user-1', 0, 10),
+    alarm(day, 'alarm-2', 'user-1', 0, 30),
+    alarm(day, 'alarm-3', 'user-1', 1, 20),
+    alarm(day, 'alarm-4', 'user-2', 0, 20),
+    alarm(day, 'alarm-5', 'user-3', 3, 40),
+  ]);
+}
+
+/**
+ * Tables with the alarms and a deployed wallet for each of users 1-3
+ */
+function withWallets(alarms: DatabaseAlarmRecord[]): Partial<PoolDataSnapshot> {
+  return {
+    alarms,
+    wallets: ['user-1', 'user-2', 'user-3'].map((userId, index) => ({
+      user_id: userId,
+      deployed_address: `0x${(index + 1).toString(16)}`,
+      is_deployed: true,
+    })),
+  };
+}
+
+/**
+ * Check the stored claim proof of every alarm against the on-chain root
+ */
+export async function assertProofsVerify(repository: InMemoryPoolRepository): Promise<void> {
+  for (const { id } of repository.snapshot().alarms) {
+    const verification = await verifyStoredClaim(getPoolType('alarm'), id);
+    assert.ok(verification, `claim of ${id} stored`);
+    assert.ok(verification.valid, `proof of ${id} verifies`);
+  }
+}
@@ -0,0 +1,141 @@
+import './env.js';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  calculateFocusRewards,
+  calculateRefunds,
+  calculateRewards,
+} from '../src/core/calculator.js';
+import { getAlarmConfig } from '../src/core/config.js';
+import { computePoolOutcome } from '../src/core/outcome.js';
+import { getSlashSchedule } from '../src/core/slash-schedule.js';
+import { alarmUser, focusLockUser } from './fixtures.js';
+
+/**
+ * Sum of the reward amounts
+ */
+function sumRewards(rewards: { reward_amount: string }[]): bigint {
+  return rewards.reduce((sum, reward) => sum + BigInt(reward.reward_amount), 0n);
+}
+
+describe('computePoolOutcome', () => {
+  const config = {
+    ...getAlarmConfig(),
+    protocol_fee: { fee_bps: 1000, recipients: [] },
+    reward_allocation: 'largest-remainder' as const,
+  };
+  const winners = [alarmUser(1, 3_000_000n), alarmUser(2, 5_000_000n), alarmUser(3, 7_000_000n)];
+
+  it('charges the protocol fee once and distributes the whole pot', () => {
+    const outcome = computePoolOutcome(config, 7_777_777n, 0n, {
+      distribute: (pot) => calculateRewards(winners, pot, config.reward_allocation),
+      refund: () => [],
+    });
+
+    assert.equal(outcome.protocolFees, 777_777n);
+    assert.equal(outcome.newRewards, 7_000_000n);
+    assert.equal(sumRewards(outcome.rewards), outcome.newRewards);
+  });
+
+  it('distributes focus lock rewards without a second fee', () => {
+    const locks = [focusLockUser(1, 2_000_000n, 1800n), focusLockUser(2, 3_000_000n, 3600n)];
+    const weighting = { strategy: 'linear' as const, max_user_reward_bps: null };
+    const outcome = computePoolOutcome(config, 7_777_777n, 0n, {
+      distribute: (pot) => calculateFocusRewards(locks, pot, config.reward_allocation, weighting),
+      refund: () => [],
+    });
+
+    assert.equal(outcome.newRewards, 7_000_000n);
+    assert.equal(sumRewards(outcome.rewards), outcome.newRewards);
+  });
+
+  it('passes a carried pot on without charging it again', () => {
+    const outcome = computePoolOutcome(config, 1_000_000n, 2_500_000n, {
+      distribute: (pot) => calculateRewards(winners, pot, config.reward_allocation),
+      refund: () => [],
+    });
+
+    assert.equal(outcome.protocolFees, 100_000n);
+    assert.equal(outcome.newRewards, 3_400_000n);
+    assert.equal(sumRewards(outcome.rewards), outcome.newRewards);
+  });
+
+  it('splits the protocol fees with the rounding remainder to the first recipient', () => {
+    const recipients = [
+      { name: 'treasury', share_bps: 3333 },
+      { name: 'team', share_bps: 6667 },
+    ];
+    const feeConfig = { ...config, protocol_fee: { fee_bps: 1000, recipients } };
+    const outcome = computePoolOutcome(feeConfig, 10_010n, 0n, {
+      distribute: (pot) => calculateRewards(winners, pot, config.reward_allocation),
+      refund: () => [],
+    });
+
+    assert.equal(outcome.protocolFees, 1001n);
+    assert.deepEqual(outcome.feeSplit.map((entry) => entry.amount), ['334', '667']);
+  });
+});
+
+describe('computePoolOutcome without winners', () => {
+  const config = {
+    ...getAlarmConfig(),
+    protocol_fee: { fee_bps: 1000, recipients: [] },
+    reward_allocation: 'largest-remainder' as const,
+  };
+  // Lost 800000 (1 snooze) and 6000000 (3 snoozes)
+  const losers = [alarmUser(4, 4_000_000n, 1), alarmUser(5, 6_000_000n, 3)];
+  const schedule = getSlashSchedule('alarm-v1');
+
+  /**
+   * Outcome of the losers' pool under a rollover policy
+   */
+  function outcomeWith(
+    policy: 'carry' | 'refund' | 'treasury',
+    refund = (pot: bigint) => calculateRefunds(losers, pot, schedule, config.reward_allocation)
+  ) {
+    return computePoolOutcome({ ...config, rollover_policy: policy }, 6_800_000n, 0n, {
+      distribute: (pot) => calculateRewards(losers, pot, config.reward_allocation),
+      refund,
+    });
+  }
+
+  it('carries the pot over to the next pool', () => {
+    const outcome = outcomeWith('carry');
+
+    assert.equal(outcome.protocolFees, 680_000n);
+    assert.equal(outcome.newRewards, 0n);
+    assert.deepEqual(outcome.rewards, []);
+    assert.deepEqual(outcome.rollover, { policy: 'carry', amount: '6120000' });
+  });
+
+  it('refunds the pot to the slashed users by the stake they lost', () => {
+    const outcome = outcomeWith('refund');
+
+    assert.equal(outcome.newRewards, 6_120_000n);
+    assert.deepEqual(
+      outcome.rewards.map((reward) => [reward.uuid, reward.reward_amount]),
+      [
+        ['alarm-4', '720000'],
+        ['alarm-5', '5400000'],
+      ]
+    );
+    assert.deepEqual(outcome.rollover, { policy: 'refund', amount: '6120000' });
+  });
+
+  it('carries the pot when nobody lost stake to refund', () => {
+    const outcome = outcomeWith('refund', () => []);
+
+    assert.equal(outcome.newRewards, 0n);
+    assert.deepEqual(outcome.rollover, { policy: 'carry', amount: '6120000' });
+  });
+
+  it('adds the pot to the protocol fees under the treasury policy', () => {
+    const outcome = outcomeWith('treasury');
+
+    assert.equal(outcome.protocolFees, 6_800_000n);
+    assert.equal(outcome.newRewards, 0n);
+    assert.deepEqual(outcome.rollover, { policy: 'treasury', amount: '6120000' });
+  });
+});
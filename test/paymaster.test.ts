@@ -0,0 +1,71 @@
+import './env.js';
+
+import assert from 'node:assert/strict';
+import { before, beforeEach, describe, it } from 'node:test';
+
+import { getChainClient } from '../src/core/chain.js';
+import { FakeChainClient } from '../src/core/fake-chain-client.js';
+import { InMemoryPoolRepository } from '../src/core/memory-repository.js';
+import { processPool, resumeIncompletePools } from '../src/core/pipeline.js';
+import { setPoolRepository } from '../src/core/repository.js';
+import { getPoolType } from '../src/pools.js';
+import { assertProofsVerify, nextPoolDay, poolData } from './fixtures.js';
+
+describe('sponsored finalization (memory storage, fake chain with paymaster)', () => {
+  let day: number;
+  let repository: InMemoryPoolRepository;
+  let chain: FakeChainClient;
+
+  before(() => {
+    // Read when the configuration first loads (on the first pool)
+    process.env.AVNU_PAYMASTER_API_KEY = 'test';
+  });
+
+  beforeEach(() => {
+    day = nextPoolDay();
+    repository = new InMemoryPoolRepository(poolData(day));
+    setPoolRepository(repository);
+    chain = getChainClient() as FakeChainClient;
+  });
+
+  it('finalizes through the paymaster', async () => {
+    const nonce = await chain.getNonce();
+
+    const result = await processPool(getPoolType('alarm'), day, 0, { force: true });
+
+    assert.ok(result.success);
+    assert.equal(result.pool_info!.fee_mode, 'sponsored');
+    assert.equal(await chain.getNonce(), nonce);
+    await assertProofsVerify(repository);
+  });
+
+  it('falls back to a self-paid transaction when the paymaster rejects the calls', async () => {
+    chain.failNext('executeSponsored', 'TOKEN_NOT_SUPPORTED');
+
+    const result = await processPool(getPoolType('alarm'), day, 0, { force: true });
+
+    assert.ok(result.success);
+    assert.equal(result.pool_info!.fee_mode, 'self-paid');
+    await assertProofsVerify(repository);
+  });
+
+  it('does not pay again while a sponsored transaction may be pending', async () => {
+    const nonce = await chain.getNonce();
+    chain.failNext('executeSponsored', 'Request timed out');
+
+    await assert.rejects(
+      processPool(getPoolType('alarm'), day, 0, { force: true }),
+      /may have been sent/
+    );
+    assert.equal(await chain.getNonce(), nonce);
+    assert.deepEqual(
+      repository.snapshot().processing_journal.map((entry) => entry.stage),
+      ['computed']
+    );
+
+    const result = await resumeIncompletePools('alarm');
+
+    assert.equal(result.success, 1);
+    await assertProofsVerify(repository);
+  });
+});
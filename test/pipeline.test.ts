@@ -0,0 +1,179 @@
+import './env.js';
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+
+import { getChainClient } from '../src/core/chain.js';
+import { FakeChainClient } from '../src/core/fake-chain-client.js';
+import { InMemoryPoolRepository } from '../src/core/memory-repository.js';
+import { processPool, resumeIncompletePools } from '../src/core/pipeline.js';
+import { setPoolRepository } from '../src/core/repository.js';
+import { getPoolType } from '../src/pools.js';
+import { PoolClaim } from '../src/types/pool.js';
+import { AlarmUser } from '../src/types/alarm.js';
+import { assertProofsVerify, mixedPoolData, nextPoolDay, poolData } from './fixtures.js';
+
+/**
+ * Memory repository whose next alarm result store fails (process dies
+ * between finalization and storage)
+ */
+class FailingStoreRepository extends InMemoryPoolRepository {
+  private failNextStore = true;
+
+  override async storeAlarmResults(claims: PoolClaim<AlarmUser>[], expiry: number) {
+    if (this.failNextStore) {
+      this.failNextStore = false;
+      throw new Error('Storage unavailable');
+    }
+    return super.storeAlarmResults(claims, expiry);
+  }
+}
+
+describe('pool pipeline (memory storage, fake chain)', () => {
+  let day: number;
+
+  beforeEach(() => {
+    day = nextPoolDay();
+  });
+
+  it('processes a pool and verifies every stored claim proof', async () => {
+    const repository = new InMemoryPoolRepository(poolData(day));
+    setPoolRepository(repository);
+
+    const result = await processPool(getPoolType('alarm'), day, 0, { force: true });
+
+    assert.ok(result.success);
+    const { user_claim_data: claims, alarms } = repository.snapshot();
+    const rewards = claims.reduce((sum, claim) => sum + BigInt(claim.reward_amount), 0n);
+    assert.equal(claims.length, 4);
+    assert.ok(alarms.every((record) => record.claim_ready));
+    assert.ok(rewards <= BigInt(result.pool_info!.new_rewards));
+    await assertProofsVerify(repository);
+  });
+
+  it('stores each alarm its own reward for an owner with mixed outcomes', async () => {
+    const repository = new InMemoryPoolRepository(mixedPoolData(day));
+    setPoolRepository(repository);
+
+    const result = await processPool(getPoolType('alarm'), day, 0, { force: true });
+
+    assert.ok(result.success);
+    const rewardOf = new Map(
+      repository
+        .snapshot()
+        .user_claim_data.map((claim) => [claim.alarm_id, BigInt(claim.reward_amount)])
+    );
+    assert.equal(rewardOf.get('alarm-3'), 0n);
+    assert.equal(rewardOf.get('alarm-5'), 0n);
+    // Shared by stake: 10 : 30 : 20
+    assert.equal(rewardOf.get('alarm-2'), rewardOf.get('alarm-1')! * 3n);
+    assert.equal(rewardOf.get('alarm-4'), rewardOf.get('alarm-1')! * 2n);
+    await assertProofsVerify(repository);
+  });
+
+  it('stores each alarm the weight its own reward was allocated by', async () => {
+    const repository = new InMemoryPoolRepository(mixedPoolData(day));
+    setPoolRepository(repository);
+
+    await processPool(getPoolType('alarm'), day, 0, { force: true });
+
+    const weightOf = new Map(
+      repository.snapshot().user_claim_data.map((claim) => [claim.alarm_id, claim.reward_weight])
+    );
+    assert.equal(weightOf.get('alarm-3'), null);
+    assert.equal(weightOf.get('alarm-5'), null);
+    assert.equal(BigInt(weightOf.get('alarm-2')!), BigInt(weightOf.get('alarm-1')!) * 3n);
+    assert.equal(BigInt(weightOf.get('alarm-4')!), BigInt(weightOf.get('alarm-1')!) * 2n);
+  });
+
+  it('skips a stored pool on a forced rerun without duplicating claims', async () => {
+    const repository = new InMemoryPoolRepository(poolData(day));
+    setPoolRepository(repository);
+    await processPool(getPoolType('alarm'), day, 0, { force: true });
+
+    const result = await processPool(getPoolType('alarm'), day, 0, { force: true });
+
+    assert.equal(result.success, false);
+    assert.match(result.message!, /claims are stored/);
+    assert.equal(repository.snapshot().user_claim_data.length, 4);
+  });
+
+  it('skips a finalized pool whose claims are stored but not journaled', async () => {
+    const processed = new InMemoryPoolRepository(poolData(day));
+    setPoolRepository(processed);
+    await processPool(getPoolType('alarm'), day, 0, { force: true });
+    const repository = new InMemoryPoolRepository({
+      ...processed.snapshot(),
+      processing_journal: [],
+    });
+    setPoolRepository(repository);
+
+    const result = await processPool(getPoolType('alarm'), day, 0, { force: true });
+
+    assert.equal(result.success, false);
+    assert.match(result.message!, /claims are stored/);
+    assert.equal(repository.snapshot().user_claim_data.length, 4);
+  });
+
+  it('resumes a run that stopped after finalization', async () => {
+    const repository = new FailingStoreRepository(poolData(day));
+    setPoolRepository(repository);
+
+    await assert.rejects(processPool(getPoolType('alarm'), day, 0, { force: true }));
+    assert.deepEqual(
+      repository.snapshot().processing_journal.map((entry) => entry.stage),
+      ['finalized']
+    );
+
+    const result = await resumeIncompletePools('alarm');
+
+    assert.equal(result.success, 1);
+    assert.equal(result.failed, 0);
+    assert.deepEqual(
+      repository.snapshot().processing_journal.map((entry) => entry.stage),
+      ['stored']
+    );
+    await assertProofsVerify(repository);
+  });
+
+  it('resubmits a run whose recorded transaction reverted', async () => {
+    const repository = new InMemoryPoolRepository(poolData(day));
+    setPoolRepository(repository);
+    const chain = getChainClient() as FakeChainClient;
+
+    chain.revertNextInclusion('Out of gas');
+    await assert.rejects(processPool(getPoolType('alarm'), day, 0, { force: true }), /REVERTED/);
+    const [reverted] = repository.snapshot().processing_journal;
+    assert.equal(reverted!.stage, 'submitted');
+
+    const result = await resumeIncompletePools('alarm');
+
+    assert.equal(result.success, 1);
+    const [resumed] = repository.snapshot().processing_journal;
+    assert.equal(resumed!.stage, 'stored');
+    assert.notEqual(resumed!.tx_hash, reverted!.tx_hash);
+    await assertProofsVerify(repository);
+  });
+
+  it('resumes a run whose transaction outcome is unknown without sending it twice', async () => {
+    const repository = new InMemoryPoolRepository(poolData(day));
+    setPoolRepository(repository);
+    const chain = getChainClient() as FakeChainClient;
+    const nonce = await chain.getNonce();
+
+    // A timeout is not retried: the transaction may be on its way
+    chain.failNext('execute', 'Request timed out');
+    await assert.rejects(processPool(getPoolType('alarm'), day, 0, { force: true }));
+    assert.equal(await chain.getNonce(), nonce);
+    assert.deepEqual(
+      repository.snapshot().processing_journal.map((entry) => entry.stage),
+      ['computed']
+    );
+
+    const result = await resumeIncompletePools('alarm');
+
+    assert.equal(result.success, 1);
+    assert.equal(BigInt(await chain.getNonce()), BigInt(nonce) + 1n);
+    await assertProofsVerify(repository);
+  });
+});
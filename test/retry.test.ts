@@ -0,0 +1,81 @@
+import './env.js';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  isNonceError,
+  isPaymasterRejection,
+  isRevertedTransactionError,
+  isTransientError,
+  isUnknownTransactionError,
+  isUnsentError,
+  withRetry,
+} from '../src/core/retry.js';
+
+const policy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+describe('RPC error classification', () => {
+  it('retries only broadcasts the node provably never handled', () => {
+    for (const message of ['connect ECONNREFUSED 127.0.0.1:5050', '429 Too Many Requests']) {
+      assert.ok(isTransientError(new Error(message)), message);
+      assert.ok(isUnsentError(new Error(message)), message);
+    }
+    for (const message of ['Request timed out', 'socket hang up', '503 Service Unavailable']) {
+      assert.ok(isTransientError(new Error(message)), message);
+      assert.ok(!isUnsentError(new Error(message)), message);
+    }
+  });
+
+  it('tells paymaster rejections from unclear paymaster failures', () => {
+    assert.ok(isPaymasterRejection(new Error('TOKEN_NOT_SUPPORTED')));
+    assert.ok(isPaymasterRejection(new Error('Sponsoring quota exceeded')));
+    assert.ok(!isPaymasterRejection(new Error('Request timed out')));
+  });
+
+  it('recognizes nonce, unknown and reverted transaction errors', () => {
+    assert.ok(isNonceError(new Error('Invalid transaction nonce: expected 0x2, got 0x1')));
+    assert.ok(isUnknownTransactionError(new Error('Transaction hash not found')));
+    assert.ok(isRevertedTransactionError(new Error('Transaction failed with status: REVERTED')));
+    assert.ok(!isRevertedTransactionError(new Error('Transaction hash not found')));
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient errors until the operation succeeds', async () => {
+    let attempts = 0;
+
+    const result = await withRetry(
+      'test',
+      async () => {
+        attempts++;
+        if (attempts < 3) {
+          throw new Error('fetch failed');
+        }
+        return 'done';
+      },
+      policy
+    );
+
+    assert.equal(result, 'done');
+    assert.equal(attempts, 3);
+  });
+
+  it('does not retry errors the predicate refuses', async () => {
+    let attempts = 0;
+
+    await assert.rejects(
+      withRetry(
+        'test',
+        async () => {
+          attempts++;
+          throw new Error('Request timed out');
+        },
+        policy,
+        isUnsentError
+      ),
+      /timed out/
+    );
+    assert.equal(attempts, 1);
+  });
+});
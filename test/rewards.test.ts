@@ -0,0 +1,129 @@
+import './env.js';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  allocateProportionally,
+  allocateWithOwnerCap,
+  calculateFocusStakeReturn,
+  calculateFocusTotalSlashed,
+  calculateRewards,
+} from '../src/core/calculator.js';
+import { calculateFocusWeight } from '../src/core/focus-weighting.js';
+import { calculatePartialReturn, parsePartialReturn } from '../src/core/partial-return.js';
+import { getSlashSchedule } from '../src/core/slash-schedule.js';
+import {
+  calculateStreakWeight,
+  countStreak,
+  parseStreakMultipliers,
+  streakMultiplierBps,
+} from '../src/core/streaks.js';
+import { alarmUser, focusLockUser } from './fixtures.js';
+
+describe('reward allocation', () => {
+  it('rounds every share down with floor', () => {
+    assert.deepEqual(allocateProportionally(10n, [1n, 1n, 1n], 'floor'), [3n, 3n, 3n]);
+  });
+
+  it('hands the leftover to the largest remainders, ties to the earlier entry', () => {
+    assert.deepEqual(allocateProportionally(10n, [1n, 1n, 1n], 'largest-remainder'), [4n, 3n, 3n]);
+    assert.deepEqual(allocateProportionally(10n, [1n, 2n], 'largest-remainder'), [3n, 7n]);
+  });
+
+  it("caps an owner and shares the excess by the other owners' weights", () => {
+    const shares = allocateWithOwnerCap(
+      1000n,
+      ['0xa', '0xa', '0xb', '0xc'],
+      [10n, 10n, 60n, 20n],
+      5000,
+      'largest-remainder'
+    );
+
+    assert.deepEqual(shares, [125n, 125n, 500n, 250n]);
+  });
+
+  it('raises a cap that cannot cover the amount to an equal share', () => {
+    const shares = allocateWithOwnerCap(1000n, ['0xa', '0xb'], [1n, 3n], 2000, 'floor');
+
+    assert.deepEqual(shares, [500n, 500n]);
+  });
+});
+
+describe('alarm streaks', () => {
+  const curve = parseStreakMultipliers('3:11000,7:12500');
+
+  it('counts wake-ups up to the newest snooze', () => {
+    assert.equal(countStreak([]), 0);
+    assert.equal(countStreak([{ snooze_count: 0 }, { snooze_count: 0 }]), 2);
+    assert.equal(countStreak([{ snooze_count: 0 }, { snooze_count: 2 }, { snooze_count: 0 }]), 1);
+  });
+
+  it('applies the multiplier of the highest threshold reached', () => {
+    assert.equal(streakMultiplierBps(2, curve), 10_000);
+    assert.equal(streakMultiplierBps(3, curve), 11_000);
+    assert.equal(streakMultiplierBps(30, curve), 12_500);
+    assert.equal(calculateStreakWeight(1_000_000n, 7, curve), 1_250_000n);
+  });
+
+  it('rejects curves that are not increasing or below 1x', () => {
+    assert.throws(() => parseStreakMultipliers('7:12500,3:11000'), /increasing streak/);
+    assert.throws(() => parseStreakMultipliers('3:9000'), /bps/);
+  });
+
+  it('shares rewards by streak weight', () => {
+    const winners = [alarmUser(1, 1_000_000n), alarmUser(2, 1_000_000n)];
+    const streaks = new Map([
+      ['alarm-1', 0],
+      ['alarm-2', 7],
+    ]);
+
+    const rewards = calculateRewards(winners, 900_000n, 'largest-remainder', (user) =>
+      calculateStreakWeight(BigInt(user.stake_amount), streaks.get(user.uuid)!, curve)
+    );
+
+    assert.deepEqual(rewards.map((reward) => reward.reward_amount), ['400000', '500000']);
+  });
+});
+
+describe('focus lock partial returns', () => {
+  const schedule = getSlashSchedule('focus-v1');
+  const linear = parsePartialReturn('linear');
+  const steps = parsePartialReturn('25:10,50:30,75:60');
+
+  it('returns a part of the stake by the time held', () => {
+    assert.equal(calculatePartialReturn(1000n, 600n, 1000n, linear), 600n);
+    assert.equal(calculatePartialReturn(1000n, 600n, 1000n, steps), 300n);
+    assert.equal(calculatePartialReturn(1000n, 200n, 1000n, steps), 0n);
+    assert.equal(calculatePartialReturn(1000n, 5000n, 1000n, steps), 600n);
+  });
+
+  it('rejects steps that are not increasing', () => {
+    assert.throws(() => parsePartialReturn('50:30,25:40'), /increasing held/);
+  });
+
+  it('slashes a failed lock only for the time it was not held', () => {
+    const failed = focusLockUser(1, 1000n, 1000n, 600n);
+    const completed = focusLockUser(2, 1000n, 1000n);
+
+    assert.equal(calculateFocusStakeReturn(failed, schedule, null), 0n);
+    assert.equal(calculateFocusStakeReturn(failed, schedule, linear), 600n);
+    assert.equal(calculateFocusStakeReturn(completed, schedule, linear), 1000n);
+    assert.equal(calculateFocusTotalSlashed([failed, completed], schedule, linear), 400n);
+  });
+
+  it('weights locks by the configured strategy', () => {
+    const weighting = { max_user_reward_bps: null };
+
+    assert.equal(calculateFocusWeight(16n, 10n, { ...weighting, strategy: 'linear' }), 160n);
+    assert.equal(calculateFocusWeight(16n, 10n, { ...weighting, strategy: 'sqrt-stake' }), 40n);
+    assert.equal(
+      calculateFocusWeight(5n, 1000n, {
+        ...weighting,
+        strategy: 'capped-duration',
+        duration_cap: 600,
+      }),
+      3000n
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import './env.js';
+
+import assert from 'node:assert/strict';
+import { before, beforeEach, describe, it } from 'node:test';
+
+import { getChainClient } from '../src/core/chain.js';
+import { getAlarmConfig } from '../src/core/config.js';
+import { FakeChainClient } from '../src/core/fake-chain-client.js';
+import { PrivateKeySigner } from '../src/core/key-signer.js';
+import { InMemoryPoolRepository } from '../src/core/memory-repository.js';
+import { processPool } from '../src/core/pipeline.js';
+import { setPoolRepository } from '../src/core/repository.js';
+import { getPoolType } from '../src/pools.js';
+import { assertProofsVerify, nextPoolDay, poolData } from './fixtures.js';
+
+const ACTIVE_KEY = '0x1234';
+const RETIRING_KEY = '0x9abc';
+
+describe('verifier key rotation (memory storage, fake chain)', () => {
+  let day: number;
+  let repository: InMemoryPoolRepository;
+  let chain: FakeChainClient;
+
+  /**
+   * Register the public key of a private key as the alarm contract's verifier
+   */
+  async function registerVerifier(privateKey: string): Promise<void> {
+    const publicKey = await new PrivateKeySigner(privateKey).getPublicKey();
+    chain.setVerifier(getAlarmConfig().contract_address, publicKey);
+  }
+
+  /**
+   * Key ids recorded on the stored claims
+   */
+  function storedKeyIds(): string[] {
+    return [...new Set(repository.snapshot().user_claim_data.map((claim) => claim.key_id!))];
+  }
+
+  before(() => {
+    // Read when the configuration first loads (on the first chain access)
+    process.env.ALARM_VERIFIER_PRIVATE_KEY = ACTIVE_KEY;
+    process.env.ALARM_VERIFIER_KEY_ID = 'v2';
+    process.env.ALARM_VERIFIER_RETIRING_PRIVATE_KEY = RETIRING_KEY;
+    process.env.ALARM_VERIFIER_RETIRING_KEY_ID = 'v1';
+  });
+
+  beforeEach(() => {
+    day = nextPoolDay();
+    repository = new InMemoryPoolRepository(poolData(day));
+    setPoolRepository(repository);
+    chain = getChainClient() as FakeChainClient;
+  });
+
+  it('signs with the retiring key while the contract still registers it', async () => {
+    await registerVerifier(RETIRING_KEY);
+
+    const result = await processPool(getPoolType('alarm'), day, 0, { force: true });
+
+    assert.ok(result.success);
+    assert.deepEqual(storedKeyIds(), ['v1']);
+    await assertProofsVerify(repository);
+  });
+
+  it('signs with the active key once the contract is rotated', async () => {
+    await registerVerifier(ACTIVE_KEY);
+
+    const result = await processPool(getPoolType('alarm'), day, 0, { force: true });
+
+    assert.ok(result.success);
+    assert.deepEqual(storedKeyIds(), ['v2']);
+    await assertProofsVerify(repository);
+  });
+
+  it('refuses to finalize when the contract registers an unknown key', async () => {
+    await registerVerifier('0x4321');
+    const nonce = await chain.getNonce();
+
+    await assert.rejects(
+      processPool(getPoolType('alarm'), day, 0, { force: true }),
+      /matches no configured verifier key/
+    );
+    assert.equal(await chain.getNonce(), nonce);
+    assert.deepEqual(repository.snapshot().user_claim_data, []);
+  });
+});